@@ -0,0 +1,32 @@
+import { Resvg } from '@resvg/resvg-js'
+import type { Plugin } from 'vite'
+import { mortgageCombinations } from '../src/config/mortgageCombinations'
+import { generateStaticOGImagePath, renderOGImageSvg, OG_IMAGE_WIDTH } from '../src/utils/ogImage'
+
+/**
+ * Renders the social preview PNG for every entry in mortgageCombinations and emits it into
+ * the build output under og-images/, leaving the source tree untouched.
+ */
+export function generateOgImages(): Plugin {
+  return {
+    name: 'generate-og-images',
+    apply: 'build',
+    buildStart() {
+      for (const combo of mortgageCombinations) {
+        const png = new Resvg(renderOGImageSvg(combo), {
+          fitTo: { mode: 'width', value: OG_IMAGE_WIDTH },
+          font: { loadSystemFonts: true, defaultFontFamily: 'sans-serif' },
+        })
+          .render()
+          .asPng()
+        this.emitFile({
+          type: 'asset',
+          fileName: generateStaticOGImagePath(combo).replace(/^\//, ''),
+          source: png,
+        })
+      }
+
+      this.info(`Generated ${mortgageCombinations.length} OG images`)
+    },
+  }
+}
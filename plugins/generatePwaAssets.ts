@@ -0,0 +1,144 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import { createHash } from 'node:crypto'
+import { Resvg } from '@resvg/resvg-js'
+import type { Plugin, Rollup } from 'vite'
+
+// PNG renditions of public/favicon.svg for browsers, home screens and the web manifest
+const ICON_SIZES: Array<{ fileName: string; size: number }> = [
+  { fileName: 'favicon-16x16.png', size: 16 },
+  { fileName: 'favicon-32x32.png', size: 32 },
+  { fileName: 'apple-touch-icon.png', size: 180 },
+  { fileName: 'icons/icon-192.png', size: 192 },
+  { fileName: 'icons/icon-512.png', size: 512 },
+]
+
+// Files from public/ that belong to the app shell
+const PUBLIC_SHELL_FILES = ['favicon.svg', 'manifest.webmanifest']
+
+/**
+ * Built files the shell needs to start: index.html and the entry chunk with everything it
+ * imports statically, plus their CSS. Lazy chunks (pages, PDF export, workers) are cached by
+ * the service worker the first time they load.
+ */
+const collectShellFiles = (bundle: Rollup.OutputBundle): string[] => {
+  const files = new Set<string>(['index.html'])
+  const visit = (fileName: string) => {
+    const chunk = bundle[fileName]
+    if (!chunk || chunk.type !== 'chunk' || files.has(fileName)) return
+    files.add(fileName)
+    chunk.viteMetadata?.importedCss.forEach((css) => files.add(css))
+    chunk.imports.forEach(visit)
+  }
+  Object.values(bundle).forEach((file) => {
+    if (file.type === 'chunk' && file.isEntry) visit(file.fileName)
+  })
+  return [...files]
+}
+
+/**
+ * The service worker: precaches the app shell so it loads offline, serves hashed assets from
+ * the cache (keeping lazy chunks once fetched), and falls back to the cached index.html for
+ * navigations when the network fails. API calls are left to the network; the app keeps its own
+ * copy of the last results.
+ */
+const renderServiceWorker = (precache: string[], version: string): string => `// Generated at build time by plugins/generatePwaAssets.ts
+const CACHE_PREFIX = 'mortgasim-shell-'
+const CACHE_NAME = CACHE_PREFIX + ${JSON.stringify(version)}
+const PRECACHE = ${JSON.stringify(precache, null, 2)}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(CACHE_NAME).then((cache) => cache.addAll(PRECACHE)))
+})
+
+// Older shells are removed once this version takes over, i.e. after every tab on them has closed
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys.filter((key) => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME).map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  )
+})
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return
+
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request).catch(() =>
+        caches.match('/index.html', { cacheName: CACHE_NAME }).then((cached) => cached || Response.error())
+      )
+    )
+    return
+  }
+
+  event.respondWith(
+    caches.open(CACHE_NAME).then((cache) =>
+      cache.match(request).then(
+        (cached) =>
+          cached ||
+          fetch(request).then((response) => {
+            // Hashed assets never change, so a lazy chunk is kept once it has loaded
+            if (response.ok && new URL(request.url).pathname.startsWith('/assets/')) {
+              cache.put(request, response.clone())
+            }
+            return response
+          })
+      )
+    )
+  )
+})
+`
+
+/**
+ * Renders the app icons from public/favicon.svg and writes sw.js with the precache list for
+ * this build, so the shell loads offline and the app can be installed.
+ */
+export function generatePwaAssets(): Plugin {
+  let publicDir = ''
+
+  return {
+    name: 'generate-pwa-assets',
+    apply: 'build',
+    enforce: 'post',
+    configResolved(config) {
+      publicDir = config.publicDir
+    },
+    generateBundle(_, bundle) {
+      const svgPath = path.join(publicDir, 'favicon.svg')
+      if (!publicDir || !fs.existsSync(svgPath)) {
+        this.warn('public/favicon.svg not found; skipping icons and service worker')
+        return
+      }
+
+      const svg = fs.readFileSync(svgPath)
+      for (const { fileName, size } of ICON_SIZES) {
+        const png = new Resvg(svg, { fitTo: { mode: 'width', value: size } }).render().asPng()
+        this.emitFile({ type: 'asset', fileName, source: png })
+      }
+
+      const precache = [
+        '/',
+        ...collectShellFiles(bundle).map((fileName) => `/${fileName}`),
+        ...ICON_SIZES.map(({ fileName }) => `/${fileName}`),
+        ...PUBLIC_SHELL_FILES.map((fileName) => `/${fileName}`),
+      ].sort()
+
+      // Hashed asset names change with their content; index.html is the one file without a hash
+      const index = bundle['index.html']
+      const version = createHash('sha256')
+        .update(precache.join('\n'))
+        .update(index && index.type === 'asset' ? index.source : '')
+        .digest('hex')
+        .slice(0, 12)
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source: renderServiceWorker(precache, version) })
+      this.info(`Service worker precaches ${precache.length} files`)
+    },
+  }
+}
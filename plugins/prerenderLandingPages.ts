@@ -0,0 +1,101 @@
+import type { Plugin } from 'vite'
+import { mortgageCombinations } from '../src/config/mortgageCombinations'
+import { generateMortgageSlug } from '../src/utils/mortgageSlug'
+import {
+  SITE_URL,
+  getMortgageSeoData,
+  getMortgageKeyFigures,
+} from '../src/utils/mortgageSeo'
+import { generateStaticOGImagePath } from '../src/utils/ogImage'
+import type { MortgageCombination } from '../src/config/mortgageCombinations'
+
+interface PrerenderOptions {
+  baseUrl?: string
+}
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+
+const formatPounds = (value: number): string =>
+  new Intl.NumberFormat('en-GB', { style: 'currency', currency: 'GBP' }).format(value)
+
+// Replace the content of a <meta name|property="key"> tag from index.html
+const setMetaContent = (html: string, key: string, content: string): string =>
+  html.replace(
+    new RegExp(`(<meta (?:name|property)="${key}" content=")[^"]*(")`),
+    `$1${escapeHtml(content)}$2`
+  )
+
+const renderLandingPage = (template: string, combo: MortgageCombination, baseUrl: string): string => {
+  const slug = generateMortgageSlug(combo.loan, combo.term, combo.rate)
+  const url = `${baseUrl}/mortgage/${slug}`
+  const seo = getMortgageSeoData({
+    mortgage_amount: combo.loan,
+    term_years: combo.term,
+    fixed_rate: combo.rate,
+  })
+  const figures = getMortgageKeyFigures(combo)
+  const image = `${baseUrl}${generateStaticOGImagePath(combo)}`
+
+  let html = template.replace(/<title>[^<]*<\/title>/, `<title>${escapeHtml(seo.title)}</title>`)
+  html = html.replace(/(<link rel="canonical" href=")[^"]*(")/, `$1${url}$2`)
+  html = setMetaContent(html, 'description', seo.description)
+  html = setMetaContent(html, 'og:url', url)
+  html = setMetaContent(html, 'og:title', seo.ogTitle)
+  html = setMetaContent(html, 'og:description', seo.ogDescription)
+  html = setMetaContent(html, 'og:image', image)
+  html = setMetaContent(html, 'twitter:url', url)
+  html = setMetaContent(html, 'twitter:title', seo.ogTitle)
+  html = setMetaContent(html, 'twitter:description', seo.ogDescription)
+  html = setMetaContent(html, 'twitter:image', image)
+
+  // Crawlers without JavaScript read this; the app replaces it when it mounts
+  const summary = `
+      <main>
+        <h1>${escapeHtml(seo.title.replace(/ - MortgaSim$/, ''))}</h1>
+        <p>${escapeHtml(seo.description)}</p>
+        <table>
+          <tr><th scope="row">Loan amount</th><td>${formatPounds(combo.loan)}</td></tr>
+          <tr><th scope="row">Term</th><td>${combo.term} years</td></tr>
+          <tr><th scope="row">Interest rate</th><td>${combo.rate}%</td></tr>
+          <tr><th scope="row">Monthly payment</th><td>${formatPounds(figures.monthlyPayment)}</td></tr>
+          <tr><th scope="row">Total interest</th><td>${formatPounds(figures.totalInterest)}</td></tr>
+          <tr><th scope="row">Total repaid</th><td>${formatPounds(figures.totalRepaid)}</td></tr>
+        </table>
+      </main>
+    `
+  return html.replace('<div id="root"></div>', `<div id="root">${summary}</div>`)
+}
+
+/**
+ * Writes mortgage/<slug>/index.html for every entry in mortgageCombinations, built from the
+ * final index.html so crawlers get page-specific metadata and key figures without running JS.
+ */
+export function prerenderLandingPages({ baseUrl = SITE_URL }: PrerenderOptions = {}): Plugin {
+  return {
+    name: 'prerender-landing-pages',
+    apply: 'build',
+    enforce: 'post',
+    generateBundle(_, bundle) {
+      const index = bundle['index.html']
+      if (!index || index.type !== 'asset') {
+        this.warn('index.html not found in the bundle; skipping landing page prerender')
+        return
+      }
+      const template = String(index.source)
+
+      for (const combo of mortgageCombinations) {
+        const slug = generateMortgageSlug(combo.loan, combo.term, combo.rate)
+        this.emitFile({
+          type: 'asset',
+          fileName: `mortgage/${slug}/index.html`,
+          source: renderLandingPage(template, combo, baseUrl),
+        })
+      }
+    },
+  }
+}
@@ -87,8 +87,9 @@ function generateMortgageSlug(loan, term, rate) {
     : loan.toString();
   
   const rateDisplay = rate.toString().replace(/\.0$/, '');
+  const termDisplay = term === 1 ? '1-year' : `${term}-years`;
   
-  return `${loanDisplay}-over-${term}-years-at-${rateDisplay}-percent`;
+  return `${loanDisplay}-over-${termDisplay}-at-${rateDisplay}-percent`;
 }
 
 function getCombinationsByPriority(priority) {
@@ -1,10 +1,13 @@
 import React, { Suspense } from 'react'
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom'
 import { CircularProgress, Box } from '@mui/material'
+import { InstallPrompt } from './components/InstallPrompt'
 
 // Lazy load page components for code splitting
 const MortgageSimulation = React.lazy(() => import('./pages/MortgageSimulation').then(module => ({ default: module.MortgageSimulation })))
 const DynamicMortgagePage = React.lazy(() => import('./pages/DynamicMortgagePage').then(module => ({ default: module.DynamicMortgagePage })))
+const MortgageSlugPage = React.lazy(() => import('./pages/MortgageSlugPage').then(module => ({ default: module.MortgageSlugPage })))
+const NotFoundPage = React.lazy(() => import('./pages/NotFoundPage').then(module => ({ default: module.NotFoundPage })))
 
 // Loading component for route transitions
 const RouteLoading = () => (
@@ -30,8 +33,14 @@ function App() {
 
           {/* Shared simulation link: /mortgage?d=<base64> */}
           <Route path="/mortgage" element={<DynamicMortgagePage />} />
+
+          {/* Sitemap landing pages: /mortgage/200k-over-25-years-at-4-percent */}
+          <Route path="/mortgage/:slug" element={<MortgageSlugPage />} />
+
+          <Route path="*" element={<NotFoundPage />} />
         </Routes>
       </Suspense>
+      <InstallPrompt />
     </Router>
   )
 }
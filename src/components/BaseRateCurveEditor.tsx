@@ -0,0 +1,133 @@
+import React, { useMemo } from 'react'
+import { Box, Typography, IconButton, Button, Tooltip } from '@mui/material'
+import { Add, Delete } from '@mui/icons-material'
+import { Line } from 'react-chartjs-2'
+import type { ChartOptions } from 'chart.js'
+import NumericField from './NumericField'
+import { chartColors } from '../utils/chartSetup'
+import { getBaseRateForMonth } from '../services/simulationEngine'
+import type { BaseRatePoint } from '../types/mortgage'
+
+interface BaseRateCurveEditorProps {
+  path: BaseRatePoint[]
+  onChange: (path: BaseRatePoint[]) => void
+  termYears: number
+}
+
+const DEFAULT_START_RATE = 4.0
+
+// Editable base rate projection: points by year, interpolated linearly by the simulation
+export const BaseRateCurveEditor: React.FC<BaseRateCurveEditorProps> = ({
+  path,
+  onChange,
+  termYears,
+}) => {
+  const termMonths = Math.round(termYears * 12)
+
+  const handlePointChange = (index: number, point: Partial<BaseRatePoint>) => {
+    const newPath = [...path]
+    newPath[index] = { ...newPath[index], ...point }
+    onChange(newPath.sort((a, b) => a.month - b.month))
+  }
+
+  const handleAddPoint = () => {
+    const last = path[path.length - 1]
+    const month = last ? Math.min(termMonths, last.month + 24) : 0
+    onChange([...path, { month, rate: last ? last.rate : DEFAULT_START_RATE }])
+  }
+
+  const handleRemovePoint = (index: number) => {
+    onChange(path.filter((_, i) => i !== index))
+  }
+
+  const data = useMemo(() => {
+    const years = Array.from({ length: Math.max(1, termYears) + 1 }, (_, i) => i)
+    return {
+      labels: years.map((y) => `${y}y`),
+      datasets: [
+        {
+          label: 'Base Rate',
+          data: years.map((y) => getBaseRateForMonth(path, y * 12)),
+          borderColor: chartColors.netWorth,
+          backgroundColor: `${chartColors.netWorth}20`,
+          fill: true,
+          tension: 0,
+          pointRadius: 0,
+        },
+      ],
+    }
+  }, [path, termYears])
+
+  const options: ChartOptions<'line'> = useMemo(
+    () => ({
+      responsive: true,
+      maintainAspectRatio: false,
+      plugins: {
+        legend: { display: false },
+        tooltip: {
+          callbacks: {
+            label: (context) => `Base rate: ${(context.parsed.y ?? 0).toFixed(2)}%`,
+          },
+        },
+      },
+      scales: {
+        x: { ticks: { maxTicksLimit: 6, font: { size: 10 } }, grid: { display: false } },
+        y: { min: 0, ticks: { callback: (value) => `${value}%`, font: { size: 10 } } },
+      },
+    }),
+    []
+  )
+
+  if (path.length === 0) {
+    return (
+      <Button size="small" startIcon={<Add />} onClick={handleAddPoint}>
+        Add base rate projection
+      </Button>
+    )
+  }
+
+  return (
+    <Box>
+      <Box sx={{ height: 120, mb: 1 }}>
+        <Line data={data} options={options} />
+      </Box>
+
+      <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5 }}>
+        <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr 44px', gap: 1, px: 0.5 }}>
+          <Typography variant="caption" color="text.secondary">From Year</Typography>
+          <Typography variant="caption" color="text.secondary">Base Rate (%)</Typography>
+          <Box />
+        </Box>
+        {path.map((point, index) => (
+          <Box
+            key={index}
+            sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr 44px', gap: 1, alignItems: 'center', px: 0.5 }}
+          >
+            <NumericField
+              value={point.month / 12}
+              onChange={(v) => {
+                if (v !== '' && v <= termYears) handlePointChange(index, { month: Math.round(v * 12) })
+              }}
+              size="small"
+            />
+            <NumericField
+              value={point.rate}
+              onChange={(v) => {
+                if (v !== '' && v <= 15) handlePointChange(index, { rate: v })
+              }}
+              size="small"
+            />
+            <Tooltip title="Remove point">
+              <IconButton size="small" onClick={() => handleRemovePoint(index)}>
+                <Delete fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          </Box>
+        ))}
+        <Button size="small" startIcon={<Add />} onClick={handleAddPoint} sx={{ alignSelf: 'flex-start', mt: 0.5 }}>
+          Add Point
+        </Button>
+      </Box>
+    </Box>
+  )
+}
@@ -9,19 +9,42 @@ import {
   DialogTitle,
   DialogContent,
   DialogActions,
+  TextField,
+  FormControlLabel,
+  Switch,
+  MenuItem,
 } from '@mui/material'
 import NumericField from './NumericField'
 import {
   Add,
   Delete,
+  Tune,
 } from '@mui/icons-material'
 
 export interface Deal {
   start_month: number
   end_month: number
   rate: number
+  type?: 'fixed' | 'tracker' | 'discount'
+  margin?: number
+  discount?: number
+  collar?: number
+  overpayment_allowance_percent?: number
+  erc_percent?: number
+  erc_percent_by_year?: number[]
+  arrangement_fee?: number
+  valuation_fee?: number
+  cashback?: number
+  fees_added_to_loan?: boolean
 }
 
+type DealDetails = Pick<
+  Deal,
+  'type' | 'margin' | 'discount' | 'collar' | 'arrangement_fee' | 'valuation_fee' | 'cashback' | 'fees_added_to_loan'
+>
+
+type NumericDealField = 'start_month' | 'end_month' | 'rate' | 'overpayment_allowance_percent'
+
 interface DealTimelineProps {
   deals: Deal[]
   onChange: (deals: Deal[]) => void
@@ -41,6 +64,82 @@ const DEAL_COLORS = [
 
 const getDealColor = (index: number) => DEAL_COLORS[index % DEAL_COLORS.length]
 
+const LIST_COLUMNS = '24px 1fr 64px 64px 44px 60px 76px 76px'
+
+const dealHasFeeDetails = (deal: Deal): boolean =>
+  (deal.arrangement_fee ?? 0) > 0 || (deal.valuation_fee ?? 0) > 0 || (deal.cashback ?? 0) > 0
+
+// Headline rate label: fixed deals show their rate, variable deals their reference rate
+const formatRateLabel = (deal: Deal): string => {
+  if (deal.type === 'tracker') {
+    const margin = deal.margin ?? 0
+    return `Base ${margin >= 0 ? '+' : '−'}${Math.abs(margin)}%`
+  }
+  if (deal.type === 'discount') {
+    return `SVR −${deal.discount ?? 0}%`
+  }
+  return `${deal.rate}%`
+}
+
+const formatFeeSummary = (deal: Deal): string => {
+  const fees = (deal.arrangement_fee ?? 0) + (deal.valuation_fee ?? 0)
+  const parts: string[] = []
+  if (fees > 0) parts.push(`£${fees.toLocaleString()} fees${deal.fees_added_to_loan ? ' (added to loan)' : ''}`)
+  if ((deal.cashback ?? 0) > 0) parts.push(`£${(deal.cashback ?? 0).toLocaleString()} cashback`)
+  return parts.length > 0 ? parts.join(' · ') : 'Deal type, fees & cashback'
+}
+
+const formatErcSchedule = (deal: Deal): string => {
+  if (deal.erc_percent_by_year && deal.erc_percent_by_year.length > 0) {
+    return deal.erc_percent_by_year.join(',')
+  }
+  return deal.erc_percent != null ? String(deal.erc_percent) : ''
+}
+
+// ERC input accepting a single percentage ("3") or a stepped schedule per deal year ("5,4,3")
+const ErcScheduleField: React.FC<{
+  deal: Deal
+  onChange: (erc: Pick<Deal, 'erc_percent' | 'erc_percent_by_year'>) => void
+}> = ({ deal, onChange }) => {
+  const formatted = formatErcSchedule(deal)
+  const [local, setLocal] = useState(formatted)
+
+  const prev = useRef(formatted)
+  useEffect(() => {
+    if (formatted !== prev.current) {
+      prev.current = formatted
+      setLocal(formatted)
+    }
+  }, [formatted])
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const raw = e.target.value.replace(/[^0-9.,]/g, '')
+    setLocal(raw)
+
+    const steps = raw.split(',').filter(part => part !== '').map(Number)
+    if (steps.some(step => isNaN(step) || step > 10)) return
+
+    if (steps.length === 0) {
+      onChange({ erc_percent: undefined, erc_percent_by_year: undefined })
+    } else if (steps.length === 1) {
+      onChange({ erc_percent: steps[0], erc_percent_by_year: undefined })
+    } else {
+      onChange({ erc_percent: undefined, erc_percent_by_year: steps })
+    }
+  }
+
+  return (
+    <TextField
+      size="small"
+      placeholder="0"
+      value={local}
+      onChange={handleChange}
+      onClick={(e) => e.stopPropagation()}
+      inputProps={{ inputMode: 'decimal' }}
+    />
+  )
+}
+
 export const DealTimeline: React.FC<DealTimelineProps> = ({
   deals,
   onChange,
@@ -58,6 +157,9 @@ export const DealTimeline: React.FC<DealTimelineProps> = ({
   const [selectedDeal, setSelectedDeal] = useState<number | null>(null)
   const [addDialogOpen, setAddDialogOpen] = useState(false)
   const [newDealRate, setNewDealRate] = useState(2.0)
+  const [newDealAllowance, setNewDealAllowance] = useState(10)
+  const [newDealErc, setNewDealErc] = useState(0)
+  const [detailsDialog, setDetailsDialog] = useState<{ index: number; details: DealDetails } | null>(null)
 
   const monthToPercent = (month: number) => (month / termMonths) * 100
   const percentToMonth = useCallback((percent: number) => {
@@ -181,6 +283,8 @@ export const DealTimeline: React.FC<DealTimelineProps> = ({
       start_month: gap.start,
       end_month: gap.end,
       rate: newDealRate,
+      overpayment_allowance_percent: newDealAllowance,
+      erc_percent: newDealErc,
     }
 
     const newDeals = [...deals, newDeal].sort((a, b) => a.start_month - b.start_month)
@@ -188,7 +292,42 @@ export const DealTimeline: React.FC<DealTimelineProps> = ({
     setAddDialogOpen(false)
   }
 
-  const handleListFieldChange = (index: number, field: keyof Deal, value: number) => {
+  const handleDetailsDialogOpen = (index: number) => {
+    const deal = deals[index]
+    setDetailsDialog({
+      index,
+      details: {
+        type: deal.type,
+        margin: deal.margin,
+        discount: deal.discount,
+        collar: deal.collar,
+        arrangement_fee: deal.arrangement_fee,
+        valuation_fee: deal.valuation_fee,
+        cashback: deal.cashback,
+        fees_added_to_loan: deal.fees_added_to_loan,
+      },
+    })
+  }
+
+  const handleDetailsDialogSave = () => {
+    if (!detailsDialog) return
+    const newDeals = [...deals]
+    newDeals[detailsDialog.index] = { ...newDeals[detailsDialog.index], ...detailsDialog.details }
+    onChange(newDeals)
+    setDetailsDialog(null)
+  }
+
+  const updateDetailsDraft = (details: DealDetails) => {
+    setDetailsDialog((prev) => (prev ? { ...prev, details: { ...prev.details, ...details } } : prev))
+  }
+
+  const handleErcChange = (index: number, erc: Pick<Deal, 'erc_percent' | 'erc_percent_by_year'>) => {
+    const newDeals = [...deals]
+    newDeals[index] = { ...newDeals[index], ...erc }
+    onChange(newDeals)
+  }
+
+  const handleListFieldChange = (index: number, field: NumericDealField, value: number) => {
     const newDeals = [...deals]
     const updated = { ...newDeals[index], [field]: value }
 
@@ -292,7 +431,7 @@ export const DealTimeline: React.FC<DealTimelineProps> = ({
             return (
               <Tooltip
                 key={index}
-                title={`${deal.rate}% · ${duration}mo`}
+                title={`${formatRateLabel(deal)} · ${duration}mo`}
                 arrow
                 placement="top"
               >
@@ -359,7 +498,7 @@ export const DealTimeline: React.FC<DealTimelineProps> = ({
                         px: 1,
                       }}
                     >
-                      {deal.rate}%{width > 12 ? ` · ${duration}mo` : ''}
+                      {formatRateLabel(deal)}{width > 12 ? ` · ${duration}mo` : ''}
                     </Typography>
                   )}
 
@@ -413,7 +552,7 @@ export const DealTimeline: React.FC<DealTimelineProps> = ({
           <Box
             sx={{
               display: 'grid',
-              gridTemplateColumns: '24px 1fr 80px 80px 60px 44px',
+              gridTemplateColumns: LIST_COLUMNS,
               gap: 1,
               alignItems: 'center',
               px: 0.5,
@@ -424,6 +563,12 @@ export const DealTimeline: React.FC<DealTimelineProps> = ({
             <Typography variant="caption" color="text.secondary">Start Mo</Typography>
             <Typography variant="caption" color="text.secondary">End Mo</Typography>
             <Typography variant="caption" color="text.secondary">Dur</Typography>
+            <Tooltip title="Penalty-free overpayments per deal year, as % of the balance" arrow>
+              <Typography variant="caption" color="text.secondary">Allow %</Typography>
+            </Tooltip>
+            <Tooltip title="Early repayment charge on overpayments above the allowance. Use commas to step by year, e.g. 5,4,3" arrow>
+              <Typography variant="caption" color="text.secondary">ERC %</Typography>
+            </Tooltip>
             <Box />
           </Box>
         )}
@@ -436,7 +581,7 @@ export const DealTimeline: React.FC<DealTimelineProps> = ({
               key={index}
               sx={{
                 display: 'grid',
-                gridTemplateColumns: '24px 1fr 80px 80px 60px 44px',
+                gridTemplateColumns: LIST_COLUMNS,
                 gap: 1,
                 alignItems: 'center',
                 px: 0.5,
@@ -458,14 +603,27 @@ export const DealTimeline: React.FC<DealTimelineProps> = ({
                   flexShrink: 0,
                 }}
               />
-              <NumericField
-                value={deal.rate}
-                onChange={(v) => {
-                  if (v !== '') handleListFieldChange(index, 'rate', v)
-                }}
-                size="small"
-                onClick={(e) => e.stopPropagation()}
-              />
+              {(deal.type ?? 'fixed') === 'fixed' ? (
+                <NumericField
+                  value={deal.rate}
+                  onChange={(v) => {
+                    if (v !== '') handleListFieldChange(index, 'rate', v)
+                  }}
+                  size="small"
+                  onClick={(e) => e.stopPropagation()}
+                />
+              ) : (
+                <Typography
+                  variant="body2"
+                  sx={{ fontSize: '0.8rem', cursor: 'pointer' }}
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    handleDetailsDialogOpen(index)
+                  }}
+                >
+                  {formatRateLabel(deal)}
+                </Typography>
+              )}
               <NumericField
                 value={deal.start_month}
                 onChange={(v) => {
@@ -487,15 +645,38 @@ export const DealTimeline: React.FC<DealTimelineProps> = ({
               <Typography variant="body2" sx={{ fontSize: '0.8rem', color: 'text.secondary' }}>
                 {deal.end_month - deal.start_month}mo
               </Typography>
-              <IconButton
-                size="small"
-                onClick={(e) => {
-                  e.stopPropagation()
-                  handleDeleteDeal(index)
+              <NumericField
+                value={deal.overpayment_allowance_percent ?? 10}
+                onChange={(v) => {
+                  if (v !== '' && v <= 100) handleListFieldChange(index, 'overpayment_allowance_percent', v)
                 }}
-              >
-                <Delete fontSize="small" />
-              </IconButton>
+                size="small"
+                onClick={(e) => e.stopPropagation()}
+              />
+              <ErcScheduleField deal={deal} onChange={(erc) => handleErcChange(index, erc)} />
+              <Box sx={{ display: 'flex' }}>
+                <Tooltip title={formatFeeSummary(deal)} arrow>
+                  <IconButton
+                    size="small"
+                    color={dealHasFeeDetails(deal) || (deal.type ?? 'fixed') !== 'fixed' ? 'primary' : 'default'}
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      handleDetailsDialogOpen(index)
+                    }}
+                  >
+                    <Tune fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+                <IconButton
+                  size="small"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    handleDeleteDeal(index)
+                  }}
+                >
+                  <Delete fontSize="small" />
+                </IconButton>
+              </Box>
             </Box>
           )
         })}
@@ -528,6 +709,21 @@ export const DealTimeline: React.FC<DealTimelineProps> = ({
               fullWidth
               size="small"
             />
+            <NumericField
+              label="Overpayment Allowance (% of balance per year)"
+              value={newDealAllowance}
+              onChange={(v) => setNewDealAllowance(v === '' ? 0 : Math.min(100, v))}
+              fullWidth
+              size="small"
+            />
+            <NumericField
+              label="Early Repayment Charge (%)"
+              value={newDealErc}
+              onChange={(v) => setNewDealErc(v === '' ? 0 : Math.min(10, v))}
+              fullWidth
+              size="small"
+              helperText="Charged on overpayments above the allowance. Stepped charges can be entered in the list."
+            />
             {findFirstGap() && (
               <Typography variant="body2" color="text.secondary">
                 Will be placed at months {findFirstGap()!.start}–{findFirstGap()!.end}.
@@ -541,6 +737,97 @@ export const DealTimeline: React.FC<DealTimelineProps> = ({
           <Button onClick={handleAddDeal} variant="contained">Add</Button>
         </DialogActions>
       </Dialog>
+
+      {/* Deal Details Dialog */}
+      <Dialog open={detailsDialog !== null} onClose={() => setDetailsDialog(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>Deal Details</DialogTitle>
+        <DialogContent>
+          {detailsDialog && (
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+              <TextField
+                select
+                label="Deal Type"
+                value={detailsDialog.details.type ?? 'fixed'}
+                onChange={(e) => updateDetailsDraft({ type: e.target.value as Deal['type'] })}
+                fullWidth
+                size="small"
+              >
+                <MenuItem value="fixed">Fixed rate</MenuItem>
+                <MenuItem value="tracker">Tracker (base rate + margin)</MenuItem>
+                <MenuItem value="discount">Discount (SVR − discount)</MenuItem>
+              </TextField>
+              {detailsDialog.details.type === 'tracker' && (
+                <NumericField
+                  label="Margin over Base Rate (%)"
+                  value={detailsDialog.details.margin ?? ''}
+                  onChange={(v) => updateDetailsDraft({ margin: v === '' ? undefined : v })}
+                  fullWidth
+                  size="small"
+                />
+              )}
+              {detailsDialog.details.type === 'discount' && (
+                <NumericField
+                  label="Discount off SVR (%)"
+                  value={detailsDialog.details.discount ?? ''}
+                  onChange={(v) => updateDetailsDraft({ discount: v === '' ? undefined : v })}
+                  fullWidth
+                  size="small"
+                />
+              )}
+              {(detailsDialog.details.type === 'tracker' || detailsDialog.details.type === 'discount') && (
+                <NumericField
+                  label="Collar (%)"
+                  value={detailsDialog.details.collar ?? ''}
+                  onChange={(v) => updateDetailsDraft({ collar: v === '' ? undefined : v })}
+                  fullWidth
+                  size="small"
+                  helperText="Optional minimum rate, however low the base rate falls"
+                />
+              )}
+              <NumericField
+                label="Arrangement Fee (£)"
+                value={detailsDialog.details.arrangement_fee ?? ''}
+                onChange={(v) => updateDetailsDraft({ arrangement_fee: v === '' ? undefined : v })}
+                fullWidth
+                size="small"
+              />
+              <NumericField
+                label="Valuation Fee (£)"
+                value={detailsDialog.details.valuation_fee ?? ''}
+                onChange={(v) => updateDetailsDraft({ valuation_fee: v === '' ? undefined : v })}
+                fullWidth
+                size="small"
+              />
+              <NumericField
+                label="Cashback (£)"
+                value={detailsDialog.details.cashback ?? ''}
+                onChange={(v) => updateDetailsDraft({ cashback: v === '' ? undefined : v })}
+                fullWidth
+                size="small"
+                helperText="Paid into savings when the deal starts"
+              />
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={detailsDialog.details.fees_added_to_loan ?? false}
+                    onChange={(e) => updateDetailsDraft({ fees_added_to_loan: e.target.checked })}
+                  />
+                }
+                label="Add fees to the loan"
+              />
+              <Typography variant="body2" color="text.secondary">
+                {detailsDialog.details.fees_added_to_loan
+                  ? 'Fees are added to the mortgage balance when the deal starts and accrue interest.'
+                  : 'Fees are paid upfront from savings when the deal starts.'}
+              </Typography>
+            </Box>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDetailsDialog(null)}>Cancel</Button>
+          <Button onClick={handleDetailsDialogSave} variant="contained">Save</Button>
+        </DialogActions>
+      </Dialog>
     </Box>
   )
 }
@@ -0,0 +1,58 @@
+import React, { useState } from 'react'
+import { Button, CircularProgress, Snackbar, Alert } from '@mui/material'
+import { PictureAsPdf } from '@mui/icons-material'
+import { captureReportCharts, createPdfReport, reportFileName } from '../utils/pdfReport'
+import { downloadBlob } from '../utils/exportResults'
+import type { ExportSource } from '../utils/exportResults'
+
+interface DownloadReportButtonProps {
+  source: ExportSource | null
+  chartsRef: React.RefObject<HTMLElement | null> // Rendered MortgageCharts, whose charts go into the report
+  onDownload?: (size: number) => void
+  onError?: (error: unknown) => void
+}
+
+export const DownloadReportButton: React.FC<DownloadReportButtonProps> = ({ source, chartsRef, onDownload, onError }) => {
+  const [isGenerating, setIsGenerating] = useState(false)
+  const [errorOpen, setErrorOpen] = useState(false)
+
+  const handleClick = async () => {
+    if (!source) return
+    setIsGenerating(true)
+    try {
+      const blob = await createPdfReport(source, captureReportCharts(chartsRef.current))
+      downloadBlob(blob, reportFileName())
+      onDownload?.(blob.size)
+    } catch (error) {
+      console.error('Failed to generate report:', error)
+      onError?.(error)
+      setErrorOpen(true)
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  return (
+    <>
+      <Button
+        onClick={handleClick}
+        disabled={!source || isGenerating}
+        startIcon={isGenerating ? <CircularProgress size={16} /> : <PictureAsPdf />}
+        variant="outlined"
+        size="small"
+      >
+        Download Report
+      </Button>
+      <Snackbar
+        open={errorOpen}
+        autoHideDuration={4000}
+        onClose={() => setErrorOpen(false)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+      >
+        <Alert onClose={() => setErrorOpen(false)} severity="error" variant="filled" sx={{ width: '100%' }}>
+          The report could not be generated
+        </Alert>
+      </Snackbar>
+    </>
+  )
+}
@@ -0,0 +1,150 @@
+import React, { useRef, useState } from 'react'
+import {
+  Button,
+  Menu,
+  MenuItem,
+  ListItemIcon,
+  ListItemText,
+  Divider,
+  Snackbar,
+  Alert,
+} from '@mui/material'
+import { FileDownload, TableChart, GridOn, DataObject, FileUpload } from '@mui/icons-material'
+import { createExportBlob, downloadBlob, exportFileName, parseResultsBundle } from '../utils/exportResults'
+import type { ExportFormat, ExportSource, ImportedResults } from '../utils/exportResults'
+
+interface ExportMenuProps {
+  source: ExportSource | null
+  onExport?: (format: ExportFormat, size: number) => void
+  onExportError?: (format: ExportFormat, error: unknown) => void
+  // Restore a scenario from a JSON export; the import item is hidden without it
+  onImport?: (imported: ImportedResults) => void
+}
+
+const FORMATS: Array<{ format: ExportFormat; label: string; description: string; icon: React.ReactNode }> = [
+  { format: 'csv', label: 'CSV', description: 'Monthly breakdown', icon: <TableChart fontSize="small" /> },
+  { format: 'xlsx', label: 'Excel', description: 'Monthly, yearly summary and inputs', icon: <GridOn fontSize="small" /> },
+  { format: 'json', label: 'JSON', description: 'Re-importable scenario and results', icon: <DataObject fontSize="small" /> },
+]
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ source, onExport, onExportError, onImport }) => {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null)
+  const [snackbar, setSnackbar] = useState<{
+    open: boolean
+    message: string
+    severity: 'success' | 'warning' | 'error'
+  }>({
+    open: false,
+    message: '',
+    severity: 'success',
+  })
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const handleExport = (format: ExportFormat) => {
+    setAnchorEl(null)
+    if (!source) return
+    try {
+      const blob = createExportBlob(format, source)
+      downloadBlob(blob, exportFileName(format))
+      onExport?.(format, blob.size)
+    } catch (error) {
+      console.error(`Failed to export ${format}:`, error)
+      onExportError?.(format, error)
+      setSnackbar({ open: true, message: 'Export failed', severity: 'error' })
+    }
+  }
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    // Allow the same file to be picked again
+    event.target.value = ''
+    if (!file || !onImport) return
+    try {
+      const imported = parseResultsBundle(await file.text())
+      onImport(imported)
+      const { invalidFields } = imported
+      setSnackbar(
+        invalidFields.length > 0
+          ? {
+              open: true,
+              message: `Imported ${file.name}, but reset these to their defaults: ${invalidFields
+                .map((field) => field.replace(/_/g, ' '))
+                .join(', ')}`,
+              severity: 'warning',
+            }
+          : { open: true, message: `Imported ${file.name}`, severity: 'success' }
+      )
+    } catch (error) {
+      setSnackbar({
+        open: true,
+        message: error instanceof Error ? error.message : 'Import failed',
+        severity: 'error',
+      })
+    }
+  }
+
+  return (
+    <>
+      <Button
+        onClick={(event) => setAnchorEl(event.currentTarget)}
+        disabled={!source}
+        startIcon={<FileDownload />}
+        variant="outlined"
+        size="small"
+        aria-haspopup="menu"
+        sx={{
+          borderColor: 'primary.main',
+          color: 'primary.main',
+          '&:hover': {
+            backgroundColor: 'primary.50',
+            borderColor: 'primary.dark',
+          },
+        }}
+      >
+        Export
+      </Button>
+      <Menu anchorEl={anchorEl} open={Boolean(anchorEl)} onClose={() => setAnchorEl(null)}>
+        {FORMATS.map(({ format, label, description, icon }) => (
+          <MenuItem key={format} onClick={() => handleExport(format)}>
+            <ListItemIcon>{icon}</ListItemIcon>
+            <ListItemText primary={label} secondary={description} />
+          </MenuItem>
+        ))}
+        {onImport && <Divider />}
+        {onImport && (
+          <MenuItem
+            onClick={() => {
+              setAnchorEl(null)
+              fileInputRef.current?.click()
+            }}
+          >
+            <ListItemIcon>
+              <FileUpload fontSize="small" />
+            </ListItemIcon>
+            <ListItemText primary="Import JSON…" secondary="Restore an exported scenario" />
+          </MenuItem>
+        )}
+      </Menu>
+      {onImport && (
+        <input ref={fileInputRef} type="file" accept=".json,application/json" hidden onChange={handleFileChange} />
+      )}
+
+      <Snackbar
+        open={snackbar.open}
+        // Leave a warning up until it is dismissed
+        autoHideDuration={snackbar.severity === 'warning' ? null : 4000}
+        onClose={() => setSnackbar((prev) => ({ ...prev, open: false }))}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+      >
+        <Alert
+          onClose={() => setSnackbar((prev) => ({ ...prev, open: false }))}
+          severity={snackbar.severity}
+          variant="filled"
+          sx={{ width: '100%' }}
+        >
+          {snackbar.message}
+        </Alert>
+      </Snackbar>
+    </>
+  )
+}
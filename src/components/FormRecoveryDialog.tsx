@@ -0,0 +1,65 @@
+import React from 'react'
+import {
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Typography,
+  Box,
+} from '@mui/material'
+import { downloadBlob } from '../utils/exportResults'
+import type { FormRecovery } from '../utils/formStorage'
+
+interface FormRecoveryDialogProps {
+  recovery: FormRecovery | null
+  onKeep: () => void // Carry on with the values that could be restored
+  onReset: () => void // Start again from the defaults
+}
+
+// Offered when saved form values could only be partly restored, instead of dropping them silently
+export const FormRecoveryDialog: React.FC<FormRecoveryDialogProps> = ({ recovery, onKeep, onReset }) => {
+  const handleDownload = () => {
+    if (!recovery) return
+    const date = new Date(recovery.savedAt).toISOString().split('T')[0]
+    downloadBlob(new Blob([recovery.raw], { type: 'application/json' }), `mortgasim-saved-values-${date}.json`)
+  }
+
+  return (
+    <Dialog open={recovery !== null} onClose={onKeep} maxWidth="sm" fullWidth>
+      <DialogTitle>Your saved settings need attention</DialogTitle>
+      <DialogContent>
+        {recovery && recovery.invalidFields.length > 0 ? (
+          <>
+            <Typography variant="body2" sx={{ mb: 1 }}>
+              Some of your saved settings are no longer valid and have been reset to their defaults:
+            </Typography>
+            <Box component="ul" sx={{ m: 0, pl: 3, mb: 2 }}>
+              {recovery.invalidFields.map((field) => (
+                <Typography component="li" variant="body2" key={field}>
+                  {field.replace(/_/g, ' ')}
+                </Typography>
+              ))}
+            </Box>
+            <Typography variant="body2" color="text.secondary">
+              Everything else was restored. You can keep going with these values, start again from the
+              defaults, or download your original settings first.
+            </Typography>
+          </>
+        ) : (
+          <Typography variant="body2">
+            Your saved settings could not be read, so the defaults are shown. Download them to keep a copy
+            before continuing.
+          </Typography>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleDownload}>Download Original</Button>
+        <Button onClick={onReset}>Start from Defaults</Button>
+        <Button onClick={onKeep} variant="contained">
+          Continue
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
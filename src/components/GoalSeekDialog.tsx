@@ -0,0 +1,182 @@
+import React, { useState } from 'react'
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Typography,
+  TextField,
+  MenuItem,
+  CircularProgress,
+  Alert,
+} from '@mui/material'
+import NumericField from './NumericField'
+import { goalSeek, GOAL_SEEK_UNKNOWN_LABELS } from '../services/goalSeek'
+import type { GoalSeekUnknown, GoalSeekTarget, GoalSeekResult } from '../services/goalSeek'
+import { useOverpaymentStore } from '../store/overpaymentStore'
+import { dateToPeriodIndex } from '../utils/chartSetup'
+import type { MortgageFormData } from '../utils/validation'
+
+interface GoalSeekDialogProps {
+  open: boolean
+  onClose: () => void
+  formData: MortgageFormData
+  onApply: (formData: MortgageFormData) => void
+}
+
+type TargetType = GoalSeekTarget['type']
+
+const targetLabels: Record<TargetType, string> = {
+  payoff_age: 'Mortgage-free by age',
+  payoff_date: 'Mortgage-free by date',
+  net_worth: 'Final net worth of at least',
+}
+
+// Solves for one form value that hits a payoff or net worth target and applies it to the form
+export const GoalSeekDialog: React.FC<GoalSeekDialogProps> = ({ open, onClose, formData, onApply }) => {
+  const { chartOverpayments, overpaymentRules, toApiString, clearAll } = useOverpaymentStore()
+  const [unknown, setUnknown] = useState<GoalSeekUnknown>('monthly_overpayment')
+  const [targetType, setTargetType] = useState<TargetType>(formData.birth_year ? 'payoff_age' : 'payoff_date')
+  const [age, setAge] = useState<number | ''>(50)
+  const [targetDate, setTargetDate] = useState('')
+  const [netWorth, setNetWorth] = useState<number | ''>(1000000)
+  const [accountIndex, setAccountIndex] = useState(0)
+  const [result, setResult] = useState<GoalSeekResult | null>(null)
+  const [isSolving, setIsSolving] = useState(false)
+
+  const buildTarget = (): GoalSeekTarget | null => {
+    if (targetType === 'payoff_age') return age === '' ? null : { type: 'payoff_age', age }
+    if (targetType === 'net_worth') return netWorth === '' ? null : { type: 'net_worth', amount: netWorth }
+    if (!targetDate) return null
+    return { type: 'payoff_date', month: dateToPeriodIndex(new Date(`${targetDate}-01`), formData.start_date) }
+  }
+
+  const target = buildTarget()
+
+  const handleSolve = () => {
+    if (!target) return
+    setIsSolving(true)
+    // Bisection runs the simulation a few dozen times; yield first so the spinner renders
+    setTimeout(() => {
+      setResult(goalSeek(formData, { unknown, target, accountIndex, chartOverpayments: toApiString() }))
+      setIsSolving(false)
+    }, 0)
+  }
+
+  const handleApply = () => {
+    if (!result?.formData) return
+    // Chart overpayments and rules would replace the solved regular overpayment
+    if (unknown === 'monthly_overpayment') clearAll()
+    onApply(result.formData)
+    onClose()
+  }
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Goal Seek</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Find the value that hits your target, keeping everything else as it is.
+        </Typography>
+
+        <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 2, mb: 2 }}>
+          <TextField
+            select
+            size="small"
+            label="Solve for"
+            value={unknown}
+            onChange={(e) => {
+              setUnknown(e.target.value as GoalSeekUnknown)
+              setResult(null)
+            }}
+          >
+            {(Object.keys(GOAL_SEEK_UNKNOWN_LABELS) as GoalSeekUnknown[]).map((key) => (
+              <MenuItem key={key} value={key}>
+                {GOAL_SEEK_UNKNOWN_LABELS[key]}
+              </MenuItem>
+            ))}
+          </TextField>
+
+          {unknown === 'savings_contribution' ? (
+            <TextField
+              select
+              size="small"
+              label="Account"
+              value={accountIndex}
+              onChange={(e) => setAccountIndex(Number(e.target.value))}
+              disabled={formData.savings_accounts.length === 0}
+            >
+              {formData.savings_accounts.map((account, index) => (
+                <MenuItem key={index} value={index}>
+                  {account.name}
+                </MenuItem>
+              ))}
+            </TextField>
+          ) : (
+            <Box />
+          )}
+
+          <TextField
+            select
+            size="small"
+            label="Target"
+            value={targetType}
+            onChange={(e) => {
+              setTargetType(e.target.value as TargetType)
+              setResult(null)
+            }}
+          >
+            {(Object.keys(targetLabels) as TargetType[]).map((key) => (
+              <MenuItem key={key} value={key} disabled={key === 'payoff_age' && !formData.birth_year}>
+                {targetLabels[key]}
+              </MenuItem>
+            ))}
+          </TextField>
+
+          {targetType === 'payoff_age' && (
+            <NumericField value={age} onChange={setAge} label="Age" size="small" integer />
+          )}
+          {targetType === 'payoff_date' && (
+            <TextField
+              type="month"
+              size="small"
+              label="Date"
+              value={targetDate}
+              onChange={(e) => setTargetDate(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+            />
+          )}
+          {targetType === 'net_worth' && (
+            <NumericField value={netWorth} onChange={setNetWorth} label="Net Worth (£)" size="small" />
+          )}
+        </Box>
+
+        {!formData.birth_year && (
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+            Add a birth year to the form to target a payoff age.
+          </Typography>
+        )}
+        {unknown === 'monthly_overpayment' && chartOverpayments.length + overpaymentRules.length > 0 && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            Applying a monthly overpayment clears your chart overpayments and recurring rules, which would otherwise replace it.
+          </Alert>
+        )}
+
+        {result && (
+          <Alert severity={result.achievable ? 'success' : 'warning'}>{result.message}</Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleSolve} disabled={!target || isSolving}>
+          {isSolving ? <CircularProgress size={20} /> : 'Solve'}
+        </Button>
+        <Button onClick={onClose}>Close</Button>
+        <Button onClick={handleApply} variant="contained" disabled={!result?.achievable}>
+          Apply to Form
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
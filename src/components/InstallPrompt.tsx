@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react'
+import { track } from '@vercel/analytics'
+import { Snackbar, Alert, Button } from '@mui/material'
+import { InstallDesktop } from '@mui/icons-material'
+
+// Chromium's install event; not yet part of the DOM typings
+interface BeforeInstallPromptEvent extends Event {
+  prompt: () => Promise<void>
+  userChoice: Promise<{ outcome: 'accepted' | 'dismissed' }>
+}
+
+const DISMISSED_KEY = 'mortgasim-install-dismissed'
+// After "Not now", don't ask again for this long
+const DISMISS_DAYS = 30
+
+const wasRecentlyDismissed = (): boolean => {
+  try {
+    const dismissedAt = Number(localStorage.getItem(DISMISSED_KEY))
+    return dismissedAt > 0 && Date.now() - dismissedAt < DISMISS_DAYS * 24 * 60 * 60 * 1000
+  } catch {
+    return false
+  }
+}
+
+// Offers to install the app where the browser supports it, in place of the browser's own banner
+export const InstallPrompt: React.FC = () => {
+  const [installEvent, setInstallEvent] = useState<BeforeInstallPromptEvent | null>(null)
+
+  useEffect(() => {
+    const handleBeforeInstall = (event: Event) => {
+      event.preventDefault()
+      if (!wasRecentlyDismissed()) setInstallEvent(event as BeforeInstallPromptEvent)
+    }
+    const handleInstalled = () => setInstallEvent(null)
+    window.addEventListener('beforeinstallprompt', handleBeforeInstall)
+    window.addEventListener('appinstalled', handleInstalled)
+    return () => {
+      window.removeEventListener('beforeinstallprompt', handleBeforeInstall)
+      window.removeEventListener('appinstalled', handleInstalled)
+    }
+  }, [])
+
+  const handleInstall = async () => {
+    if (!installEvent) return
+    setInstallEvent(null)
+    await installEvent.prompt()
+    const { outcome } = await installEvent.userChoice
+    track('app_install_prompt', { outcome })
+  }
+
+  const handleDismiss = () => {
+    setInstallEvent(null)
+    try {
+      localStorage.setItem(DISMISSED_KEY, String(Date.now()))
+    } catch {
+      // Asked again next visit
+    }
+    track('app_install_prompt', { outcome: 'not_now' })
+  }
+
+  return (
+    <Snackbar open={installEvent !== null} anchorOrigin={{ vertical: 'bottom', horizontal: 'left' }}>
+      <Alert
+        icon={<InstallDesktop />}
+        severity="info"
+        variant="filled"
+        action={
+          <>
+            <Button color="inherit" size="small" onClick={handleDismiss}>
+              Not now
+            </Button>
+            <Button color="inherit" size="small" variant="outlined" onClick={handleInstall}>
+              Install
+            </Button>
+          </>
+        }
+        sx={{ alignItems: 'center' }}
+      >
+        Install MortgaSim to use it offline and open it from your home screen or desktop.
+      </Alert>
+    </Snackbar>
+  )
+}
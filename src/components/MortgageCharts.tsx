@@ -8,18 +8,43 @@ import {
   Chip,
   Alert,
   Slider,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
 } from '@mui/material'
 import { DataGrid } from '@mui/x-data-grid'
 import type { GridColDef } from '@mui/x-data-grid'
-import { InfoOutlined } from '@mui/icons-material'
-import type { ChartData, SummaryStatistics } from '../types/mortgage'
+import { InfoOutlined, CloudOff, Cloud, Computer } from '@mui/icons-material'
+import type { ChartData, DealCost, SummaryStatistics } from '../types/mortgage'
+import type { MonteCarloResult, PercentileBands } from '../services/monteCarlo'
+import type { SimulationEngine } from '../services/simulationTransport'
 
 // Import Chart.js setup (registers components)
 import '../utils/chartSetup'
-import { getAccountColor, yearsToDate, formatDateLabel } from '../utils/chartSetup'
+import { getAccountColor, getScenarioColor, yearsToDate, formatDateLabel } from '../utils/chartSetup'
 
 // Import Chart.js components
-import { InteractiveBalanceChart, NetWorthChart, PaymentScheduleChart, LTVChart, PerAccountSavingsChart, MonthlySavingsChart } from './charts'
+import { InteractiveBalanceChart, NetWorthChart, PaymentScheduleChart, LTVChart, PerAccountSavingsChart, MonthlySavingsChart, ScenarioComparisonChart, OffsetComparisonChart } from './charts'
+import type { ScenarioSeries, ComparisonMetric } from './charts'
+import { OverpaymentRulesPanel } from './OverpaymentRulesPanel'
+import { getFinancialPositionRows } from '../utils/financialPosition'
+
+// Where the results were calculated, shown next to the summary
+const engineLabels: Record<SimulationEngine, { label: string; description: string }> = {
+  api: { label: 'Simulation API', description: 'Calculated by the simulation API.' },
+  local: {
+    label: 'In-browser engine',
+    description:
+      'Calculated in your browser by the built-in engine, which also models offset, interest-only and part-and-part mortgages, tracker and discount deals, early repayment charges and fees.',
+  },
+}
+
+// Series selectable on the scenario comparison chart
+const comparisonMetricLabels: Record<ComparisonMetric, string> = {
+  mortgage_balance: 'Mortgage Balance',
+  savings_balance: 'Savings Balance',
+  net_worth: 'Net Worth',
+}
 
 interface MortgageChartsProps {
   chartData: ChartData
@@ -30,6 +55,12 @@ interface MortgageChartsProps {
   notes?: string[] // Notes/warnings to display under summary
   isLoading?: boolean
   isRecalculating?: boolean // Show subtle indicator when recalculating due to overpayment changes
+  staleSince?: number | null // Set when showing saved results that may not match the inputs, e.g. offline
+  engine?: SimulationEngine // Engine that produced the results, when known
+  comparisons?: ScenarioSeries[] // Two to four saved scenarios to overlay
+  monteCarlo?: MonteCarloResult | null // Percentile bands from the stochastic mode
+  isMonteCarloLoading?: boolean
+  onUndo?: () => void // Offered after an overpayment is deleted from the chart
 }
 
 export const MortgageCharts: React.FC<MortgageChartsProps> = ({
@@ -41,6 +72,12 @@ export const MortgageCharts: React.FC<MortgageChartsProps> = ({
   notes,
   isLoading = false,
   isRecalculating = false,
+  staleSince = null,
+  engine,
+  comparisons,
+  monteCarlo,
+  isMonteCarloLoading = false,
+  onUndo,
 }) => {
   // Format currency for display
   const formatCurrency = (value: number) => {
@@ -62,6 +99,9 @@ export const MortgageCharts: React.FC<MortgageChartsProps> = ({
     }
   }, [chartData?.accounts])
 
+  // Series shown on the scenario comparison chart
+  const [comparisonMetric, setComparisonMetric] = useState<ComparisonMetric>('net_worth')
+
   // Timeline slider state: null means end of timeline (default)
   const [selectedIndex, setSelectedIndex] = useState<number | null>(null)
 
@@ -142,6 +182,146 @@ export const MortgageCharts: React.FC<MortgageChartsProps> = ({
     )
   }
 
+  // Summary differences between compared scenarios, relative to the first one
+  const comparisonTable = useMemo(() => {
+    if (!comparisons || comparisons.length < 2) {
+      return null
+    }
+
+    const formatDelta = (diff: number, format: (value: number) => string) => {
+      if (Math.abs(diff) < 0.5) return '±0'
+      return `${diff > 0 ? '+' : '-'}${format(Math.abs(diff))}`
+    }
+
+    const currencyMetrics: Array<{ label: string; value: (s: ScenarioSeries) => number }> = [
+      { label: 'Final Net Worth', value: (s) => s.summaryStats.final_net_worth },
+      { label: 'Final Savings Balance', value: (s) => s.summaryStats.final_savings_balance },
+      { label: 'Final Mortgage Balance', value: (s) => s.summaryStats.final_mortgage_balance },
+      { label: 'Minimum Savings', value: (s) => s.summaryStats.min_savings_balance },
+      { label: 'Fixed Term End Balance', value: (s) => s.summaryStats.fixed_term_end_balance ?? 0 },
+      { label: 'Early Repayment Charges', value: (s) => s.summaryStats.total_early_repayment_charges ?? 0 },
+      { label: 'Total Interest Paid', value: (s) => s.chartData.interest_paid.reduce((sum, v) => sum + v, 0) },
+    ]
+
+    const base = comparisons[0]
+    const rows: Array<Record<string, string | number>> = currencyMetrics.map((metric, rowIndex) => {
+      const row: Record<string, string | number> = { id: rowIndex, metric: metric.label }
+      comparisons.forEach((scenario, index) => {
+        const value = metric.value(scenario)
+        row[`scenario_${index}`] =
+          index === 0
+            ? formatCurrency(value)
+            : `${formatCurrency(value)} (${formatDelta(value - metric.value(base), formatCurrency)})`
+      })
+      return row
+    })
+
+    // Payoff month compares in months rather than pounds
+    const payoffRow: Record<string, string | number> = { id: rows.length, metric: 'Mortgage Paid Off' }
+    const basePayoff = base.summaryStats.mortgage_paid_off_month
+    comparisons.forEach((scenario, index) => {
+      const payoff = scenario.summaryStats.mortgage_paid_off_month
+      if (payoff == null) {
+        payoffRow[`scenario_${index}`] = 'Not paid off'
+      } else if (index === 0 || basePayoff == null) {
+        payoffRow[`scenario_${index}`] = `Month ${payoff}`
+      } else {
+        payoffRow[`scenario_${index}`] = `Month ${payoff} (${formatDelta(payoff - basePayoff, (v) => `${v} mo`)})`
+      }
+    })
+    rows.push(payoffRow)
+
+    const columns: GridColDef[] = [
+      { field: 'metric', headerName: 'Metric', width: 180 },
+      ...comparisons.map((scenario, index) => ({
+        field: `scenario_${index}`,
+        headerName: scenario.name,
+        flex: 1,
+        minWidth: 180,
+        align: 'right' as const,
+        headerAlign: 'center' as const,
+      })),
+    ]
+
+    return { rows, columns }
+  }, [comparisons])
+
+  // Chart series sampled to at most 500 points
+  const processedData = useMemo(() => {
+    if (!chartData || chartData.years.length === 0) {
+      return {
+        years: [],
+        mortgageBalance: [],
+        savingsBalance: [],
+        netWorth: [],
+        monthlyPayments: [],
+        monthlySavings: [],
+        ltv: [],
+        nonOffsetMortgageBalance: [],
+        nonOffsetNetWorth: [],
+        mortgageRate: [],
+        baseRate: [],
+        netWorthBands: undefined,
+        maxPeriod: 0,
+      }
+    }
+
+    // Use all data points for monthly granularity (up to 500 points)
+    // For very long simulations, sample to maintain performance
+    const maxPoints = 500
+    const totalPoints = chartData.years.length
+    const step = totalPoints > maxPoints ? Math.ceil(totalPoints / maxPoints) : 1
+
+    const sampledIndices: number[] = []
+    for (let i = 0; i < totalPoints; i += step) {
+      sampledIndices.push(i)
+    }
+
+    // Always include the last point
+    if (sampledIndices[sampledIndices.length - 1] !== totalPoints - 1) {
+      sampledIndices.push(totalPoints - 1)
+    }
+
+    const mortgageBalances = sampledIndices.map((i) => chartData.mortgage_balance[i])
+    const netWorthBands: PercentileBands | undefined = monteCarlo
+      ? {
+          p10: sampledIndices.map((i) => monteCarlo.netWorth.p10[i]),
+          p50: sampledIndices.map((i) => monteCarlo.netWorth.p50[i]),
+          p90: sampledIndices.map((i) => monteCarlo.netWorth.p90[i]),
+        }
+      : undefined
+
+    return {
+      years: sampledIndices.map((i) => chartData.years[i]),
+      mortgageBalance: mortgageBalances,
+      savingsBalance: sampledIndices.map((i) => chartData.savings_balance[i]),
+      netWorth: sampledIndices.map((i) => chartData.net_worth[i]),
+      monthlyPayments: sampledIndices.map((i) => chartData.monthly_payments[i]),
+      monthlySavings: sampledIndices.map((i) => chartData.monthly_savings_data[i]),
+      ltv: mortgageBalances.map((balance) => assetValue > 0 ? (balance / assetValue) * 100 : 0),
+      nonOffsetMortgageBalance: chartData.non_offset_mortgage_balance
+        ? sampledIndices.map((i) => chartData.non_offset_mortgage_balance![i])
+        : [],
+      nonOffsetNetWorth: chartData.non_offset_net_worth
+        ? sampledIndices.map((i) => chartData.non_offset_net_worth![i])
+        : [],
+      mortgageRate: chartData.annual_mortgage_rate
+        ? sampledIndices.map((i) => chartData.annual_mortgage_rate![i])
+        : [],
+      baseRate: chartData.base_rate
+        ? sampledIndices.map((i) => chartData.base_rate![i])
+        : [],
+      netWorthBands,
+      maxPeriod: Math.round(chartData.years[chartData.years.length - 1] * 12),
+    }
+  }, [chartData, assetValue, monteCarlo])
+
+  // Create summary table data for specific years
+  const summaryTableData = useMemo(
+    () => getFinancialPositionRows(chartData, startDate, [1, 2, 3, 4, 5, 10], birthYear),
+    [chartData, startDate, birthYear]
+  )
+
   if (isLoading) {
     return (
       <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
@@ -159,57 +339,6 @@ export const MortgageCharts: React.FC<MortgageChartsProps> = ({
     )
   }
 
-  // Create summary table data for specific years
-  const summaryTableData = useMemo(() => {
-    if (!chartData || chartData.years.length === 0) {
-      return []
-    }
-
-    const targetYears = [1, 2, 3, 4, 5, 10]
-    const tableRows: Array<{
-      id: number
-      year: number
-      date: string
-      mortgageBalance: number
-      savingsBalance: number
-      netWorth: number
-      monthlyPayment: number
-    }> = []
-
-    targetYears.forEach((targetYear, index) => {
-      // Find the closest data point to the target year
-      let closestIndex = 0
-      let minDiff = Math.abs(chartData.years[0] - targetYear)
-
-      for (let i = 1; i < chartData.years.length; i++) {
-        const diff = Math.abs(chartData.years[i] - targetYear)
-        if (diff < minDiff) {
-          minDiff = diff
-          closestIndex = i
-        }
-      }
-
-      // Only include if we have data reasonably close to the target year (within 6 months)
-      if (minDiff <= 0.5) {
-        const baseDate = new Date(startDate)
-        const targetDate = new Date(baseDate)
-        targetDate.setMonth(targetDate.getMonth() + Math.round(targetYear * 12))
-
-        tableRows.push({
-          id: index + 1,
-          year: targetYear,
-          date: targetDate.toLocaleDateString('en-GB', { month: 'short', year: 'numeric' }),
-          mortgageBalance: chartData.mortgage_balance[closestIndex],
-          savingsBalance: chartData.savings_balance[closestIndex],
-          netWorth: chartData.net_worth[closestIndex],
-          monthlyPayment: chartData.monthly_payments[closestIndex],
-        })
-      }
-    })
-
-    return tableRows
-  }, [chartData, startDate])
-
   // Define columns for the summary table
   const summaryTableColumns: GridColDef[] = [
     {
@@ -226,6 +355,9 @@ export const MortgageCharts: React.FC<MortgageChartsProps> = ({
       align: 'center',
       headerAlign: 'center',
     },
+    ...(birthYear
+      ? [{ field: 'age', headerName: 'Age', width: 70, align: 'center', headerAlign: 'center' } as GridColDef]
+      : []),
     {
       field: 'mortgageBalance',
       headerName: 'Mortgage Balance',
@@ -260,50 +392,73 @@ export const MortgageCharts: React.FC<MortgageChartsProps> = ({
     },
   ]
 
-  // Process data for charts with sampling for performance
-  const processedData = useMemo(() => {
-    if (!chartData || chartData.years.length === 0) {
-      return {
-        years: [],
-        mortgageBalance: [],
-        savingsBalance: [],
-        netWorth: [],
-        monthlyPayments: [],
-        monthlySavings: [],
-        ltv: [],
-        maxPeriod: 0,
-      }
-    }
+  // Interest-only capital due at term end, marked on the balance chart
+  const termEndShortfall =
+    summaryStats.term_end_shortfall != null && summaryStats.term_end_shortfall_month != null
+      ? {
+          month: summaryStats.term_end_shortfall_month,
+          amount: summaryStats.term_end_shortfall,
+          covered: summaryStats.term_end_shortfall_covered ?? false,
+        }
+      : undefined
 
-    // Use all data points for monthly granularity (up to 500 points)
-    // For very long simulations, sample to maintain performance
-    const maxPoints = 500
-    const totalPoints = chartData.years.length
-    const step = totalPoints > maxPoints ? Math.ceil(totalPoints / maxPoints) : 1
+  // Monte Carlo account bands keyed by name; the chart samples them itself
+  const accountBands = monteCarlo
+    ? Object.fromEntries(monteCarlo.accounts.map((account) => [account.name, account.balance]))
+    : undefined
 
-    const sampledIndices: number[] = []
-    for (let i = 0; i < totalPoints; i += step) {
-      sampledIndices.push(i)
-    }
+  // Per-deal effective cost, ranked by cost per month so deals of different lengths compare fairly
+  const dealCosts = summaryStats.deal_costs ?? []
+  const costPerMonth = (cost: DealCost) =>
+    cost.end_month > cost.start_month ? cost.total_cost / (cost.end_month - cost.start_month) : 0
+  const rankedDealIndices = [...dealCosts]
+    .sort((a, b) => costPerMonth(a) - costPerMonth(b))
+    .map((cost) => cost.deal_index)
+  const dealCostRows = dealCosts.map((cost) => ({
+    id: cost.deal_index,
+    rank: rankedDealIndices.indexOf(cost.deal_index) + 1,
+    deal: `Deal ${cost.deal_index + 1}`,
+    rate: cost.rate,
+    type: cost.type ?? 'fixed',
+    months: `${cost.start_month}–${cost.end_month}`,
+    interestPaid: cost.interest_paid,
+    fees: cost.fees,
+    cashback: cost.cashback,
+    earlyRepaymentCharges: cost.early_repayment_charges,
+    totalCost: cost.total_cost,
+    costPerMonth: costPerMonth(cost),
+  }))
 
-    // Always include the last point
-    if (sampledIndices[sampledIndices.length - 1] !== totalPoints - 1) {
-      sampledIndices.push(totalPoints - 1)
-    }
+  const currencyColumn = (field: string, headerName: string): GridColDef => ({
+    field,
+    headerName,
+    width: 120,
+    align: 'right',
+    headerAlign: 'center',
+    valueFormatter: (value: number) => formatCurrency(value),
+  })
 
-    const mortgageBalances = sampledIndices.map((i) => chartData.mortgage_balance[i])
-
-    return {
-      years: sampledIndices.map((i) => chartData.years[i]),
-      mortgageBalance: mortgageBalances,
-      savingsBalance: sampledIndices.map((i) => chartData.savings_balance[i]),
-      netWorth: sampledIndices.map((i) => chartData.net_worth[i]),
-      monthlyPayments: sampledIndices.map((i) => chartData.monthly_payments[i]),
-      monthlySavings: sampledIndices.map((i) => chartData.monthly_savings_data[i]),
-      ltv: mortgageBalances.map((balance) => assetValue > 0 ? (balance / assetValue) * 100 : 0),
-      maxPeriod: Math.round(chartData.years[chartData.years.length - 1] * 12),
-    }
-  }, [chartData, assetValue])
+  const dealCostColumns: GridColDef[] = [
+    { field: 'rank', headerName: 'Rank', width: 70, align: 'center', headerAlign: 'center' },
+    { field: 'deal', headerName: 'Deal', width: 90 },
+    {
+      field: 'rate',
+      headerName: 'Initial Rate',
+      width: 130,
+      align: 'right',
+      headerAlign: 'center',
+      // Tracker and discount rates move with the base rate or SVR; show which
+      valueFormatter: (value: number, row: { type: string }) =>
+        row.type === 'fixed' ? `${value}%` : `${value}% (${row.type})`,
+    },
+    { field: 'months', headerName: 'Months', width: 90, align: 'center', headerAlign: 'center' },
+    currencyColumn('interestPaid', 'Interest'),
+    currencyColumn('fees', 'Fees'),
+    currencyColumn('cashback', 'Cashback'),
+    currencyColumn('earlyRepaymentCharges', 'ERCs'),
+    currencyColumn('totalCost', 'Total Cost'),
+    currencyColumn('costPerMonth', 'Cost / Month'),
+  ]
 
   if (processedData.years.length === 0) {
     return (
@@ -350,9 +505,29 @@ export const MortgageCharts: React.FC<MortgageChartsProps> = ({
       {/* Summary Statistics */}
       <Card elevation={3}>
         <CardContent>
-          <Typography variant="h6" gutterBottom sx={{ mb: 2 }}>
-            Summary Statistics
-          </Typography>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+            <Typography variant="h6">Summary Statistics</Typography>
+            {staleSince !== null && (
+              <Tooltip
+                title={`Saved results from ${new Date(staleSince).toLocaleString('en-GB', {
+                  dateStyle: 'medium',
+                  timeStyle: 'short',
+                })}. They may not reflect your latest changes and will update when you're back online.`}
+              >
+                <Chip icon={<CloudOff />} label="Stale" size="small" color="warning" variant="outlined" />
+              </Tooltip>
+            )}
+            {engine && (
+              <Tooltip title={engineLabels[engine].description}>
+                <Chip
+                  icon={engine === 'local' ? <Computer /> : <Cloud />}
+                  label={engineLabels[engine].label}
+                  size="small"
+                  variant="outlined"
+                />
+              </Tooltip>
+            )}
+          </Box>
 
           {/* Timeline Slider */}
           {sliderStats && chartData.years.length > 1 && (
@@ -452,6 +627,30 @@ export const MortgageCharts: React.FC<MortgageChartsProps> = ({
                   />
                 </Box>
               )}
+              {summaryStats.term_end_shortfall != null && (
+                <Box sx={{ mt: 1, textAlign: 'center' }}>
+                  <Chip
+                    label={
+                      summaryStats.term_end_shortfall_covered
+                        ? `Interest-only capital of ${formatCurrency(summaryStats.term_end_shortfall)} cleared from savings at term end`
+                        : `Shortfall: savings cannot clear ${formatCurrency(summaryStats.term_end_shortfall)} due at term end`
+                    }
+                    color={summaryStats.term_end_shortfall_covered ? 'success' : 'error'}
+                    variant="outlined"
+                    sx={{ fontSize: '0.875rem' }}
+                  />
+                </Box>
+              )}
+              {(summaryStats.total_early_repayment_charges ?? 0) > 0 && (
+                <Box sx={{ mt: 1, textAlign: 'center' }}>
+                  <Chip
+                    label={`Early repayment charges: ${formatCurrency(summaryStats.total_early_repayment_charges ?? 0)}`}
+                    color="warning"
+                    variant="outlined"
+                    sx={{ fontSize: '0.875rem' }}
+                  />
+                </Box>
+              )}
 
               {/* Per-account breakdown */}
               {sliderStats.accountStats.length > 1 && (
@@ -522,13 +721,76 @@ export const MortgageCharts: React.FC<MortgageChartsProps> = ({
         </CardContent>
       </Card>
 
+      {/* Scenario Comparison */}
+      {comparisons && comparisons.length >= 2 && comparisonTable && (
+        <Card elevation={3}>
+          <CardContent>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+              <Typography variant="h6">
+                Scenario Comparison
+              </Typography>
+              <ToggleButtonGroup
+                value={comparisonMetric}
+                exclusive
+                size="small"
+                onChange={(_e, value: ComparisonMetric | null) => {
+                  if (value) setComparisonMetric(value)
+                }}
+              >
+                {(Object.keys(comparisonMetricLabels) as ComparisonMetric[]).map((metric) => (
+                  <ToggleButton key={metric} value={metric}>
+                    {comparisonMetricLabels[metric]}
+                  </ToggleButton>
+                ))}
+              </ToggleButtonGroup>
+            </Box>
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+              {comparisons.map((scenario, index) => (
+                <Chip
+                  key={scenario.id}
+                  label={scenario.name}
+                  size="small"
+                  sx={{ backgroundColor: getScenarioColor(index), color: 'white' }}
+                />
+              ))}
+            </Box>
+            <Box sx={{ height: 350, mb: 3 }}>
+              <ScenarioComparisonChart scenarios={comparisons} metric={comparisonMetric} />
+            </Box>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+              Differences are shown relative to {comparisons[0].name}
+            </Typography>
+            <DataGrid
+              rows={comparisonTable.rows}
+              columns={comparisonTable.columns}
+              hideFooter
+              autoHeight
+              disableRowSelectionOnClick
+              disableColumnMenu
+              sx={{
+                border: 'none',
+                '& .MuiDataGrid-cell': {
+                  borderBottom: '1px solid #f0f0f0',
+                },
+                '& .MuiDataGrid-columnHeaders': {
+                  backgroundColor: '#f8f9fa',
+                  borderBottom: '2px solid #e0e0e0',
+                  fontWeight: 600,
+                },
+              }}
+            />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Interactive Balances Chart */}
       <Card elevation={3}>
         <CardContent>
           <Typography variant="h6" gutterBottom sx={{ mb: 2 }}>
             Mortgage vs Savings Balance Over Time
           </Typography>
-          <Box sx={{ height: 350 }}>
+          {/* Charts marked with data-report-chart are captured into the PDF report */}
+          <Box sx={{ height: 350 }} data-report-chart="Mortgage vs Savings Balance Over Time">
             <InteractiveBalanceChart
               years={processedData.years}
               mortgageBalance={processedData.mortgageBalance}
@@ -536,23 +798,84 @@ export const MortgageCharts: React.FC<MortgageChartsProps> = ({
               startDate={startDate}
               birthYear={birthYear}
               maxPeriod={processedData.maxPeriod}
+              termEndShortfall={termEndShortfall}
+              onUndo={onUndo}
             />
           </Box>
+          <OverpaymentRulesPanel startDate={startDate} maxPeriod={processedData.maxPeriod} />
         </CardContent>
       </Card>
 
+      {/* Offset vs Non-Offset Chart */}
+      {processedData.nonOffsetMortgageBalance.length > 0 && (
+        <Card elevation={3}>
+          <CardContent>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+              <Typography variant="h6">
+                Offset vs Standard Mortgage
+              </Typography>
+              {summaryStats.total_offset_interest_saved != null && (
+                <Chip
+                  label={`Interest saved: ${formatCurrency(summaryStats.total_offset_interest_saved)}`}
+                  color="success"
+                  variant="outlined"
+                />
+              )}
+            </Box>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Offset savings earn no interest but reduce the balance mortgage interest is charged on.
+              Dashed lines show the same scenario with the offset switched off.
+            </Typography>
+            <Box sx={{ height: 350 }} data-report-chart="Offset vs Standard Mortgage">
+              <OffsetComparisonChart
+                years={processedData.years}
+                mortgageBalance={processedData.mortgageBalance}
+                nonOffsetMortgageBalance={processedData.nonOffsetMortgageBalance}
+                netWorth={processedData.netWorth}
+                nonOffsetNetWorth={processedData.nonOffsetNetWorth}
+                startDate={startDate}
+              />
+            </Box>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Net Worth Chart */}
       <Card elevation={3}>
         <CardContent>
-          <Typography variant="h6" gutterBottom sx={{ mb: 2 }}>
-            Net Worth Evolution
-          </Typography>
-          <Box sx={{ height: 350 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+            <Typography variant="h6">
+              Net Worth Evolution
+            </Typography>
+            {isMonteCarloLoading && (
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                <CircularProgress size={16} />
+                <Typography variant="caption" color="text.secondary">
+                  Running Monte Carlo...
+                </Typography>
+              </Box>
+            )}
+            {monteCarlo && !isMonteCarloLoading && (
+              <Chip
+                label={`${(monteCarlo.probabilitySavingsNegative * 100).toFixed(1)}% chance savings go below zero (${monteCarlo.runs} runs)`}
+                color={monteCarlo.probabilitySavingsNegative > 0.1 ? 'error' : monteCarlo.probabilitySavingsNegative > 0 ? 'warning' : 'success'}
+                variant="outlined"
+                size="small"
+              />
+            )}
+          </Box>
+          {monteCarlo && (
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+              Shaded band: 10th to 90th percentile across random return and rate paths; dashed line: median.
+            </Typography>
+          )}
+          <Box sx={{ height: 350 }} data-report-chart="Net Worth Evolution">
             <NetWorthChart
               years={processedData.years}
               netWorth={processedData.netWorth}
               startDate={startDate}
               birthYear={birthYear}
+              bands={processedData.netWorthBands}
             />
           </Box>
         </CardContent>
@@ -587,13 +910,14 @@ export const MortgageCharts: React.FC<MortgageChartsProps> = ({
                 />
               ))}
             </Box>
-            <Box sx={{ height: 350 }}>
+            <Box sx={{ height: 350 }} data-report-chart="Savings by Account">
               <PerAccountSavingsChart
                 years={processedData.years}
                 accounts={chartData.accounts}
                 selectedAccounts={selectedAccounts}
                 startDate={startDate}
                 birthYear={birthYear}
+                bands={accountBands}
               />
             </Box>
           </CardContent>
@@ -606,7 +930,7 @@ export const MortgageCharts: React.FC<MortgageChartsProps> = ({
           <Typography variant="h6" gutterBottom sx={{ mb: 2 }}>
             Loan-to-Value (LTV) Ratio
           </Typography>
-          <Box sx={{ height: 350 }}>
+          <Box sx={{ height: 350 }} data-report-chart="Loan-to-Value (LTV) Ratio">
             <LTVChart
               years={processedData.years}
               ltvValues={processedData.ltv}
@@ -623,10 +947,12 @@ export const MortgageCharts: React.FC<MortgageChartsProps> = ({
           <Typography variant="h6" gutterBottom sx={{ mb: 2 }}>
             Monthly Payment Schedule
           </Typography>
-          <Box sx={{ height: 350 }}>
+          <Box sx={{ height: 350 }} data-report-chart="Monthly Payment Schedule">
             <PaymentScheduleChart
               years={processedData.years}
               monthlyPayments={processedData.monthlyPayments}
+              mortgageRate={processedData.mortgageRate}
+              baseRate={processedData.baseRate}
               startDate={startDate}
               birthYear={birthYear}
             />
@@ -651,6 +977,39 @@ export const MortgageCharts: React.FC<MortgageChartsProps> = ({
         </CardContent>
       </Card>
 
+      {/* Deal Costs Table */}
+      {dealCostRows.length > 0 && (
+        <Card elevation={3}>
+          <CardContent>
+            <Typography variant="h6" gutterBottom sx={{ mb: 2 }}>
+              Total Cost of Each Deal
+            </Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Interest, fees and early repayment charges less cashback over each deal period, ranked by cost per month
+            </Typography>
+            <DataGrid
+              rows={dealCostRows}
+              columns={dealCostColumns}
+              hideFooter
+              autoHeight
+              disableRowSelectionOnClick
+              disableColumnMenu
+              sx={{
+                border: 'none',
+                '& .MuiDataGrid-cell': {
+                  borderBottom: '1px solid #f0f0f0',
+                },
+                '& .MuiDataGrid-columnHeaders': {
+                  backgroundColor: '#f8f9fa',
+                  borderBottom: '2px solid #e0e0e0',
+                  fontWeight: 600,
+                },
+              }}
+            />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Financial Position at Key Years Table */}
       {summaryTableData.length > 0 && (
         <Card elevation={3}>
@@ -14,6 +14,9 @@ import {
   IconButton,
   Tooltip,
   Checkbox,
+  Switch,
+  FormControlLabel,
+  MenuItem,
 } from '@mui/material'
 import {
   Calculate,
@@ -24,48 +27,39 @@ import {
   Share,
   Add,
   Delete,
+  FileUpload,
 } from '@mui/icons-material'
 import {
   mortgageFormSchema,
   defaultFormValues
 } from '../utils/validation'
+import { loadFormData, saveFormData } from '../utils/formStorage'
 import { generateShareableLink, copyToClipboard } from '../utils/urlParser'
+import { useOverpaymentStoreApi } from '../store/overpaymentStore'
 import type { MortgageFormData } from '../utils/validation'
+import type { SimulationRequest } from '../types/mortgage'
 import { DealTimeline } from './DealTimeline'
+import { BaseRateCurveEditor } from './BaseRateCurveEditor'
+import { StressTestPanel } from './StressTestPanel'
 import NumericField from './NumericField'
 
-const STORAGE_KEY = 'mortgasim-form-values'
-
 interface MortgageFormProps {
   onSubmit: (data: MortgageFormData) => void
   initialValues?: Partial<MortgageFormData>
-}
-
-// Load saved values from localStorage
-const loadSavedValues = (): Partial<MortgageFormData> | null => {
-  try {
-    const saved = localStorage.getItem(STORAGE_KEY)
-    return saved ? JSON.parse(saved) : null
-  } catch {
-    return null
-  }
-}
-
-// Save values to localStorage
-const saveValues = (values: MortgageFormData) => {
-  try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(values))
-  } catch (error) {
-    console.warn('Failed to save form values:', error)
-  }
+  stressTestRequest?: SimulationRequest | null // Current request for the rate stress test; omit to hide the panel
+  onFileDrop?: (file: File) => void // Scenario file dropped onto the form; drops are ignored without it
+  persist?: boolean // Save edits as the visitor's own form and sync them to other tabs (main simulator only)
 }
 
 export const MortgageForm: React.FC<MortgageFormProps> = ({
   onSubmit,
   initialValues,
+  stressTestRequest,
+  onFileDrop,
+  persist = false,
 }) => {
   // Priority: URL params > localStorage > defaults
-  const savedValues = loadSavedValues()
+  const [savedValues] = useState(loadFormData)
   const formValues = initialValues || savedValues || defaultFormValues
 
   const [shareSnackbar, setShareSnackbar] = useState<{ open: boolean; message: string; severity: 'success' | 'error' }>({
@@ -74,6 +68,11 @@ export const MortgageForm: React.FC<MortgageFormProps> = ({
     severity: 'success'
   })
 
+  // Highlights the form while a scenario file is dragged over it
+  const [isFileOver, setIsFileOver] = useState(false)
+  // Share links carry the overpayments on screen, which may be a shared page's own
+  const overpaymentStore = useOverpaymentStoreApi()
+
   // Debounce timer ref
   const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null)
   const lastSubmittedRef = useRef<string>('')
@@ -128,11 +127,11 @@ export const MortgageForm: React.FC<MortgageFormProps> = ({
       // Only submit if values actually changed
       if (valueString !== lastSubmittedRef.current) {
         lastSubmittedRef.current = valueString
-        saveValues(data)
+        if (persist) saveFormData(data)
         onSubmit(data)
       }
     }, 500)
-  }, [onSubmit])
+  }, [onSubmit, persist])
 
   // Auto-submit when form values change
   useEffect(() => {
@@ -140,7 +139,7 @@ export const MortgageForm: React.FC<MortgageFormProps> = ({
     if (isInitialMount.current) {
       isInitialMount.current = false
       // Save initial values to localStorage
-      saveValues(currentValues as MortgageFormData)
+      if (persist) saveFormData(currentValues as MortgageFormData, { broadcast: false })
       return
     }
 
@@ -153,11 +152,13 @@ export const MortgageForm: React.FC<MortgageFormProps> = ({
         clearTimeout(debounceRef.current)
       }
     }
-  }, [currentValues, isValid, debouncedSubmit])
+  }, [currentValues, isValid, debouncedSubmit, persist])
 
   const handleShareLink = async () => {
     try {
-      const shareableLink = generateShareableLink(currentValues)
+      // Read the store at click time so chart edits don't re-render the form
+      const { chartOverpayments, overpaymentRules } = overpaymentStore.getState()
+      const shareableLink = generateShareableLink(currentValues, { chartOverpayments, overpaymentRules })
       const success = await copyToClipboard(shareableLink)
       
       if (success) {
@@ -187,8 +188,59 @@ export const MortgageForm: React.FC<MortgageFormProps> = ({
     setShareSnackbar(prev => ({ ...prev, open: false }))
   }
 
+  const isFileDrag = (event: React.DragEvent) => !!onFileDrop && event.dataTransfer.types.includes('Files')
+
+  const handleDragOver = (event: React.DragEvent) => {
+    if (!isFileDrag(event)) return
+    event.preventDefault()
+    event.dataTransfer.dropEffect = 'copy'
+    setIsFileOver(true)
+  }
+
+  const handleDragLeave = (event: React.DragEvent) => {
+    // Moving between child elements fires leave events too
+    if (event.currentTarget.contains(event.relatedTarget as Node | null)) return
+    setIsFileOver(false)
+  }
+
+  const handleDrop = (event: React.DragEvent) => {
+    if (!isFileDrag(event)) return
+    event.preventDefault()
+    setIsFileOver(false)
+    const file = event.dataTransfer.files[0]
+    if (file) onFileDrop?.(file)
+  }
+
   return (
-    <Card elevation={3}>
+    <Card
+      elevation={3}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+      sx={{ position: 'relative' }}
+    >
+      {isFileOver && (
+        <Box
+          sx={{
+            position: 'absolute',
+            inset: 0,
+            zIndex: 1,
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            border: '2px dashed',
+            borderColor: 'primary.main',
+            borderRadius: 1,
+            backgroundColor: 'rgba(255, 255, 255, 0.9)',
+            pointerEvents: 'none',
+          }}
+        >
+          <Typography variant="h6" color="primary" sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <FileUpload />
+            Drop a .mortgasim.json file to import the scenario
+          </Typography>
+        </Box>
+      )}
       <CardContent sx={{ p: 3 }}>
         {/* Header with share button */}
         <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3, flexWrap: 'wrap', gap: 2 }}>
@@ -323,33 +375,98 @@ export const MortgageForm: React.FC<MortgageFormProps> = ({
                 />
               </Box>
 
-              {/* Deal Timeline */}
-              <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
-                Rate Deals — drag to resize/move, click to select
-              </Typography>
-              <Controller
-                name="deals"
-                control={control}
-                render={({ field }) => (
-                  <DealTimeline
-                    deals={field.value || []}
-                    onChange={(newDeals) => {
-                      field.onChange(newDeals)
-                      // Sync legacy fields from first deal for backward compat
-                      if (newDeals.length > 0) {
-                        const first = newDeals[0]
-                        setValue('fixed_rate', first.rate)
-                        setValue('fixed_term_months', first.end_month)
-                      } else {
-                        setValue('fixed_rate', 0)
-                        setValue('fixed_term_months', 0)
-                      }
-                    }}
-                    termYears={currentValues.term_years || 25}
-                    variableRate={currentValues.variable_rate || 6.0}
+              <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: 'repeat(3, 1fr)' }, gap: 1.5, mb: 2 }}>
+                <Controller
+                  name="repayment_type"
+                  control={control}
+                  render={({ field }) => (
+                    <TextField
+                      select
+                      value={field.value ?? 'repayment'}
+                      onChange={(e) => field.onChange(e.target.value)}
+                      label="Repayment Type"
+                      fullWidth
+                      size="small"
+                    >
+                      <MenuItem value="repayment">Capital repayment</MenuItem>
+                      <MenuItem value="interest_only">Interest-only</MenuItem>
+                      <MenuItem value="part_and_part">Part-and-part</MenuItem>
+                    </TextField>
+                  )}
+                />
+
+                {currentValues.repayment_type === 'part_and_part' && (
+                  <Controller
+                    name="interest_only_amount"
+                    control={control}
+                    render={({ field }) => (
+                      <NumericField
+                        value={field.value}
+                        onChange={(v) => field.onChange(v === '' ? undefined : v)}
+                        label="Interest-only Part (£)"
+                        error={!!errors.interest_only_amount}
+                        helperText={errors.interest_only_amount?.message}
+                        fullWidth
+                        placeholder="100000"
+                        size="small"
+                      />
+                    )}
                   />
                 )}
-              />
+              </Box>
+
+              <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', lg: stressTestRequest !== undefined ? '3fr 2fr' : '1fr' }, gap: 3 }}>
+                <Box>
+                  {/* Deal Timeline */}
+                  <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+                    Rate Deals — drag to resize/move, click to select
+                  </Typography>
+                  <Controller
+                    name="deals"
+                    control={control}
+                    render={({ field }) => (
+                      <DealTimeline
+                        deals={field.value || []}
+                        onChange={(newDeals) => {
+                          field.onChange(newDeals)
+                          // Sync legacy fields from first deal for backward compat
+                          if (newDeals.length > 0) {
+                            const first = newDeals[0]
+                            setValue('fixed_rate', first.rate)
+                            setValue('fixed_term_months', first.end_month)
+                          } else {
+                            setValue('fixed_rate', 0)
+                            setValue('fixed_term_months', 0)
+                          }
+                        }}
+                        termYears={currentValues.term_years || 25}
+                        variableRate={currentValues.variable_rate || 6.0}
+                      />
+                    )}
+                  />
+
+                  {/* Base Rate Projection */}
+                  <Typography variant="body2" color="text.secondary" sx={{ mt: 2, mb: 1 }}>
+                    Base Rate Projection — tracker deals follow it and the SVR moves with it
+                  </Typography>
+                  <Controller
+                    name="base_rate_path"
+                    control={control}
+                    render={({ field }) => (
+                      <BaseRateCurveEditor
+                        path={field.value || []}
+                        onChange={field.onChange}
+                        termYears={currentValues.term_years || 25}
+                      />
+                    )}
+                  />
+                </Box>
+
+                {/* Rate Stress Test */}
+                {stressTestRequest !== undefined && (
+                  <StressTestPanel request={stressTestRequest} />
+                )}
+              </Box>
             </Paper>
           </Box>
 
@@ -360,16 +477,36 @@ export const MortgageForm: React.FC<MortgageFormProps> = ({
                 <Savings color="success" fontSize="small" />
                 Savings Accounts
               </Typography>
-              <Tooltip title="Add Account">
-                <IconButton
-                  size="small"
-                  onClick={handleAddAccount}
-                  color="success"
-                  disabled={accountFields.length >= 10}
-                >
-                  <Add fontSize="small" />
-                </IconButton>
-              </Tooltip>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                <Controller
+                  name="offset_enabled"
+                  control={control}
+                  render={({ field }) => (
+                    <Tooltip title="Ticked accounts reduce the balance mortgage interest is charged on, instead of earning interest">
+                      <FormControlLabel
+                        control={
+                          <Switch
+                            checked={field.value ?? false}
+                            onChange={(e) => field.onChange(e.target.checked)}
+                            size="small"
+                          />
+                        }
+                        label={<Typography variant="body2">Offset mortgage</Typography>}
+                      />
+                    </Tooltip>
+                  )}
+                />
+                <Tooltip title="Add Account">
+                  <IconButton
+                    size="small"
+                    onClick={handleAddAccount}
+                    color="success"
+                    disabled={accountFields.length >= 10}
+                  >
+                    <Add fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              </Box>
             </Box>
 
             {accountFields.length === 0 ? (
@@ -391,7 +528,10 @@ export const MortgageForm: React.FC<MortgageFormProps> = ({
                     key={field.id}
                     sx={{
                       display: 'grid',
-                      gridTemplateColumns: { xs: '1fr', sm: '1.5fr 1fr 1fr 0.8fr auto auto' },
+                      gridTemplateColumns: {
+                        xs: '1fr',
+                        sm: currentValues.offset_enabled ? '1.5fr 1fr 1fr 0.8fr auto auto auto' : '1.5fr 1fr 1fr 0.8fr auto auto',
+                      },
                       gap: 1,
                       alignItems: 'start',
                       p: 1,
@@ -482,6 +622,24 @@ export const MortgageForm: React.FC<MortgageFormProps> = ({
                       )}
                     />
 
+                    {currentValues.offset_enabled && (
+                      <Controller
+                        name={`savings_accounts.${index}.offset`}
+                        control={control}
+                        render={({ field: inputField }) => (
+                          <Tooltip title="Offset against mortgage">
+                            <Checkbox
+                              checked={inputField.value ?? false}
+                              onChange={(e) => inputField.onChange(e.target.checked)}
+                              size="small"
+                              color="secondary"
+                              sx={{ mt: 0.5 }}
+                            />
+                          </Tooltip>
+                        )}
+                      />
+                    )}
+
                     <Tooltip title="Remove Account">
                       <IconButton
                         size="small"
@@ -492,6 +650,44 @@ export const MortgageForm: React.FC<MortgageFormProps> = ({
                         <Delete fontSize="small" />
                       </IconButton>
                     </Tooltip>
+
+                    {currentValues.monte_carlo_enabled && (
+                      <Box sx={{ gridColumn: '1 / -1', display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 1 }}>
+                        <Controller
+                          name={`savings_accounts.${index}.expected_return`}
+                          control={control}
+                          render={({ field: inputField }) => (
+                            <NumericField
+                              value={inputField.value}
+                              onChange={(v) => inputField.onChange(v === '' ? undefined : v)}
+                              label="Expected Return (%)"
+                              error={!!errors.savings_accounts?.[index]?.expected_return}
+                              helperText={errors.savings_accounts?.[index]?.expected_return?.message ?? 'Defaults to the rate'}
+                              fullWidth
+                              placeholder={String(currentValues.savings_accounts?.[index]?.rate ?? '')}
+                              size="small"
+                            />
+                          )}
+                        />
+
+                        <Controller
+                          name={`savings_accounts.${index}.volatility`}
+                          control={control}
+                          render={({ field: inputField }) => (
+                            <NumericField
+                              value={inputField.value}
+                              onChange={(v) => inputField.onChange(v === '' ? undefined : v)}
+                              label="Volatility (%)"
+                              error={!!errors.savings_accounts?.[index]?.volatility}
+                              helperText={errors.savings_accounts?.[index]?.volatility?.message ?? '0 for cash, ~15 for equities'}
+                              fullWidth
+                              placeholder="0"
+                              size="small"
+                            />
+                          )}
+                        />
+                      </Box>
+                    )}
                   </Box>
                 ))}
               </Box>
@@ -557,6 +753,46 @@ export const MortgageForm: React.FC<MortgageFormProps> = ({
                 )}
               />
             </Box>
+
+            <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: 'repeat(3, 1fr)' }, gap: 1.5, mt: 1.5, alignItems: 'center' }}>
+              <Controller
+                name="monte_carlo_enabled"
+                control={control}
+                render={({ field }) => (
+                  <Tooltip title="Run many simulations with random savings returns and rate moves, and show 10th/50th/90th percentile bands">
+                    <FormControlLabel
+                      control={
+                        <Switch
+                          checked={field.value ?? false}
+                          onChange={(e) => field.onChange(e.target.checked)}
+                          size="small"
+                        />
+                      }
+                      label="Monte Carlo"
+                    />
+                  </Tooltip>
+                )}
+              />
+
+              {currentValues.monte_carlo_enabled && (
+                <Controller
+                  name="rate_volatility"
+                  control={control}
+                  render={({ field }) => (
+                    <NumericField
+                      value={field.value}
+                      onChange={(v) => field.onChange(v === '' ? undefined : v)}
+                      label="Rate Volatility (% / year)"
+                      error={!!errors.rate_volatility}
+                      helperText={errors.rate_volatility?.message ?? 'Random walk on variable and tracker rates'}
+                      fullWidth
+                      placeholder="1.0"
+                      size="small"
+                    />
+                  )}
+                />
+              )}
+            </Box>
           </Paper>
         </Box>
       </CardContent>
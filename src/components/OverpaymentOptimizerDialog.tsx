@@ -0,0 +1,279 @@
+import React, { useEffect, useRef, useState } from 'react'
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Typography,
+  ToggleButton,
+  ToggleButtonGroup,
+  CircularProgress,
+  Alert,
+  Chip,
+} from '@mui/material'
+import { DataGrid } from '@mui/x-data-grid'
+import type { GridColDef } from '@mui/x-data-grid'
+import NumericField from './NumericField'
+import { optimizeOverpayments } from '../services/overpaymentOptimizer'
+import type {
+  OptimizerObjective,
+  OptimizerOptions,
+  OptimizerResult,
+  OptimizerWorkerRequest,
+  OptimizerWorkerResponse,
+} from '../services/overpaymentOptimizer'
+import { createAbortError, isAbortError } from '../services/simulationTransport'
+import { useOverpaymentStore } from '../store/overpaymentStore'
+import { formatCurrency } from '../utils/chartSetup'
+import type { SimulationRequest } from '../types/mortgage'
+
+interface OverpaymentOptimizerDialogProps {
+  open: boolean
+  onClose: () => void
+  request: SimulationRequest | null
+}
+
+const DEFAULT_SAVINGS_BUFFER = 10000
+
+/**
+ * Run the search in a dedicated worker; aborting terminates it. Falls back to the
+ * main thread where workers are unavailable.
+ */
+const runInWorker = (
+  request: SimulationRequest,
+  options: OptimizerOptions,
+  signal: AbortSignal
+): Promise<OptimizerResult> => {
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve().then(() => optimizeOverpayments(request, options))
+  }
+
+  return new Promise<OptimizerResult>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(createAbortError())
+      return
+    }
+
+    const worker = new Worker(new URL('../workers/overpaymentOptimizer.worker.ts', import.meta.url), {
+      type: 'module',
+    })
+    const finish = () => {
+      worker.terminate()
+      signal.removeEventListener('abort', onAbort)
+    }
+    const onAbort = () => {
+      finish()
+      reject(createAbortError())
+    }
+
+    worker.onmessage = (event: MessageEvent<OptimizerWorkerResponse>) => {
+      finish()
+      const message = event.data
+      if ('result' in message) {
+        resolve(message.result)
+      } else {
+        reject(new Error(message.error))
+      }
+    }
+    worker.onerror = (event) => {
+      finish()
+      reject(new Error(event.message || 'Optimizer worker failed'))
+    }
+    signal.addEventListener('abort', onAbort, { once: true })
+
+    const message: OptimizerWorkerRequest = { request, options }
+    worker.postMessage(message)
+  })
+}
+
+const columns: GridColDef[] = [
+  {
+    field: 'name',
+    headerName: 'Strategy',
+    flex: 1,
+    minWidth: 200,
+    renderCell: (params) => (
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, height: '100%' }}>
+        {params.value as string}
+        {params.row.isBest && <Chip label="Best" color="success" size="small" />}
+        {!params.row.feasible && <Chip label="Below buffer" color="error" size="small" variant="outlined" />}
+      </Box>
+    ),
+  },
+  {
+    field: 'totalOverpaid',
+    headerName: 'Overpaid',
+    width: 110,
+    align: 'right',
+    headerAlign: 'center',
+    valueFormatter: (value: number) => formatCurrency(value),
+  },
+  {
+    field: 'finalNetWorth',
+    headerName: 'Net Worth',
+    width: 120,
+    align: 'right',
+    headerAlign: 'center',
+    valueFormatter: (value: number) => formatCurrency(value),
+  },
+  {
+    field: 'totalInterest',
+    headerName: 'Interest + ERCs',
+    width: 130,
+    align: 'right',
+    headerAlign: 'center',
+    valueFormatter: (value: number) => formatCurrency(value),
+  },
+  {
+    field: 'minSavings',
+    headerName: 'Min Savings',
+    width: 120,
+    align: 'right',
+    headerAlign: 'center',
+    valueFormatter: (value: number) => formatCurrency(value),
+  },
+]
+
+// Searches overpayment schedules for the current scenario and loads the winner onto the chart
+export const OverpaymentOptimizerDialog: React.FC<OverpaymentOptimizerDialogProps> = ({ open, onClose, request }) => {
+  const { chartOverpayments, overpaymentRules, loadSchedule } = useOverpaymentStore()
+  const [objective, setObjective] = useState<OptimizerObjective>('net_worth')
+  const [buffer, setBuffer] = useState<number | ''>(DEFAULT_SAVINGS_BUFFER)
+  const [result, setResult] = useState<OptimizerResult | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  // Stop a search still running when the dialog closes or unmounts
+  useEffect(() => {
+    if (open) return
+    abortRef.current?.abort()
+    abortRef.current = null
+    setIsRunning(false)
+  }, [open])
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  const handleRun = () => {
+    if (!request) return
+    abortRef.current?.abort()
+    const controller = new AbortController()
+    abortRef.current = controller
+    setIsRunning(true)
+    setError(null)
+    // The search runs a few hundred local simulations, so it runs in a worker
+    runInWorker(request, { objective, minSavingsBuffer: buffer === '' ? 0 : buffer }, controller.signal)
+      .then(setResult)
+      .catch((err: unknown) => {
+        if (isAbortError(err)) return
+        setError(err instanceof Error ? err.message : 'Optimisation failed')
+      })
+      .finally(() => {
+        if (abortRef.current !== controller) return
+        abortRef.current = null
+        setIsRunning(false)
+      })
+  }
+
+  const handleLoad = () => {
+    if (!result) return
+    loadSchedule(result.best.overpayments.map((op) => ({ periodIndex: op.month, amount: op.amount })))
+    onClose()
+  }
+
+  const rows = (result?.strategies ?? []).map((strategy) => ({
+    id: strategy.id,
+    name: strategy.name,
+    isBest: strategy.id === result?.best.id,
+    feasible: strategy.feasible,
+    totalOverpaid: strategy.totalOverpaid,
+    finalNetWorth: strategy.finalNetWorth,
+    totalInterest: strategy.totalInterest,
+    minSavings: strategy.minSavings,
+  }))
+
+  const canLoad = result !== null && result.best.feasible && result.best.overpayments.length > 0
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Overpay or Save?</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Compares not overpaying with overpayment plans timed to each deal year, sized within the
+          penalty-free allowance, and lump sums once early repayment charges end.
+        </Typography>
+
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 2, mb: 2 }}>
+          <ToggleButtonGroup
+            value={objective}
+            exclusive
+            size="small"
+            onChange={(_, value: OptimizerObjective | null) => value && setObjective(value)}
+          >
+            <ToggleButton value="net_worth">Maximise net worth</ToggleButton>
+            <ToggleButton value="interest">Minimise interest</ToggleButton>
+          </ToggleButtonGroup>
+          <NumericField
+            value={buffer}
+            onChange={setBuffer}
+            label="Minimum Savings Buffer (£)"
+            size="small"
+            sx={{ width: 220 }}
+          />
+          <Button variant="contained" onClick={handleRun} disabled={!request || isRunning}>
+            {isRunning ? <CircularProgress size={20} color="inherit" /> : 'Find Best Plan'}
+          </Button>
+        </Box>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {result && (
+          <>
+            <Alert severity={result.best.feasible ? 'success' : 'warning'} sx={{ mb: 2 }}>
+              {result.explanation.map((line) => (
+                <Typography key={line} variant="body2" sx={{ mb: 0.5 }}>
+                  {line}
+                </Typography>
+              ))}
+            </Alert>
+            <DataGrid
+              rows={rows}
+              columns={columns}
+              hideFooter
+              autoHeight
+              density="compact"
+              disableRowSelectionOnClick
+              disableColumnMenu
+              sx={{
+                border: 'none',
+                '& .MuiDataGrid-columnHeaders': {
+                  backgroundColor: '#f8f9fa',
+                  fontWeight: 600,
+                },
+              }}
+            />
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+              Net worth and interest are measured at month {result.horizonMonths} for every plan.
+            </Typography>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {canLoad && chartOverpayments.length + overpaymentRules.length > 0 && (
+          <Typography variant="caption" color="text.secondary" sx={{ mr: 'auto', ml: 2 }}>
+            Loading replaces your chart overpayments and recurring rules
+          </Typography>
+        )}
+        <Button onClick={onClose}>Close</Button>
+        <Button onClick={handleLoad} variant="contained" disabled={!canLoad}>
+          Load Into Chart
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
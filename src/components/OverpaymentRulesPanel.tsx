@@ -0,0 +1,247 @@
+import React, { useState } from 'react'
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  IconButton,
+  MenuItem,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material'
+import { Add as AddIcon, Delete as DeleteIcon, Edit as EditIcon } from '@mui/icons-material'
+import NumericField from './NumericField'
+import {
+  useScopedOverpaymentStore,
+  overpaymentRuleLabels,
+  formatOverpaymentRule,
+  type OverpaymentRule,
+  type OverpaymentRuleType,
+} from '../store/overpaymentStore'
+import { dateToPeriodIndex, periodIndexToDate } from '../utils/chartSetup'
+
+interface OverpaymentRulesPanelProps {
+  startDate: string
+  maxPeriod: number // Last month shown on the chart
+}
+
+type RuleDraft = Omit<OverpaymentRule, 'id'>
+
+const CALENDAR_MONTHS = Array.from({ length: 12 }, (_, i) =>
+  new Date(2000, i, 1).toLocaleDateString('en-GB', { month: 'long' })
+)
+
+// "YYYY-MM" for a month input
+const periodToMonthValue = (periodIndex: number, startDate: string): string => {
+  const date = periodIndexToDate(periodIndex, startDate)
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`
+}
+
+const formatPeriod = (periodIndex: number, startDate: string): string =>
+  periodIndexToDate(periodIndex, startDate).toLocaleDateString('en-GB', { month: 'short', year: 'numeric' })
+
+const defaultDraft = (maxPeriod: number): RuleDraft => ({
+  type: 'monthly',
+  startPeriod: 1,
+  endPeriod: Math.max(1, Math.min(60, maxPeriod)),
+  amount: 200,
+  bonusMonth: 12,
+  escalationPercent: 3,
+  salary: 50000,
+  salaryGrowthPercent: 3,
+  percentOfIncrease: 50,
+})
+
+// Lists recurring overpayment rules under the balance chart, with a dialog to add or edit them
+export const OverpaymentRulesPanel: React.FC<OverpaymentRulesPanelProps> = ({ startDate, maxPeriod }) => {
+  const { overpaymentRules, addRule, updateRule, removeRule } = useScopedOverpaymentStore()
+  const [editingRuleId, setEditingRuleId] = useState<string | null>(null)
+  const [draft, setDraft] = useState<RuleDraft | null>(null)
+
+  const openNew = () => {
+    setEditingRuleId(null)
+    setDraft(defaultDraft(maxPeriod))
+  }
+
+  const openEdit = (rule: OverpaymentRule) => {
+    const { id, ...rest } = rule
+    setEditingRuleId(id)
+    setDraft({ ...defaultDraft(maxPeriod), ...rest })
+  }
+
+  const close = () => {
+    setDraft(null)
+    setEditingRuleId(null)
+  }
+
+  const update = (updates: Partial<RuleDraft>) => setDraft((current) => (current ? { ...current, ...updates } : current))
+
+  const setPeriodFromMonth = (field: 'startPeriod' | 'endPeriod', value: string) => {
+    if (!value) return
+    update({ [field]: Math.max(1, dateToPeriodIndex(new Date(`${value}-01`), startDate)) })
+  }
+
+  const isValid =
+    draft !== null &&
+    draft.startPeriod <= draft.endPeriod &&
+    (draft.type === 'salary_increase'
+      ? (draft.salary ?? 0) > 0 && (draft.percentOfIncrease ?? 0) > 0
+      : draft.amount > 0)
+
+  const handleSave = () => {
+    if (!draft || !isValid) return
+    if (editingRuleId) updateRule(editingRuleId, draft)
+    else addRule(draft)
+    close()
+  }
+
+  return (
+    <Box sx={{ mt: 2 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+        <Typography variant="subtitle2">Recurring Overpayments</Typography>
+        <Button size="small" startIcon={<AddIcon />} onClick={openNew}>
+          Add Rule
+        </Button>
+      </Box>
+
+      {overpaymentRules.length === 0 ? (
+        <Typography variant="caption" color="text.secondary">
+          Click the chart for a one-off overpayment, or add a rule for regular ones. Drag the ends of a
+          shaded range to change when it applies.
+        </Typography>
+      ) : (
+        <Stack spacing={1}>
+          {overpaymentRules.map((rule) => (
+            <Box key={rule.id} sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+              <Chip label={overpaymentRuleLabels[rule.type]} size="small" variant="outlined" />
+              <Typography variant="body2">{formatOverpaymentRule(rule)}</Typography>
+              <Typography variant="body2" color="text.secondary">
+                {formatPeriod(rule.startPeriod, startDate)} – {formatPeriod(rule.endPeriod, startDate)}
+              </Typography>
+              <Box sx={{ ml: 'auto' }}>
+                <IconButton size="small" onClick={() => openEdit(rule)} aria-label="Edit rule">
+                  <EditIcon fontSize="small" />
+                </IconButton>
+                <IconButton size="small" onClick={() => removeRule(rule.id)} aria-label="Delete rule">
+                  <DeleteIcon fontSize="small" />
+                </IconButton>
+              </Box>
+            </Box>
+          ))}
+        </Stack>
+      )}
+
+      <Dialog open={draft !== null} onClose={close} maxWidth="xs" fullWidth>
+        <DialogTitle>{editingRuleId ? 'Edit Rule' : 'Add Rule'}</DialogTitle>
+        {draft && (
+          <DialogContent>
+            <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2, pt: 1 }}>
+              <TextField
+                select
+                size="small"
+                label="Type"
+                value={draft.type}
+                onChange={(e) => update({ type: e.target.value as OverpaymentRuleType })}
+                sx={{ gridColumn: '1 / -1' }}
+              >
+                {(Object.keys(overpaymentRuleLabels) as OverpaymentRuleType[]).map((type) => (
+                  <MenuItem key={type} value={type}>
+                    {overpaymentRuleLabels[type]}
+                  </MenuItem>
+                ))}
+              </TextField>
+
+              <TextField
+                type="month"
+                size="small"
+                label="From"
+                value={periodToMonthValue(draft.startPeriod, startDate)}
+                onChange={(e) => setPeriodFromMonth('startPeriod', e.target.value)}
+                InputLabelProps={{ shrink: true }}
+              />
+              <TextField
+                type="month"
+                size="small"
+                label="To"
+                value={periodToMonthValue(draft.endPeriod, startDate)}
+                onChange={(e) => setPeriodFromMonth('endPeriod', e.target.value)}
+                InputLabelProps={{ shrink: true }}
+                error={draft.endPeriod < draft.startPeriod}
+              />
+
+              {draft.type !== 'salary_increase' && (
+                <NumericField
+                  value={draft.amount}
+                  onChange={(v) => update({ amount: v === '' ? 0 : v })}
+                  label={draft.type === 'yearly_bonus' ? 'Bonus (£)' : 'Monthly Amount (£)'}
+                  size="small"
+                />
+              )}
+              {draft.type === 'yearly_bonus' && (
+                <TextField
+                  select
+                  size="small"
+                  label="Paid In"
+                  value={draft.bonusMonth ?? 12}
+                  onChange={(e) => update({ bonusMonth: Number(e.target.value) })}
+                >
+                  {CALENDAR_MONTHS.map((name, i) => (
+                    <MenuItem key={name} value={i + 1}>
+                      {name}
+                    </MenuItem>
+                  ))}
+                </TextField>
+              )}
+              {draft.type === 'escalating' && (
+                <NumericField
+                  value={draft.escalationPercent}
+                  onChange={(v) => update({ escalationPercent: v === '' ? undefined : v })}
+                  label="Increase per Year (%)"
+                  size="small"
+                />
+              )}
+              {draft.type === 'salary_increase' && (
+                <>
+                  <NumericField
+                    value={draft.salary}
+                    onChange={(v) => update({ salary: v === '' ? undefined : v })}
+                    label="Annual Salary (£)"
+                    size="small"
+                  />
+                  <NumericField
+                    value={draft.salaryGrowthPercent}
+                    onChange={(v) => update({ salaryGrowthPercent: v === '' ? undefined : v })}
+                    label="Pay Rise per Year (%)"
+                    size="small"
+                  />
+                  <NumericField
+                    value={draft.percentOfIncrease}
+                    onChange={(v) => update({ percentOfIncrease: v === '' ? undefined : v })}
+                    label="Share of Rise Overpaid (%)"
+                    size="small"
+                  />
+                </>
+              )}
+            </Box>
+            {draft.type === 'salary_increase' && (
+              <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 2 }}>
+                Each month overpays the chosen share of how much your monthly pay has risen since the rule
+                started, before tax.
+              </Typography>
+            )}
+          </DialogContent>
+        )}
+        <DialogActions>
+          <Button onClick={close}>Cancel</Button>
+          <Button onClick={handleSave} variant="contained" disabled={!isValid}>
+            {editingRuleId ? 'Save' : 'Add'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  )
+}
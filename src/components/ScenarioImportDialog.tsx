@@ -0,0 +1,135 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material'
+import { diffScenarios, parseScenarioFile } from '../utils/scenarioFile'
+import type { ScenarioFileContents } from '../utils/scenarioFile'
+
+interface ScenarioImportDialogProps {
+  file: File | null // Scenario file to import; the dialog is open while set
+  current: ScenarioFileContents // What the import would replace
+  onAccept: (imported: ScenarioFileContents) => void
+  onError?: (error: unknown) => void
+  onClose: () => void
+}
+
+type ImportState =
+  | { status: 'reading' }
+  | { status: 'ready'; imported: ScenarioFileContents }
+  | { status: 'error'; message: string }
+
+// Reads a dropped or chosen scenario file and shows what importing it would change
+export const ScenarioImportDialog: React.FC<ScenarioImportDialogProps> = ({
+  file,
+  current,
+  onAccept,
+  onError,
+  onClose,
+}) => {
+  const [state, setState] = useState<ImportState>({ status: 'reading' })
+
+  useEffect(() => {
+    if (!file) return
+    let cancelled = false
+    setState({ status: 'reading' })
+    file
+      .text()
+      .then((text) => {
+        if (!cancelled) setState({ status: 'ready', imported: parseScenarioFile(text) })
+      })
+      .catch((error: unknown) => {
+        if (cancelled) return
+        setState({ status: 'error', message: error instanceof Error ? error.message : 'The file could not be read' })
+        onError?.(error)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [file, onError])
+
+  const changes = useMemo(
+    () => (state.status === 'ready' ? diffScenarios(current, state.imported) : []),
+    [state, current]
+  )
+
+  return (
+    <Dialog open={file !== null} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        {state.status === 'ready' ? `Import "${state.imported.name}"` : `Import ${file?.name ?? 'scenario'}`}
+      </DialogTitle>
+      <DialogContent>
+        {state.status === 'reading' && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+            <CircularProgress size={24} />
+          </Box>
+        )}
+        {state.status === 'error' && <Alert severity="error">{state.message}</Alert>}
+        {state.status === 'ready' && (
+          <>
+            {state.imported.notes && (
+              <Typography variant="body2" sx={{ mb: 2, whiteSpace: 'pre-wrap' }}>
+                {state.imported.notes}
+              </Typography>
+            )}
+            {changes.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                This scenario matches the current one.
+              </Typography>
+            ) : (
+              <>
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+                  Importing will make {changes.length} {changes.length === 1 ? 'change' : 'changes'} to the current
+                  scenario and save it to your library:
+                </Typography>
+                <TableContainer sx={{ maxHeight: 400 }}>
+                  <Table size="small" stickyHeader>
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Field</TableCell>
+                        <TableCell>Current</TableCell>
+                        <TableCell>Imported</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {changes.map((change) => (
+                        <TableRow key={change.field}>
+                          <TableCell sx={{ fontFamily: 'monospace' }}>{change.field}</TableCell>
+                          <TableCell sx={{ color: 'error.main' }}>{change.current || '—'}</TableCell>
+                          <TableCell sx={{ color: 'success.main' }}>{change.imported || '—'}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              </>
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          onClick={() => state.status === 'ready' && onAccept(state.imported)}
+          variant="contained"
+          disabled={state.status !== 'ready'}
+        >
+          Import
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
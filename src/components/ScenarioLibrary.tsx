@@ -0,0 +1,292 @@
+import React, { useRef, useState } from 'react'
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Button,
+  IconButton,
+  Tooltip,
+  Checkbox,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+} from '@mui/material'
+import {
+  CompareArrows,
+  Add,
+  ContentCopy,
+  Edit,
+  Delete,
+  Save,
+  FolderOpen,
+  FileDownload,
+  FileUpload,
+} from '@mui/icons-material'
+import { useScenarioStore, MAX_COMPARED_SCENARIOS } from '../store/scenarioStore'
+import type { Scenario } from '../store/scenarioStore'
+import { useOverpaymentStore } from '../store/overpaymentStore'
+import { getScenarioColor } from '../utils/chartSetup'
+import { downloadBlob } from '../utils/exportResults'
+import { createScenarioFile, scenarioFileName, SCENARIO_FILE_EXTENSION } from '../utils/scenarioFile'
+import type { MortgageFormData } from '../utils/validation'
+
+interface ScenarioLibraryProps {
+  currentFormData: MortgageFormData
+  onLoad: (scenario: Scenario) => void
+  onImportFile?: (file: File) => void // Scenario file chosen for import; the button is hidden without it
+}
+
+type NameDialogState =
+  | { mode: 'create'; name: string; notes: string }
+  | { mode: 'rename'; id: string; name: string; notes: string }
+  | null
+
+export const ScenarioLibrary: React.FC<ScenarioLibraryProps> = ({ currentFormData, onLoad, onImportFile }) => {
+  const {
+    scenarios,
+    activeScenarioId,
+    compareIds,
+    createScenario,
+    duplicateScenario,
+    renameScenario,
+    updateScenario,
+    deleteScenario,
+    toggleCompare,
+    clearCompare,
+  } = useScenarioStore()
+  const { chartOverpayments, overpaymentRules } = useOverpaymentStore()
+
+  const [nameDialog, setNameDialog] = useState<NameDialogState>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const handleNameConfirm = () => {
+    if (!nameDialog) return
+
+    if (nameDialog.mode === 'create') {
+      createScenario(nameDialog.name, currentFormData, chartOverpayments, overpaymentRules, nameDialog.notes.trim())
+    } else {
+      renameScenario(nameDialog.id, nameDialog.name)
+      updateScenario(nameDialog.id, { notes: nameDialog.notes.trim() })
+    }
+    setNameDialog(null)
+  }
+
+  // Overwrite the active scenario with the current form values and overpayments
+  const handleSaveActive = (id: string) => {
+    updateScenario(id, { formData: currentFormData, chartOverpayments, overpaymentRules })
+  }
+
+  // Save a scenario as a portable file, e.g. as a backup or to move it to another browser
+  const handleExportFile = (scenario: Scenario) => {
+    const blob = createScenarioFile({
+      name: scenario.name,
+      notes: scenario.notes ?? '',
+      formData: scenario.formData,
+      chartOverpayments: scenario.chartOverpayments,
+      overpaymentRules: scenario.overpaymentRules ?? [],
+    })
+    downloadBlob(blob, scenarioFileName(scenario.name))
+  }
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    // Allow the same file to be picked again
+    event.target.value = ''
+    if (file) onImportFile?.(file)
+  }
+
+  const formatUpdated = (timestamp: number) =>
+    new Date(timestamp).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })
+
+  return (
+    <Card elevation={3}>
+      <CardContent sx={{ p: 3 }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, flexWrap: 'wrap', gap: 1 }}>
+          <Typography variant="h6" sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <CompareArrows color="primary" />
+            Scenarios
+          </Typography>
+
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            {onImportFile && (
+              <>
+                <Button size="small" startIcon={<FileUpload />} onClick={() => fileInputRef.current?.click()}>
+                  Import file
+                </Button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept={`${SCENARIO_FILE_EXTENSION},.json,application/json`}
+                  hidden
+                  onChange={handleFileChange}
+                />
+              </>
+            )}
+            {compareIds.length > 0 && (
+              <Button size="small" onClick={clearCompare}>
+                Clear comparison
+              </Button>
+            )}
+            <Button
+              size="small"
+              variant="outlined"
+              startIcon={<Add />}
+              onClick={() => setNameDialog({ mode: 'create', name: `Scenario ${scenarios.length + 1}`, notes: '' })}
+            >
+              Save current
+            </Button>
+          </Box>
+        </Box>
+
+        {scenarios.length === 0 ? (
+          <Box sx={{
+            p: 2,
+            textAlign: 'center',
+            backgroundColor: 'rgba(0,0,0,0.02)',
+            borderRadius: 1,
+            border: '1px dashed rgba(0,0,0,0.2)'
+          }}>
+            <Typography variant="body2" color="text.secondary">
+              No saved scenarios. Save the current parameters to start comparing, e.g. a 2-year fix against a 5-year fix.
+            </Typography>
+          </Box>
+        ) : (
+          <>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+              Tick two to {MAX_COMPARED_SCENARIOS} scenarios to compare them side by side.
+            </Typography>
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5 }}>
+              {scenarios.map((scenario) => {
+                const compareIndex = compareIds.indexOf(scenario.id)
+                const isCompared = compareIndex !== -1
+                const isActive = scenario.id === activeScenarioId
+
+                return (
+                  <Box
+                    key={scenario.id}
+                    sx={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: 1,
+                      px: 0.5,
+                      py: 0.25,
+                      borderRadius: 0.5,
+                      backgroundColor: isActive ? 'action.selected' : 'transparent',
+                      '&:hover': { backgroundColor: isActive ? 'action.selected' : 'action.hover' },
+                    }}
+                  >
+                    <Checkbox
+                      size="small"
+                      checked={isCompared}
+                      disabled={!isCompared && compareIds.length >= MAX_COMPARED_SCENARIOS}
+                      onChange={() => toggleCompare(scenario.id)}
+                      sx={isCompared ? { color: getScenarioColor(compareIndex), '&.Mui-checked': { color: getScenarioColor(compareIndex) } } : undefined}
+                    />
+                    <Box sx={{ flex: 1, minWidth: 0 }}>
+                      <Typography variant="body2" fontWeight={500} noWrap>
+                        {scenario.name}
+                      </Typography>
+                      <Typography variant="caption" color="text.secondary">
+                        £{scenario.formData.mortgage_amount.toLocaleString()} · {scenario.formData.term_years}y
+                        {scenario.chartOverpayments.length > 0 && ` · ${scenario.chartOverpayments.length} overpayments`}
+                        {' · '}updated {formatUpdated(scenario.updatedAt)}
+                      </Typography>
+                      {scenario.notes && (
+                        <Typography variant="caption" color="text.secondary" component="div" noWrap title={scenario.notes}>
+                          {scenario.notes}
+                        </Typography>
+                      )}
+                    </Box>
+                    {isActive && <Chip label="Active" size="small" color="primary" variant="outlined" />}
+                    <Tooltip title="Load into form">
+                      <IconButton size="small" onClick={() => onLoad(scenario)}>
+                        <FolderOpen fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    {isActive && (
+                      <Tooltip title="Save current values to this scenario">
+                        <IconButton size="small" onClick={() => handleSaveActive(scenario.id)}>
+                          <Save fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    )}
+                    <Tooltip title="Export to file">
+                      <IconButton size="small" onClick={() => handleExportFile(scenario)}>
+                        <FileDownload fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Duplicate">
+                      <IconButton size="small" onClick={() => duplicateScenario(scenario.id)}>
+                        <ContentCopy fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Rename and edit notes">
+                      <IconButton
+                        size="small"
+                        onClick={() =>
+                          setNameDialog({ mode: 'rename', id: scenario.id, name: scenario.name, notes: scenario.notes ?? '' })
+                        }
+                      >
+                        <Edit fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Delete">
+                      <IconButton size="small" color="error" onClick={() => deleteScenario(scenario.id)}>
+                        <Delete fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </Box>
+                )
+              })}
+            </Box>
+          </>
+        )}
+      </CardContent>
+
+      {/* Create / Rename Dialog */}
+      <Dialog open={nameDialog !== null} onClose={() => setNameDialog(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>{nameDialog?.mode === 'rename' ? 'Edit Scenario' : 'Save Scenario'}</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            size="small"
+            label="Name"
+            value={nameDialog?.name ?? ''}
+            onChange={(e) => setNameDialog((prev) => (prev ? { ...prev, name: e.target.value } : prev))}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault()
+                handleNameConfirm()
+              }
+            }}
+            inputProps={{ maxLength: 50 }}
+            sx={{ mt: 1 }}
+          />
+          <TextField
+            fullWidth
+            multiline
+            minRows={2}
+            size="small"
+            label="Notes"
+            placeholder="e.g. broker quote from March, assumes bonus continues"
+            value={nameDialog?.notes ?? ''}
+            onChange={(e) => setNameDialog((prev) => (prev ? { ...prev, notes: e.target.value } : prev))}
+            inputProps={{ maxLength: 1000 }}
+            sx={{ mt: 2 }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setNameDialog(null)}>Cancel</Button>
+          <Button onClick={handleNameConfirm} variant="contained" disabled={!nameDialog?.name.trim()}>
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  )
+}
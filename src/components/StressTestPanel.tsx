@@ -0,0 +1,129 @@
+import React, { useState } from 'react'
+import {
+  Box,
+  Typography,
+  FormControlLabel,
+  Switch,
+  CircularProgress,
+  Alert,
+} from '@mui/material'
+import { DataGrid } from '@mui/x-data-grid'
+import type { GridColDef } from '@mui/x-data-grid'
+import { ScenarioComparisonChart } from './charts'
+import { useStressTest } from '../hooks/useStressTest'
+import { formatShock } from '../services/stressTest'
+import { formatCurrency, getScenarioColor } from '../utils/chartSetup'
+import type { SimulationRequest } from '../types/mortgage'
+
+interface StressTestPanelProps {
+  request: SimulationRequest | null
+}
+
+const formatPayoff = (month: number | null): string => {
+  if (month === null) return 'Not paid off'
+  const years = Math.floor(month / 12)
+  const months = month % 12
+  return months > 0 ? `${years}y ${months}m` : `${years}y`
+}
+
+const columns: GridColDef[] = [
+  {
+    field: 'shock',
+    headerName: 'Shock',
+    width: 110,
+    renderCell: (params) => (
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, height: '100%' }}>
+        <Box sx={{ width: 10, height: 10, borderRadius: '50%', backgroundColor: params.row.color }} />
+        {params.value as string}
+      </Box>
+    ),
+  },
+  {
+    field: 'peakMonthlyPayment',
+    headerName: 'Peak Payment',
+    width: 120,
+    align: 'right',
+    headerAlign: 'center',
+    valueFormatter: (value: number) => formatCurrency(value),
+  },
+  {
+    field: 'totalInterest',
+    headerName: 'Total Interest',
+    width: 120,
+    align: 'right',
+    headerAlign: 'center',
+    valueFormatter: (value: number) => formatCurrency(value),
+  },
+  {
+    field: 'payoff',
+    headerName: 'Paid Off',
+    width: 100,
+    align: 'center',
+    headerAlign: 'center',
+  },
+]
+
+// Re-runs the current simulation under rate shocks to the SVR, variable-rate deals and future fixed deals
+export const StressTestPanel: React.FC<StressTestPanelProps> = ({ request }) => {
+  const [enabled, setEnabled] = useState(false)
+  const { series, summaries, isLoading, error } = useStressTest(request, enabled)
+
+  const rows = summaries.map((summary, index) => ({
+    id: summary.shock,
+    color: getScenarioColor(index),
+    shock: formatShock(summary.shock),
+    peakMonthlyPayment: summary.peakMonthlyPayment,
+    totalInterest: summary.totalInterest,
+    payoff: formatPayoff(summary.payoffMonth),
+  }))
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+        <Typography variant="body2" color="text.secondary">
+          Rate stress test — shocks the SVR, trackers, discounts and every fixed deal after the current one
+        </Typography>
+        <FormControlLabel
+          control={<Switch size="small" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />}
+          label={<Typography variant="body2">Run</Typography>}
+        />
+      </Box>
+
+      {enabled && error && (
+        <Alert severity="error" sx={{ mb: 1 }}>
+          Stress test failed: {error.message}
+        </Alert>
+      )}
+
+      {enabled && isLoading && series.length === 0 && (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+          <CircularProgress size={32} />
+        </Box>
+      )}
+
+      {enabled && series.length > 0 && (
+        <>
+          <Box sx={{ height: 220, mb: 1 }}>
+            <ScenarioComparisonChart scenarios={series} metric="mortgage_balance" />
+          </Box>
+          <DataGrid
+            rows={rows}
+            columns={columns}
+            hideFooter
+            autoHeight
+            density="compact"
+            disableRowSelectionOnClick
+            disableColumnMenu
+            sx={{
+              border: 'none',
+              '& .MuiDataGrid-columnHeaders': {
+                backgroundColor: '#f8f9fa',
+                fontWeight: 600,
+              },
+            }}
+          />
+        </>
+      )}
+    </Box>
+  )
+}
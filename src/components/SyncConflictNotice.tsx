@@ -0,0 +1,40 @@
+import React, { useEffect, useState } from 'react'
+import { Snackbar, Alert } from '@mui/material'
+import { FORM_SYNC_KEY, onSyncConflict } from '../utils/tabSync'
+import type { SyncConflict } from '../utils/tabSync'
+
+const describeConflict = (conflict: SyncConflict): string => {
+  switch (conflict.key) {
+    case FORM_SYNC_KEY:
+      return 'Your mortgage details'
+    case 'mortgasim-overpayments':
+      return 'Your overpayments'
+    case 'mortgasim-scenarios':
+      return 'Your saved scenarios'
+    default:
+      return 'Your data'
+  }
+}
+
+// Shown when this tab and another edit the same data at the same time; the latest edit is kept
+export const SyncConflictNotice: React.FC = () => {
+  const [conflict, setConflict] = useState<SyncConflict | null>(null)
+
+  useEffect(() => onSyncConflict(setConflict), [])
+
+  const handleClose = () => setConflict(null)
+
+  return (
+    <Snackbar
+      open={conflict !== null}
+      autoHideDuration={8000}
+      onClose={handleClose}
+      anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+    >
+      <Alert onClose={handleClose} severity="warning" variant="filled" sx={{ width: '100%' }}>
+        {conflict &&
+          `${describeConflict(conflict)} were also changed in another tab. The most recent edit has been kept.`}
+      </Alert>
+    </Snackbar>
+  )
+}
@@ -1,7 +1,7 @@
 import React, { useMemo, useRef, useCallback, useState, useEffect } from 'react'
 import { Line } from 'react-chartjs-2'
 import type { ChartOptions, Chart as ChartJS } from 'chart.js'
-import { Box, Typography } from '@mui/material'
+import { Box, Typography, Snackbar, Button } from '@mui/material'
 import {
   chartColors,
   commonChartOptions,
@@ -12,8 +12,14 @@ import {
   periodIndexToDate,
   dateToPeriodIndex,
   createOverpaymentAnnotation,
+  createShortfallAnnotation,
+  createOverpaymentRuleAnnotation,
 } from '../../utils/chartSetup'
-import { useOverpaymentStore, type ChartOverpayment } from '../../store/overpaymentStore'
+import {
+  useScopedOverpaymentStore,
+  formatOverpaymentRule,
+  type ChartOverpayment,
+} from '../../store/overpaymentStore'
 import { OverpaymentPopover } from './OverpaymentPopover'
 
 interface InteractiveBalanceChartProps {
@@ -23,11 +29,16 @@ interface InteractiveBalanceChartProps {
   startDate: string
   birthYear?: number
   maxPeriod: number // Maximum period index (total months in simulation)
+  termEndShortfall?: { month: number; amount: number; covered: boolean } // Interest-only capital due at term end
+  onUndo?: () => void // Shown as an action on the snackbar after a delete
 }
 
 // Threshold in pixels for detecting click on annotation line
 const LINE_HIT_THRESHOLD = 20
 
+// Either end of a recurring rule's shaded range
+type RuleEdge = { ruleId: string; edge: 'start' | 'end' }
+
 export const InteractiveBalanceChart: React.FC<InteractiveBalanceChartProps> = ({
   years,
   mortgageBalance,
@@ -35,6 +46,8 @@ export const InteractiveBalanceChart: React.FC<InteractiveBalanceChartProps> = (
   startDate,
   birthYear,
   maxPeriod,
+  termEndShortfall,
+  onUndo,
 }) => {
   // Calculate starting age if birth year is provided
   const startingAge = birthYear ? new Date(startDate).getFullYear() - birthYear : undefined
@@ -50,8 +63,10 @@ export const InteractiveBalanceChart: React.FC<InteractiveBalanceChartProps> = (
   const [dragState, setDragState] = useState<{
     isDragging: boolean
     overpaymentId: string | null
+    ruleEdge?: RuleEdge
   }>({ isDragging: false, overpaymentId: null })
   const [isTouchDevice, setIsTouchDevice] = useState(false)
+  const [deletedLabel, setDeletedLabel] = useState<string | null>(null)
 
   // Detect touch device
   useEffect(() => {
@@ -68,7 +83,10 @@ export const InteractiveBalanceChart: React.FC<InteractiveBalanceChartProps> = (
     removeOverpayment,
     setEditingId,
     setDragging,
-  } = useOverpaymentStore()
+    setRuleDragging,
+    overpaymentRules,
+    updateRule,
+  } = useScopedOverpaymentStore()
 
   // Set start date in store when it changes
   useEffect(() => {
@@ -121,6 +139,34 @@ export const InteractiveBalanceChart: React.FC<InteractiveBalanceChartProps> = (
     [chartOverpayments, periodIndexToPixel]
   )
 
+  // Find a rule range end near a pixel position
+  const findRuleEdgeAtPixel = useCallback(
+    (pixelX: number): RuleEdge | null => {
+      for (const rule of overpaymentRules) {
+        const startPixel = periodIndexToPixel(rule.startPeriod)
+        const endPixel = periodIndexToPixel(rule.endPeriod)
+        if (startPixel !== null && Math.abs(pixelX - startPixel) < LINE_HIT_THRESHOLD) {
+          return { ruleId: rule.id, edge: 'start' }
+        }
+        if (endPixel !== null && Math.abs(pixelX - endPixel) < LINE_HIT_THRESHOLD) {
+          return { ruleId: rule.id, edge: 'end' }
+        }
+      }
+      return null
+    },
+    [overpaymentRules, periodIndexToPixel]
+  )
+
+  // Move the dragged rule end to a pixel position
+  const dragRuleEdge = useCallback(
+    (ruleEdge: RuleEdge, pixelX: number) => {
+      const periodIndex = pixelToPeriodIndex(pixelX)
+      if (periodIndex === null) return
+      updateRule(ruleEdge.ruleId, ruleEdge.edge === 'start' ? { startPeriod: periodIndex } : { endPeriod: periodIndex })
+    },
+    [pixelToPeriodIndex, updateRule]
+  )
+
   // Handle chart click
   const handleChartClick = useCallback(
     (event: React.MouseEvent<HTMLCanvasElement>) => {
@@ -139,6 +185,9 @@ export const InteractiveBalanceChart: React.FC<InteractiveBalanceChartProps> = (
       // Check if clicking on existing overpayment line
       const existingOp = findOverpaymentAtPixel(x)
 
+      // Rule ends are only dragged, so a click there (or the end of a drag) adds nothing
+      if (!existingOp && findRuleEdgeAtPixel(x)) return
+
       if (existingOp) {
         // Edit existing overpayment
         setPendingOverpayment({ ...existingOp })
@@ -166,7 +215,7 @@ export const InteractiveBalanceChart: React.FC<InteractiveBalanceChartProps> = (
         setPopoverAnchor(chart.canvas)
       }
     },
-    [dragState.isDragging, findOverpaymentAtPixel, pixelToPeriodIndex, startDate, setEditingId]
+    [dragState.isDragging, findOverpaymentAtPixel, findRuleEdgeAtPixel, pixelToPeriodIndex, startDate, setEditingId]
   )
 
   // Handle mouse down for drag
@@ -183,9 +232,17 @@ export const InteractiveBalanceChart: React.FC<InteractiveBalanceChartProps> = (
         setDragState({ isDragging: true, overpaymentId: overpayment.id })
         setDragging(overpayment.id, true)
         event.preventDefault()
+        return
+      }
+
+      const ruleEdge = findRuleEdgeAtPixel(x)
+      if (ruleEdge) {
+        setDragState({ isDragging: true, overpaymentId: null, ruleEdge })
+        setRuleDragging(true)
+        event.preventDefault()
       }
     },
-    [findOverpaymentAtPixel, setDragging]
+    [findOverpaymentAtPixel, findRuleEdgeAtPixel, setDragging, setRuleDragging]
   )
 
   // Handle mouse move for drag
@@ -201,7 +258,7 @@ export const InteractiveBalanceChart: React.FC<InteractiveBalanceChartProps> = (
       const chartArea = chart.chartArea
       if (x >= chartArea.left && x <= chartArea.right) {
         const overOp = findOverpaymentAtPixel(x)
-        chart.canvas.style.cursor = overOp ? 'grab' : 'crosshair'
+        chart.canvas.style.cursor = overOp ? 'grab' : findRuleEdgeAtPixel(x) ? 'ew-resize' : 'crosshair'
       } else {
         chart.canvas.style.cursor = 'default'
       }
@@ -214,8 +271,12 @@ export const InteractiveBalanceChart: React.FC<InteractiveBalanceChartProps> = (
         }
         chart.canvas.style.cursor = 'grabbing'
       }
+      if (dragState.isDragging && dragState.ruleEdge) {
+        dragRuleEdge(dragState.ruleEdge, x)
+        chart.canvas.style.cursor = 'ew-resize'
+      }
     },
-    [dragState, findOverpaymentAtPixel, pixelToPeriodIndex, updateOverpayment]
+    [dragState, findOverpaymentAtPixel, findRuleEdgeAtPixel, pixelToPeriodIndex, updateOverpayment, dragRuleEdge]
   )
 
   // Handle mouse up for drag end
@@ -223,8 +284,11 @@ export const InteractiveBalanceChart: React.FC<InteractiveBalanceChartProps> = (
     if (dragState.isDragging && dragState.overpaymentId) {
       setDragging(dragState.overpaymentId, false)
     }
+    if (dragState.isDragging && dragState.ruleEdge) {
+      setRuleDragging(false)
+    }
     setDragState({ isDragging: false, overpaymentId: null })
-  }, [dragState, setDragging])
+  }, [dragState, setDragging, setRuleDragging])
 
   // Clear long press timer
   const clearLongPressTimer = useCallback(() => {
@@ -256,6 +320,15 @@ export const InteractiveBalanceChart: React.FC<InteractiveBalanceChartProps> = (
         return
       }
 
+      // Or an end of a recurring rule's range
+      const ruleEdge = findRuleEdgeAtPixel(x)
+      if (ruleEdge) {
+        setDragState({ isDragging: true, overpaymentId: null, ruleEdge })
+        setRuleDragging(true)
+        event.preventDefault()
+        return
+      }
+
       // Start long press timer for adding new overpayment
       clearLongPressTimer()
       longPressTimerRef.current = setTimeout(() => {
@@ -289,7 +362,9 @@ export const InteractiveBalanceChart: React.FC<InteractiveBalanceChartProps> = (
     },
     [
       findOverpaymentAtPixel,
+      findRuleEdgeAtPixel,
       setDragging,
+      setRuleDragging,
       clearLongPressTimer,
       pixelToPeriodIndex,
       startDate,
@@ -323,8 +398,12 @@ export const InteractiveBalanceChart: React.FC<InteractiveBalanceChartProps> = (
           updateOverpayment(dragState.overpaymentId, { periodIndex: newPeriodIndex })
         }
       }
+      if (dragState.isDragging && dragState.ruleEdge) {
+        event.preventDefault()
+        dragRuleEdge(dragState.ruleEdge, x)
+      }
     },
-    [dragState, clearLongPressTimer, pixelToPeriodIndex, updateOverpayment]
+    [dragState, clearLongPressTimer, pixelToPeriodIndex, updateOverpayment, dragRuleEdge]
   )
 
   // Handle touch end - end drag or clear timer
@@ -335,8 +414,11 @@ export const InteractiveBalanceChart: React.FC<InteractiveBalanceChartProps> = (
     if (dragState.isDragging && dragState.overpaymentId) {
       setDragging(dragState.overpaymentId, false)
     }
+    if (dragState.isDragging && dragState.ruleEdge) {
+      setRuleDragging(false)
+    }
     setDragState({ isDragging: false, overpaymentId: null })
-  }, [dragState, setDragging, clearLongPressTimer])
+  }, [dragState, setDragging, setRuleDragging, clearLongPressTimer])
 
   // Handle popover amount change
   const handleAmountChange = useCallback((amount: number) => {
@@ -362,6 +444,7 @@ export const InteractiveBalanceChart: React.FC<InteractiveBalanceChartProps> = (
   const handlePopoverDelete = useCallback(() => {
     if (pendingOverpayment && !isNewOverpayment) {
       removeOverpayment(pendingOverpayment.id)
+      setDeletedLabel(pendingOverpayment.dateLabel)
     }
     setPopoverAnchor(null)
     setPendingOverpayment(null)
@@ -407,7 +490,31 @@ export const InteractiveBalanceChart: React.FC<InteractiveBalanceChartProps> = (
   // Chart options with annotations
   const options: ChartOptions<'line'> = useMemo(() => {
     // Create annotations for all overpayments
-    const annotations: Record<string, ReturnType<typeof createOverpaymentAnnotation>> = {}
+    const annotations: Record<
+      string,
+      | ReturnType<typeof createOverpaymentAnnotation>
+      | ReturnType<typeof createShortfallAnnotation>
+      | ReturnType<typeof createOverpaymentRuleAnnotation>
+    > = {}
+
+    // Recurring rules sit beneath the individual overpayment lines
+    for (const rule of overpaymentRules) {
+      annotations[rule.id] = createOverpaymentRuleAnnotation(
+        periodIndexToDate(rule.startPeriod, startDate),
+        periodIndexToDate(rule.endPeriod, startDate),
+        formatOverpaymentRule(rule),
+        rule.id,
+        dragState.ruleEdge?.ruleId === rule.id
+      )
+    }
+
+    if (termEndShortfall) {
+      annotations['term-end-shortfall'] = createShortfallAnnotation(
+        yearsToDate(termEndShortfall.month / 12, startDate),
+        termEndShortfall.amount,
+        termEndShortfall.covered
+      )
+    }
 
     for (const op of chartOverpayments) {
       const date = periodIndexToDate(op.periodIndex, startDate)
@@ -503,7 +610,18 @@ export const InteractiveBalanceChart: React.FC<InteractiveBalanceChartProps> = (
       // Disable built-in click handler
       onClick: undefined,
     }
-  }, [chartOverpayments, editingId, startDate, pendingOverpayment, isNewOverpayment, startingAge, years])
+  }, [
+    chartOverpayments,
+    overpaymentRules,
+    dragState.ruleEdge,
+    editingId,
+    startDate,
+    pendingOverpayment,
+    isNewOverpayment,
+    startingAge,
+    years,
+    termEndShortfall,
+  ])
 
   return (
     <Box ref={containerRef} sx={{ position: 'relative', width: '100%', height: '100%', touchAction: 'pan-y', WebkitTapHighlightColor: 'transparent' }}>
@@ -548,6 +666,28 @@ export const InteractiveBalanceChart: React.FC<InteractiveBalanceChartProps> = (
         onDelete={handlePopoverDelete}
         onClose={handlePopoverClose}
       />
+
+      <Snackbar
+        open={deletedLabel !== null}
+        autoHideDuration={6000}
+        onClose={() => setDeletedLabel(null)}
+        message={`Removed ${deletedLabel ?? ''} overpayment`}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+        action={
+          onUndo && (
+            <Button
+              color="inherit"
+              size="small"
+              onClick={() => {
+                onUndo()
+                setDeletedLabel(null)
+              }}
+            >
+              Undo
+            </Button>
+          )
+        }
+      />
     </Box>
   )
 }
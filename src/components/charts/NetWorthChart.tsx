@@ -8,16 +8,19 @@ import {
   formatCurrencyAbbreviated,
   yearsToDate,
   formatDateLabel,
+  createPercentileBandDatasets,
 } from '../../utils/chartSetup'
+import type { PercentileBands } from '../../services/monteCarlo'
 
 interface NetWorthChartProps {
   years: number[]
   netWorth: number[]
   startDate: string
   birthYear?: number
+  bands?: PercentileBands // Monte Carlo percentiles, sampled like netWorth
 }
 
-export const NetWorthChart: React.FC<NetWorthChartProps> = ({ years, netWorth, startDate, birthYear }) => {
+export const NetWorthChart: React.FC<NetWorthChartProps> = ({ years, netWorth, startDate, birthYear, bands }) => {
   // Calculate starting age if birth year is provided
   const startingAge = birthYear ? new Date(startDate).getFullYear() - birthYear : undefined
   const data = useMemo(() => {
@@ -31,12 +34,15 @@ export const NetWorthChart: React.FC<NetWorthChartProps> = ({ years, netWorth, s
           data: netWorth,
           borderColor: chartColors.netWorth,
           backgroundColor: `${chartColors.netWorth}20`,
-          fill: true,
+          fill: !bands,
           tension: 0,
         },
+        ...(bands
+          ? createPercentileBandDatasets(bands.p10, bands.p50, bands.p90, chartColors.netWorth, 'Net Worth')
+          : []),
       ],
     }
-  }, [years, netWorth, startDate])
+  }, [years, netWorth, startDate, bands])
 
   const options: ChartOptions<'line'> = useMemo(
     () => ({
@@ -60,7 +66,7 @@ export const NetWorthChart: React.FC<NetWorthChartProps> = ({ years, netWorth, s
               return ''
             },
             label: (context) => {
-              return `Net Worth: ${formatCurrency(context.parsed.y ?? 0)}`
+              return `${context.dataset.label}: ${formatCurrency(context.parsed.y ?? 0)}`
             },
           },
         },
@@ -0,0 +1,119 @@
+import React, { useMemo } from 'react'
+import { Line } from 'react-chartjs-2'
+import type { ChartOptions } from 'chart.js'
+import {
+  chartColors,
+  commonChartOptions,
+  formatCurrency,
+  formatCurrencyAbbreviated,
+  yearsToDate,
+  formatDateLabel,
+} from '../../utils/chartSetup'
+
+interface OffsetComparisonChartProps {
+  years: number[]
+  mortgageBalance: number[]
+  nonOffsetMortgageBalance: number[]
+  netWorth: number[]
+  nonOffsetNetWorth: number[]
+  startDate: string
+}
+
+export const OffsetComparisonChart: React.FC<OffsetComparisonChartProps> = ({
+  years,
+  mortgageBalance,
+  nonOffsetMortgageBalance,
+  netWorth,
+  nonOffsetNetWorth,
+  startDate,
+}) => {
+  const data = useMemo(() => {
+    const dates = years.map((y) => yearsToDate(y, startDate))
+
+    return {
+      labels: dates,
+      datasets: [
+        {
+          label: 'Mortgage Balance (offset)',
+          data: mortgageBalance,
+          borderColor: chartColors.mortgageBalance,
+          backgroundColor: `${chartColors.mortgageBalance}20`,
+          fill: false,
+          tension: 0,
+        },
+        {
+          label: 'Mortgage Balance (no offset)',
+          data: nonOffsetMortgageBalance,
+          borderColor: chartColors.mortgageBalance,
+          borderDash: [6, 4],
+          fill: false,
+          tension: 0,
+        },
+        {
+          label: 'Net Worth (offset)',
+          data: netWorth,
+          borderColor: chartColors.netWorth,
+          backgroundColor: `${chartColors.netWorth}20`,
+          fill: false,
+          tension: 0,
+        },
+        {
+          label: 'Net Worth (no offset)',
+          data: nonOffsetNetWorth,
+          borderColor: chartColors.netWorth,
+          borderDash: [6, 4],
+          fill: false,
+          tension: 0,
+        },
+      ],
+    }
+  }, [years, mortgageBalance, nonOffsetMortgageBalance, netWorth, nonOffsetNetWorth, startDate])
+
+  const options: ChartOptions<'line'> = useMemo(
+    () => ({
+      ...commonChartOptions,
+      plugins: {
+        ...commonChartOptions.plugins,
+        tooltip: {
+          ...commonChartOptions.plugins.tooltip,
+          callbacks: {
+            title: (items) => {
+              if (items.length > 0 && items[0].parsed.x !== null) {
+                return formatDateLabel(new Date(items[0].parsed.x))
+              }
+              return ''
+            },
+            label: (context) => {
+              return `${context.dataset.label}: ${formatCurrency(context.parsed.y ?? 0)}`
+            },
+          },
+        },
+      },
+      scales: {
+        x: {
+          ...commonChartOptions.scales.x,
+          type: 'time',
+          time: {
+            unit: 'quarter',
+            displayFormats: {
+              quarter: 'MMM yyyy',
+            },
+          },
+          ticks: {
+            ...commonChartOptions.scales.x.ticks,
+          },
+        },
+        y: {
+          ...commonChartOptions.scales.y,
+          ticks: {
+            ...commonChartOptions.scales.y.ticks,
+            callback: (value) => formatCurrencyAbbreviated(value as number),
+          },
+        },
+      },
+    }),
+    []
+  )
+
+  return <Line data={data} options={options} />
+}
@@ -13,6 +13,8 @@ import {
 interface PaymentScheduleChartProps {
   years: number[]
   monthlyPayments: number[]
+  mortgageRate?: number[] // Annual mortgage rate per point, plotted on a secondary axis
+  baseRate?: number[] // Projected base rate per point
   startDate: string
   birthYear?: number
 }
@@ -20,9 +22,12 @@ interface PaymentScheduleChartProps {
 export const PaymentScheduleChart: React.FC<PaymentScheduleChartProps> = ({
   years,
   monthlyPayments,
+  mortgageRate,
+  baseRate,
   startDate,
   birthYear,
 }) => {
+  const showRates = (mortgageRate?.length ?? 0) > 0
   // Calculate starting age if birth year is provided
   const startingAge = birthYear ? new Date(startDate).getFullYear() - birthYear : undefined
   const data = useMemo(() => {
@@ -38,10 +43,40 @@ export const PaymentScheduleChart: React.FC<PaymentScheduleChartProps> = ({
           backgroundColor: `${chartColors.monthlyPayment}20`,
           fill: true,
           tension: 0,
+          yAxisID: 'y',
         },
+        ...(mortgageRate && mortgageRate.length > 0
+          ? [
+              {
+                label: 'Mortgage Rate',
+                data: mortgageRate,
+                borderColor: chartColors.mortgageBalance,
+                backgroundColor: 'transparent',
+                fill: false,
+                tension: 0,
+                borderWidth: 1.5,
+                yAxisID: 'yRate',
+              },
+            ]
+          : []),
+        ...(baseRate && baseRate.length > 0
+          ? [
+              {
+                label: 'Base Rate',
+                data: baseRate,
+                borderColor: chartColors.netWorth,
+                backgroundColor: 'transparent',
+                borderDash: [4, 4],
+                fill: false,
+                tension: 0,
+                borderWidth: 1.5,
+                yAxisID: 'yRate',
+              },
+            ]
+          : []),
       ],
     }
-  }, [years, monthlyPayments, startDate])
+  }, [years, monthlyPayments, mortgageRate, baseRate, startDate])
 
   const options: ChartOptions<'line'> = useMemo(
     () => ({
@@ -65,6 +100,9 @@ export const PaymentScheduleChart: React.FC<PaymentScheduleChartProps> = ({
               return ''
             },
             label: (context) => {
+              if (context.dataset.yAxisID === 'yRate') {
+                return `${context.dataset.label}: ${(context.parsed.y ?? 0).toFixed(2)}%`
+              }
               return `Monthly Payment: ${formatCurrency(context.parsed.y ?? 0)}`
             },
           },
@@ -110,9 +148,20 @@ export const PaymentScheduleChart: React.FC<PaymentScheduleChartProps> = ({
             callback: (value) => formatYAxisPayment(value as number),
           },
         },
+        yRate: showRates ? {
+          type: 'linear' as const,
+          position: 'right' as const,
+          min: 0,
+          grid: {
+            display: false,
+          },
+          ticks: {
+            callback: (value) => `${value}%`,
+          },
+        } : undefined,
       },
     }),
-    [startingAge, startDate, years]
+    [startingAge, startDate, years, showRates]
   )
 
   return <Line data={data} options={options} />
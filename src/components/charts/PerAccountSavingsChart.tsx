@@ -8,8 +8,10 @@ import {
   yearsToDate,
   formatDateLabel,
   getAccountColor,
+  createPercentileBandDatasets,
 } from '../../utils/chartSetup'
 import type { AccountChartData } from '../../types/mortgage'
+import type { PercentileBands } from '../../services/monteCarlo'
 
 interface PerAccountSavingsChartProps {
   years: number[]
@@ -17,6 +19,7 @@ interface PerAccountSavingsChartProps {
   selectedAccounts: string[]
   startDate: string
   birthYear?: number
+  bands?: Record<string, PercentileBands> // Monte Carlo percentiles per account name, monthly
 }
 
 export const PerAccountSavingsChart: React.FC<PerAccountSavingsChartProps> = ({
@@ -25,41 +28,54 @@ export const PerAccountSavingsChart: React.FC<PerAccountSavingsChartProps> = ({
   selectedAccounts,
   startDate,
   birthYear,
+  bands,
 }) => {
   const startingAge = birthYear ? new Date(startDate).getFullYear() - birthYear : undefined
 
   const data = useMemo(() => {
     const dates = years.map((y) => yearsToDate(y, startDate))
 
+    // Sample monthly series to match years array
+    const sample = (series: number[]) =>
+      years.map((year) => {
+        const monthIndex = Math.round(year * 12)
+        return series[monthIndex] ?? series[series.length - 1] ?? 0
+      })
+
     // Filter accounts by selection and create datasets
     const datasets = accounts
       .filter((account) => selectedAccounts.includes(account.name))
-      .map((account) => {
+      .flatMap((account) => {
         const originalIndex = accounts.findIndex((a) => a.name === account.name)
         const color = getAccountColor(originalIndex)
+        const accountBands = bands?.[account.name]
 
-        // Sample account balance data to match years array
-        // The account.balance array corresponds to monthly data, so we need to sample it
-        const sampledBalance = years.map((year) => {
-          const monthIndex = Math.round(year * 12)
-          return account.balance[monthIndex] ?? account.balance[account.balance.length - 1] ?? 0
-        })
-
-        return {
-          label: account.name,
-          data: sampledBalance,
-          borderColor: color,
-          backgroundColor: `${color}20`,
-          fill: false,
-          tension: 0,
-        }
+        return [
+          {
+            label: account.name,
+            data: sample(account.balance),
+            borderColor: color,
+            backgroundColor: `${color}20`,
+            fill: false,
+            tension: 0,
+          },
+          ...(accountBands
+            ? createPercentileBandDatasets(
+                sample(accountBands.p10),
+                sample(accountBands.p50),
+                sample(accountBands.p90),
+                color,
+                account.name
+              )
+            : []),
+        ]
       })
 
     return {
       labels: dates,
       datasets,
     }
-  }, [years, accounts, selectedAccounts, startDate])
+  }, [years, accounts, selectedAccounts, startDate, bands])
 
   const options: ChartOptions<'line'> = useMemo(
     () => ({
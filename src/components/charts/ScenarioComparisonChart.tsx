@@ -0,0 +1,108 @@
+import React, { useMemo } from 'react'
+import { Line } from 'react-chartjs-2'
+import type { ChartOptions } from 'chart.js'
+import {
+  commonChartOptions,
+  formatCurrency,
+  formatCurrencyAbbreviated,
+  getScenarioColor,
+} from '../../utils/chartSetup'
+import type { ChartData, SummaryStatistics } from '../../types/mortgage'
+
+// One simulated scenario to overlay on the comparison chart
+export interface ScenarioSeries {
+  id: string
+  name: string
+  chartData: ChartData
+  summaryStats: SummaryStatistics
+}
+
+export type ComparisonMetric = 'mortgage_balance' | 'savings_balance' | 'net_worth'
+
+interface ScenarioComparisonChartProps {
+  scenarios: ScenarioSeries[]
+  metric: ComparisonMetric
+}
+
+export const ScenarioComparisonChart: React.FC<ScenarioComparisonChartProps> = ({
+  scenarios,
+  metric,
+}) => {
+  // Scenarios may start on different dates, so series are aligned on years from start
+  const data = useMemo(
+    () => ({
+      datasets: scenarios.map((scenario, index) => {
+        const color = getScenarioColor(index)
+        return {
+          label: scenario.name,
+          data: scenario.chartData.years.map((year, i) => ({
+            x: year,
+            y: scenario.chartData[metric][i],
+          })),
+          borderColor: color,
+          backgroundColor: `${color}20`,
+          fill: false,
+          tension: 0,
+          borderWidth: 2,
+        }
+      }),
+    }),
+    [scenarios, metric]
+  )
+
+  const options: ChartOptions<'line'> = useMemo(
+    () => ({
+      ...commonChartOptions,
+      plugins: {
+        ...commonChartOptions.plugins,
+        tooltip: {
+          ...commonChartOptions.plugins.tooltip,
+          callbacks: {
+            title: (items) => {
+              if (items.length > 0) {
+                const year = items[0].parsed.x ?? 0
+                return `Year ${year.toFixed(1)}`
+              }
+              return ''
+            },
+            label: (context) => {
+              return `${context.dataset.label}: ${formatCurrency(context.parsed.y ?? 0)}`
+            },
+          },
+        },
+      },
+      scales: {
+        x: {
+          ...commonChartOptions.scales.x,
+          type: 'linear',
+          min: 0,
+          title: {
+            display: true,
+            text: 'Years from start',
+            font: { size: 11 },
+          },
+          ticks: {
+            ...commonChartOptions.scales.x.ticks,
+            stepSize: 1,
+            maxRotation: 0,
+            minRotation: 0,
+          },
+        },
+        y: {
+          ...commonChartOptions.scales.y,
+          ticks: {
+            ...commonChartOptions.scales.y.ticks,
+            callback: (value) => formatCurrencyAbbreviated(value as number),
+          },
+        },
+      },
+    }),
+    []
+  )
+
+  if (data.datasets.length === 0) {
+    return null
+  }
+
+  return <Line data={data} options={options} />
+}
@@ -5,3 +5,6 @@ export { LTVChart } from './LTVChart'
 export { OverpaymentPopover } from './OverpaymentPopover'
 export { PerAccountSavingsChart } from './PerAccountSavingsChart'
 export { MonthlySavingsChart } from './MonthlySavingsChart'
+export { OffsetComparisonChart } from './OffsetComparisonChart'
+export { ScenarioComparisonChart } from './ScenarioComparisonChart'
+export type { ScenarioSeries, ComparisonMetric } from './ScenarioComparisonChart'
@@ -1,11 +1,16 @@
-import { useRef, useCallback, useState } from 'react'
-import { useMutation } from '@tanstack/react-query'
-import { MortgageApiService } from '../services/mortgageApi'
+import { useRef, useCallback, useState, useEffect } from 'react'
+import { keepPreviousData, skipToken, useQuery, useQueryClient } from '@tanstack/react-query'
+import type { QueryClient } from '@tanstack/react-query'
+import { getDefaultTransport, isAbortError } from '../services/simulationTransport'
+import type { SimulationTransport } from '../services/simulationTransport'
+import { simulationQueryKey } from '../services/simulationCache'
 import type { SimulationRequest, SimulationResponse } from '../types/mortgage'
 
 interface UseDebouncedSimulationOptions {
   debounceMs?: number
-  onSuccess?: (data: SimulationResponse) => void
+  // Simulation backend; defaults to the transport selected by VITE_SIMULATION_BACKEND
+  transport?: SimulationTransport
+  onSuccess?: (data: SimulationResponse, request: SimulationRequest) => void
   onError?: (error: Error) => void
 }
 
@@ -19,23 +24,95 @@ interface UseDebouncedSimulationReturn {
   isDebouncing: boolean
 }
 
+// A submitted request; the id tells repeated submissions of the same request apart
+interface Submission {
+  id: number
+  request: SimulationRequest
+}
+
+// Simulations kept in memory once nothing shows them; the IndexedDB cache keeps more across reloads
+const MAX_CACHED_SIMULATIONS = 30
+const SIMULATION_GC_TIME = 30 * 60 * 1000
+
+// Drop the least recently updated unobserved simulations beyond the limit
+const pruneSimulationQueries = (queryClient: QueryClient) => {
+  const unused = queryClient
+    .getQueryCache()
+    .findAll({ queryKey: ['simulation'], predicate: (query) => query.getObserversCount() === 0 })
+    .sort((a, b) => b.state.dataUpdatedAt - a.state.dataUpdatedAt)
+  unused.slice(MAX_CACHED_SIMULATIONS).forEach((query) => queryClient.getQueryCache().remove(query))
+}
+
+/**
+ * Runs simulations through react-query, keyed by a canonical hash of the request. Returning to
+ * an earlier request is served from the cache, identical requests in flight share one run, and
+ * runs nothing shows any more are aborted.
+ */
 export const useDebouncedSimulation = (
   options: UseDebouncedSimulationOptions = {}
 ): UseDebouncedSimulationReturn => {
-  const { debounceMs = 500, onSuccess, onError } = options
+  const { debounceMs = 500, transport = getDefaultTransport(), onSuccess, onError } = options
+  const queryClient = useQueryClient()
   const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
   const [isDebouncing, setIsDebouncing] = useState(false)
+  const [submission, setSubmission] = useState<Submission | null>(null)
 
-  const mutation = useMutation({
-    mutationFn: MortgageApiService.simulate,
-    onSuccess: (data) => {
-      onSuccess?.(data)
-    },
-    onError: (error) => {
-      onError?.(error as Error)
-    },
+  const request = submission?.request
+  const query = useQuery({
+    queryKey: request ? simulationQueryKey(request) : ['simulation', null],
+    queryFn: request ? ({ signal }) => transport.run(request, signal) : skipToken,
+    staleTime: Infinity,
+    gcTime: SIMULATION_GC_TIME,
+    // Keep showing the last result while the next one runs
+    placeholderData: keepPreviousData,
+    // Failures are reported straight away; offline runs are retried by the page once back online
+    retry: false,
+    refetchOnReconnect: false,
+    // Run even when the browser reports no connection, so the transport can fall back or fail
+    networkMode: 'always',
   })
 
+  // Keep callbacks in refs so a run always reports to the latest handlers
+  const onSuccessRef = useRef(onSuccess)
+  const onErrorRef = useRef(onError)
+  useEffect(() => {
+    onSuccessRef.current = onSuccess
+    onErrorRef.current = onError
+  }, [onSuccess, onError])
+
+  // Report each submission once it settles, including those answered from the cache
+  const reportedRef = useRef<string | null>(null)
+  const { data, error, status, isFetching, isPlaceholderData, dataUpdatedAt, errorUpdatedAt } = query
+  useEffect(() => {
+    if (!submission || isFetching || isPlaceholderData) return
+    if (status === 'success') {
+      const tag = `${submission.id}:success:${dataUpdatedAt}`
+      if (reportedRef.current === tag) return
+      reportedRef.current = tag
+      onSuccessRef.current?.(data, submission.request)
+    } else if (status === 'error' && !isAbortError(error)) {
+      const tag = `${submission.id}:error:${errorUpdatedAt}`
+      if (reportedRef.current === tag) return
+      reportedRef.current = tag
+      onErrorRef.current?.(error)
+    }
+  }, [submission, data, error, status, isFetching, isPlaceholderData, dataUpdatedAt, errorUpdatedAt])
+
+  const submit = useCallback(
+    (request: SimulationRequest) => {
+      setSubmission((previous) => ({ id: (previous?.id ?? 0) + 1, request }))
+
+      // A failed request is not re-run by resubmitting its key, so refetch it explicitly
+      const queryKey = simulationQueryKey(request)
+      const state = queryClient.getQueryState(queryKey)
+      if (state?.status === 'error' && state.fetchStatus === 'idle') {
+        void queryClient.refetchQueries({ queryKey, exact: true })
+      }
+      pruneSimulationQueries(queryClient)
+    },
+    [queryClient]
+  )
+
   const cancelPending = useCallback(() => {
     if (timeoutRef.current) {
       clearTimeout(timeoutRef.current)
@@ -53,28 +130,34 @@ export const useDebouncedSimulation = (
 
       timeoutRef.current = setTimeout(() => {
         setIsDebouncing(false)
-        mutation.mutate(request)
+        submit(request)
       }, debounceMs)
     },
-    [mutation, debounceMs, cancelPending]
+    [submit, debounceMs, cancelPending]
   )
 
   // Direct mutate without debouncing (for initial load, form submit)
   const mutate = useCallback(
     (request: SimulationRequest) => {
       cancelPending()
-      mutation.mutate(request)
+      submit(request)
     },
-    [mutation, cancelPending]
+    [submit, cancelPending]
   )
 
+  useEffect(() => {
+    return () => {
+      if (timeoutRef.current) clearTimeout(timeoutRef.current)
+    }
+  }, [])
+
   return {
     debouncedMutate,
     mutate,
     cancelPending,
-    data: mutation.data,
-    error: mutation.error as Error | null,
-    isPending: mutation.isPending,
+    data,
+    error: error && !isAbortError(error) ? error : null,
+    isPending: isFetching,
     isDebouncing,
   }
 }
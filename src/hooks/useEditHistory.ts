@@ -0,0 +1,138 @@
+import { useRef, useCallback, useEffect, useMemo, useSyncExternalStore } from 'react'
+import { useHistoryStore } from '../store/historyStore'
+import type { HistorySnapshot } from '../store/historyStore'
+import { useOverpaymentStore } from '../store/overpaymentStore'
+import type { MortgageFormData } from '../utils/validation'
+
+// Edits closer together than this become one history entry (drags, form debounce, scenario loads)
+const COALESCE_MS = 800
+
+interface UseEditHistoryReturn {
+  undo: () => void
+  redo: () => void
+  canUndo: boolean
+  canRedo: boolean
+}
+
+const isSameSnapshot = (a: HistorySnapshot, b: HistorySnapshot): boolean =>
+  JSON.stringify(a) === JSON.stringify(b)
+
+// Text fields keep the browser's own undo
+const isTextInput = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')
+
+/**
+ * Records form and overpayment edits into the persisted history and restores them on
+ * undo/redo, including via Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y).
+ * `applyFormData` must push restored values into the form and re-run the simulation.
+ */
+export const useEditHistory = (
+  formData: MortgageFormData,
+  applyFormData: (formData: MortgageFormData) => void
+): UseEditHistoryReturn => {
+  const { chartOverpayments, overpaymentRules, isDragging, replaceAll, replaceRules } = useOverpaymentStore()
+  const { past, future, record, undo: popUndo, redo: popRedo } = useHistoryStore()
+
+  // Dragging flags are transient, so they are never part of a snapshot
+  const current = useMemo<HistorySnapshot>(
+    () => ({
+      formData,
+      chartOverpayments: chartOverpayments.map((op) => ({ ...op, isDragging: false })),
+      overpaymentRules,
+    }),
+    [formData, chartOverpayments, overpaymentRules]
+  )
+  // Stored overpayments load asynchronously; that first load is not an edit
+  const hydrated = useSyncExternalStore(
+    useOverpaymentStore.persist.onFinishHydration,
+    useOverpaymentStore.persist.hasHydrated
+  )
+
+  // State as of the last history entry; edits since then are pending until the timer fires
+  const committedRef = useRef<HistorySnapshot | null>(null)
+  const currentRef = useRef(current)
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  // Set while the changes caused by undo/redo settle, so they are not recorded as a new edit
+  const restoringRef = useRef(false)
+
+  const clearTimer = useCallback(() => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current)
+      timerRef.current = null
+    }
+  }, [])
+
+  // Close off pending edits as one history entry
+  const commit = useCallback(() => {
+    clearTimer()
+    const latest = currentRef.current
+    const committed = committedRef.current
+    if (committed && !restoringRef.current && !isSameSnapshot(committed, latest)) {
+      record(committed)
+    }
+    restoringRef.current = false
+    committedRef.current = latest
+  }, [clearTimer, record])
+
+  useEffect(() => {
+    currentRef.current = current
+    if (!committedRef.current || !hydrated) {
+      committedRef.current = current
+      return
+    }
+    clearTimer()
+    // A drag is committed once the line is dropped
+    if (!isDragging) timerRef.current = setTimeout(commit, COALESCE_MS)
+  }, [current, hydrated, isDragging, clearTimer, commit])
+
+  useEffect(() => clearTimer, [clearTimer])
+
+  const restore = useCallback(
+    (snapshot: HistorySnapshot) => {
+      restoringRef.current = true
+      committedRef.current = snapshot
+      replaceAll(snapshot.chartOverpayments)
+      replaceRules(snapshot.overpaymentRules)
+      if (JSON.stringify(snapshot.formData) !== JSON.stringify(currentRef.current.formData)) {
+        applyFormData(snapshot.formData)
+      }
+      // Settle even if restoring changed nothing observable
+      clearTimer()
+      timerRef.current = setTimeout(commit, COALESCE_MS)
+    },
+    [replaceAll, replaceRules, applyFormData, clearTimer, commit]
+  )
+
+  const undo = useCallback(() => {
+    // Flush first so an edit made moments ago is the one undone
+    commit()
+    const snapshot = popUndo(currentRef.current)
+    if (snapshot) restore(snapshot)
+  }, [commit, popUndo, restore])
+
+  const redo = useCallback(() => {
+    commit()
+    const snapshot = popRedo(currentRef.current)
+    if (snapshot) restore(snapshot)
+  }, [commit, popRedo, restore])
+
+  // Keyboard shortcuts
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isTextInput(event.target)) return
+      const key = event.key.toLowerCase()
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault()
+        undo()
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault()
+        redo()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [undo, redo])
+
+  return { undo, redo, canUndo: past.length > 0, canRedo: future.length > 0 }
+}
@@ -0,0 +1,86 @@
+import { useQuery } from '@tanstack/react-query'
+import { createAbortError } from '../services/simulationTransport'
+import { runMonteCarlo } from '../services/monteCarlo'
+import type {
+  MonteCarloOptions,
+  MonteCarloResult,
+  MonteCarloWorkerRequest,
+  MonteCarloWorkerResponse,
+} from '../services/monteCarlo'
+import type { SimulationRequest } from '../types/mortgage'
+
+interface UseMonteCarloReturn {
+  result: MonteCarloResult | null
+  isLoading: boolean
+  error: Error | null
+}
+
+/**
+ * Run the projection in a dedicated worker; aborting terminates it. Falls back to the
+ * main thread where workers are unavailable.
+ */
+const runInWorker = (
+  request: SimulationRequest,
+  options: MonteCarloOptions,
+  signal: AbortSignal
+): Promise<MonteCarloResult> => {
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve().then(() => runMonteCarlo(request, options))
+  }
+
+  return new Promise<MonteCarloResult>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(createAbortError())
+      return
+    }
+
+    const worker = new Worker(new URL('../workers/monteCarlo.worker.ts', import.meta.url), {
+      type: 'module',
+    })
+    const finish = () => {
+      worker.terminate()
+      signal.removeEventListener('abort', onAbort)
+    }
+    const onAbort = () => {
+      finish()
+      reject(createAbortError())
+    }
+
+    worker.onmessage = (event: MessageEvent<MonteCarloWorkerResponse>) => {
+      finish()
+      const message = event.data
+      if ('result' in message) {
+        resolve(message.result)
+      } else {
+        reject(new Error(message.error))
+      }
+    }
+    worker.onerror = (event) => {
+      finish()
+      reject(new Error(event.message || 'Monte Carlo worker failed'))
+    }
+    signal.addEventListener('abort', onAbort, { once: true })
+
+    const message: MonteCarloWorkerRequest = { request, options }
+    worker.postMessage(message)
+  })
+}
+
+/**
+ * Percentile bands for a request under random savings returns and rate paths.
+ * Always runs on the local engine, whatever the configured backend.
+ */
+export const useMonteCarlo = (
+  request: SimulationRequest | null,
+  options: MonteCarloOptions,
+  enabled: boolean
+): UseMonteCarloReturn => {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['monte-carlo', request, options],
+    queryFn: ({ signal }) => runInWorker(request as SimulationRequest, options, signal),
+    enabled: enabled && request !== null,
+    staleTime: Infinity,
+  })
+
+  return { result: data ?? null, isLoading: enabled && isLoading, error: error as Error | null }
+}
@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { getLastResult, saveLastResult } from '../services/simulationCache'
+import { isNetworkError } from '../services/simulationTransport'
+import type { SimulationResponse } from '../types/mortgage'
+
+interface UseOfflineResultsReturn {
+  staleSince: number | null // When the results on screen were produced, while they may be out of date
+  saveResult: (result: SimulationResponse) => void
+  // Last result for the scenario when `error` means the API was unreachable, otherwise undefined
+  restoreResult: (error: unknown) => Promise<SimulationResponse | undefined>
+}
+
+/**
+ * Keeps the last result for each scenario so something useful is shown when the API can't be
+ * reached, and calls `retry` once the connection returns. `scenarioKey` identifies the
+ * scenario on screen, e.g. the active saved scenario's id.
+ */
+export const useOfflineResults = (scenarioKey: string, retry: () => void): UseOfflineResultsReturn => {
+  const [staleSince, setStaleSince] = useState<number | null>(null)
+  // Set while a run has failed for lack of a connection, so it is re-run when one returns
+  const queuedRef = useRef(false)
+
+  const retryRef = useRef(retry)
+  useEffect(() => {
+    retryRef.current = retry
+  }, [retry])
+
+  useEffect(() => {
+    const handleOnline = () => {
+      if (!queuedRef.current) return
+      queuedRef.current = false
+      retryRef.current()
+    }
+    window.addEventListener('online', handleOnline)
+    return () => window.removeEventListener('online', handleOnline)
+  }, [])
+
+  const saveResult = useCallback(
+    (result: SimulationResponse) => {
+      queuedRef.current = false
+      setStaleSince(null)
+      void saveLastResult(scenarioKey, result)
+    },
+    [scenarioKey]
+  )
+
+  const restoreResult = useCallback(
+    async (error: unknown) => {
+      if (!isNetworkError(error)) return undefined
+      queuedRef.current = true
+      const last = await getLastResult(scenarioKey)
+      if (!last) return undefined
+      setStaleSince(last.savedAt)
+      return last.result
+    },
+    [scenarioKey]
+  )
+
+  return { staleSince, saveResult, restoreResult }
+}
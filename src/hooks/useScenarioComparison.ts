@@ -0,0 +1,69 @@
+import { useMemo } from 'react'
+import { useQueries } from '@tanstack/react-query'
+import { transformFormDataToRequest } from '../services/mortgageApi'
+import { getDefaultTransport } from '../services/simulationTransport'
+import { simulationQueryKey } from '../services/simulationCache'
+import { overpaymentsToApiString } from '../store/overpaymentStore'
+import type { Scenario } from '../store/scenarioStore'
+import type { ScenarioSeries } from '../components/charts'
+import type { SimulationRequest } from '../types/mortgage'
+
+interface UseScenarioComparisonReturn {
+  series: ScenarioSeries[]
+  isLoading: boolean
+  error: Error | null
+}
+
+// Build the request for a saved scenario; chart overpayments replace the form's own schedule
+const buildScenarioRequest = (scenario: Scenario): SimulationRequest => {
+  const request = transformFormDataToRequest(scenario.formData)
+  const overpaymentString = overpaymentsToApiString(
+    scenario.chartOverpayments,
+    scenario.overpaymentRules,
+    scenario.formData.start_date
+  )
+  if (overpaymentString && request.simulation) {
+    request.simulation.overpayments = overpaymentString
+  }
+  return request
+}
+
+/**
+ * Simulate each compared scenario. Results are cached by request, so toggling scenarios in
+ * and out of the comparison does not re-run them, and a scenario matching the form on screen
+ * reuses its result.
+ */
+export const useScenarioComparison = (scenarios: Scenario[]): UseScenarioComparisonReturn => {
+  const requests = useMemo(() => scenarios.map(buildScenarioRequest), [scenarios])
+
+  // combine output is structurally shared, keeping `data` stable between renders
+  const { data, isLoading, error } = useQueries({
+    queries: requests.map((request) => ({
+      queryKey: simulationQueryKey(request),
+      queryFn: ({ signal }: { signal: AbortSignal }) => getDefaultTransport().run(request, signal),
+      staleTime: Infinity,
+    })),
+    combine: (results) => ({
+      data: results.map((result) => result.data),
+      isLoading: results.some((result) => result.isLoading),
+      error: (results.find((result) => result.error)?.error as Error | undefined) ?? null,
+    }),
+  })
+
+  const series = useMemo(() => {
+    const list: ScenarioSeries[] = []
+    data.forEach((response, index) => {
+      if (response && scenarios[index]) {
+        list.push({
+          id: scenarios[index].id,
+          name: scenarios[index].name,
+          chartData: response.chart_data,
+          summaryStats: response.summary_statistics,
+        })
+      }
+    })
+    return list
+  }, [data, scenarios])
+
+  return { series, isLoading, error }
+}
@@ -0,0 +1,65 @@
+import { useMemo } from 'react'
+import { skipToken, useQueries } from '@tanstack/react-query'
+import { getDefaultTransport } from '../services/simulationTransport'
+import { simulationQueryKey } from '../services/simulationCache'
+import { RATE_SHOCKS, applyRateShock, formatShock, summarizeStressResult } from '../services/stressTest'
+import type { StressTestSummary } from '../services/stressTest'
+import type { ScenarioSeries } from '../components/charts'
+import type { SimulationRequest, SimulationResponse } from '../types/mortgage'
+
+interface UseStressTestReturn {
+  series: ScenarioSeries[]
+  summaries: StressTestSummary[]
+  isLoading: boolean
+  error: Error | null
+}
+
+const SHOCKS = [0, ...RATE_SHOCKS]
+
+/**
+ * Re-run a request under each rate shock. The unshocked run comes first so it
+ * anchors the fan chart colours and the table deltas, and shares its cached result with the
+ * main simulation of the same request.
+ */
+export const useStressTest = (request: SimulationRequest | null, enabled: boolean): UseStressTestReturn => {
+  const shockedRequests = useMemo(
+    () => (request ? SHOCKS.map((shock) => applyRateShock(request, shock)) : null),
+    [request]
+  )
+
+  const { data, isLoading, error } = useQueries({
+    queries: SHOCKS.map((shock, index) => {
+      const shocked = shockedRequests?.[index]
+      return {
+        queryKey: shocked ? simulationQueryKey(shocked) : ['simulation', null, shock],
+        queryFn: shocked
+          ? ({ signal }: { signal: AbortSignal }) => getDefaultTransport().run(shocked, signal)
+          : skipToken,
+        enabled,
+        staleTime: Infinity,
+      }
+    }),
+    combine: (results) => ({
+      data: results.map((result) => result.data),
+      isLoading: results.some((result) => result.isLoading),
+      error: (results.find((result) => result.error)?.error as Error | undefined) ?? null,
+    }),
+  })
+
+  return useMemo(() => {
+    const series: ScenarioSeries[] = []
+    const summaries: StressTestSummary[] = []
+    data.forEach((response: SimulationResponse | undefined, index) => {
+      if (!response) return
+      const shock = SHOCKS[index]
+      series.push({
+        id: `shock-${shock}`,
+        name: formatShock(shock),
+        chartData: response.chart_data,
+        summaryStats: response.summary_statistics,
+      })
+      summaries.push(summarizeStressResult(shock, response))
+    })
+    return { series, summaries, isLoading, error }
+  }, [data, isLoading, error])
+}
@@ -5,6 +5,7 @@ import { ThemeProvider } from '@mui/material/styles'
 import { CssBaseline } from '@mui/material'
 import { Analytics } from '@vercel/analytics/react'
 import { theme } from './theme/theme'
+import { registerServiceWorker } from './utils/serviceWorker'
 import './index.css'
 import App from './App.tsx'
 
@@ -18,6 +19,8 @@ const queryClient = new QueryClient({
   },
 })
 
+registerServiceWorker()
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <ThemeProvider theme={theme}>
@@ -1,6 +1,6 @@
-import React, { useState, useEffect, useMemo } from 'react'
-import { useSearchParams } from 'react-router-dom'
-import { useMutation } from '@tanstack/react-query'
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react'
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom'
+import { useStore } from 'zustand'
 import { track } from '@vercel/analytics'
 import {
   Box,
@@ -15,17 +15,30 @@ import {
 } from '@mui/material'
 import {
   Error,
-  FileDownload,
   TrendingUp,
   Share,
+  CloudOff,
+  Launch,
 } from '@mui/icons-material'
 import { MortgageForm } from '../components/MortgageForm'
 import { MortgageCharts } from '../components/MortgageCharts'
+import { ExportMenu } from '../components/ExportMenu'
+import { DownloadReportButton } from '../components/DownloadReportButton'
 import { Footer } from '../components/Footer'
-import { MortgageApiService, transformFormDataToRequest } from '../services/mortgageApi'
-import { decodeFormDataFromUrl, generateShareableLink, copyToClipboard } from '../utils/urlParser'
+import { SyncConflictNotice } from '../components/SyncConflictNotice'
+import { transformFormDataToRequest } from '../services/mortgageApi'
+import { getSimulationEngine, isNetworkError } from '../services/simulationTransport'
+import type { SimulationEngine } from '../services/simulationTransport'
+import { useDebouncedSimulation } from '../hooks/useDebouncedSimulation'
+import { useOfflineResults } from '../hooks/useOfflineResults'
+import { decodeShareLink, generateShareableLink, copyToClipboard } from '../utils/urlParser'
+import { createPageOverpaymentStore, OverpaymentStoreContext, useOverpaymentStore } from '../store/overpaymentStore'
+import { saveFormData } from '../utils/formStorage'
+import { getMortgageSeoData, DEFAULT_MORTGAGE_SEO } from '../utils/mortgageSeo'
+import { generateStaticOGImagePath, hasStaticOGImage } from '../utils/ogImage'
 import { defaultFormValues } from '../utils/validation'
 import type { MortgageFormData } from '../utils/validation'
+import type { ExportFormat, ExportSource } from '../utils/exportResults'
 import type { SimulationResponse, SimulationRequest } from '../types/mortgage'
 
 // Utility function to safely extract error messages
@@ -39,13 +52,19 @@ const getErrorMessage = (error: unknown): string => {
   return 'Unknown error'
 }
 
-export const DynamicMortgagePage: React.FC = () => {
+interface DynamicMortgagePageProps {
+  slugFormData?: Partial<MortgageFormData> // Values from a /mortgage/:slug route; a share link takes precedence
+}
+
+export const DynamicMortgagePage: React.FC<DynamicMortgagePageProps> = ({ slugFormData }) => {
   const [searchParams] = useSearchParams()
   const [simulationResults, setSimulationResults] = useState<SimulationResponse | null>(null)
+  const [resultEngine, setResultEngine] = useState<SimulationEngine | undefined>(undefined)
   const [warnings, setWarnings] = useState<string[]>([])
   const [currentStartDate, setCurrentStartDate] = useState<string>('')
   const [currentAssetValue, setCurrentAssetValue] = useState<number>(360000)
   const [lastSimulationRequest, setLastSimulationRequest] = useState<SimulationRequest | null>(null)
+  const [currentFormData, setCurrentFormData] = useState<MortgageFormData | null>(null)
   const [hasAutoLoaded, setHasAutoLoaded] = useState(false)
   const [shareSnackbar, setShareSnackbar] = useState<{ open: boolean; message: string; severity: 'success' | 'error' }>({
     open: false,
@@ -53,10 +72,21 @@ export const DynamicMortgagePage: React.FC = () => {
     severity: 'success'
   })
 
-  // Parse URL parameters from base64-encoded `d` param
-  const urlParams = useMemo(() => {
-    return decodeFormDataFromUrl(searchParams)
-  }, [searchParams])
+  // Decode and validate the share payload in the `d` param
+  const sharedScenario = useMemo(() => decodeShareLink(searchParams), [searchParams])
+  const urlParams: Partial<MortgageFormData> = useMemo(
+    () => sharedScenario?.formData ?? slugFormData ?? {},
+    [sharedScenario, slugFormData]
+  )
+
+  // Chart overpayments travel with the link. They stay on this page, apart from the visitor's
+  // own, until the visitor opens the scenario in the simulator; landing pages start with none.
+  const pageOverpaymentStore = useMemo(
+    () => createPageOverpaymentStore(sharedScenario?.chartOverpayments, sharedScenario?.overpaymentRules),
+    [sharedScenario]
+  )
+  const { chartOverpayments, overpaymentRules, toApiString } = useStore(pageOverpaymentStore)
+  const prevOverpaymentsRef = useRef<string | null>(null)
 
   // Track page visits for dynamic mortgage pages
   useEffect(() => {
@@ -91,31 +121,10 @@ export const DynamicMortgagePage: React.FC = () => {
   }, [urlParams, hasUrlParams])
 
   // SEO metadata
-  const seoData = useMemo(() => {
-    if (!urlParams || Object.keys(urlParams).length === 0) {
-      return {
-        title: 'Mortgage Calculator - MortgaSim',
-        description: 'Calculate your mortgage payments with our advanced mortgage simulation tool.',
-        ogTitle: 'Mortgage Calculator - MortgaSim',
-        ogDescription: 'Calculate your mortgage payments with our advanced mortgage simulation tool.',
-      }
-    }
-
-    const { mortgage_amount, term_years, fixed_rate } = urlParams
-    const loanFormatted = mortgage_amount ? `£${(mortgage_amount / 1000).toFixed(0)}k` : ''
-    const termFormatted = term_years ? `${term_years} years` : ''
-    const rateFormatted = fixed_rate ? `${fixed_rate}%` : ''
-
-    const title = `${loanFormatted} Mortgage over ${termFormatted} at ${rateFormatted} - MortgaSim`
-    const description = `Calculate monthly payments for a ${loanFormatted} mortgage over ${termFormatted} at ${rateFormatted} interest rate. See total cost, savings growth, and net worth projections.`
-
-    return {
-      title,
-      description,
-      ogTitle: title,
-      ogDescription: description,
-    }
-  }, [urlParams])
+  const seoData = useMemo(
+    () => (hasUrlParams ? getMortgageSeoData(urlParams) : DEFAULT_MORTGAGE_SEO),
+    [urlParams, hasUrlParams]
+  )
 
   // Update document title and meta tags
   useEffect(() => {
@@ -147,30 +156,37 @@ export const DynamicMortgagePage: React.FC = () => {
     }
     ogDescription.setAttribute('content', seoData.ogDescription)
 
-    // Add OG image if we have URL params
-    if (urlParams && Object.keys(urlParams).length > 0) {
+    // Point the OG image at the pre-generated preview when this is a sitemap combination
+    const { mortgage_amount: loan, term_years: term, fixed_rate: rate } = urlParams
+    if (loan !== undefined && term !== undefined && rate !== undefined && hasStaticOGImage({ loan, term, rate })) {
       let ogImage = document.querySelector('meta[property="og:image"]')
       if (!ogImage) {
         ogImage = document.createElement('meta')
         ogImage.setAttribute('property', 'og:image')
         document.head.appendChild(ogImage)
       }
-      ogImage.setAttribute('content', `/api/og-image?loan=${urlParams.mortgage_amount}&term=${urlParams.term_years}&rate=${urlParams.fixed_rate}`)
+      ogImage.setAttribute('content', `${window.location.origin}${generateStaticOGImagePath({ loan, term, rate })}`)
     }
   }, [seoData, urlParams])
 
-  // Mutation for running simulation
-  const simulationMutation = useMutation({
-    mutationFn: MortgageApiService.simulate,
-    onSuccess: (data) => {
+  // Simulation runner - superseded runs are aborted and only the latest result is applied
+  const {
+    mutate: runSimulation,
+    isPending: isSimulating,
+    error: simulationError,
+  } = useDebouncedSimulation({
+    onSuccess: (data, request) => {
       setSimulationResults(data)
+      setResultEngine(getSimulationEngine(request))
       setWarnings(data.warnings || [])
+      saveResult(data)
       
       // Track successful simulation
       track('mortgage_simulation_completed', {
         loan_amount: urlParams?.mortgage_amount?.toString() || 'unknown',
         term_years: urlParams?.term_years?.toString() || 'unknown',
         interest_rate: urlParams?.fixed_rate?.toString() || 'unknown',
+        engine: getSimulationEngine(request),
         has_warnings: (data.warnings || []).length > 0,
         warnings_count: (data.warnings || []).length,
         auto_loaded: hasAutoLoaded,
@@ -178,7 +194,15 @@ export const DynamicMortgagePage: React.FC = () => {
     },
     onError: (error) => {
       console.error('Simulation failed:', error)
-      
+
+      // Offline: fall back to the last results for this link until the connection returns
+      void restoreResult(error).then((restored) => {
+        if (!restored) return
+        setSimulationResults(restored)
+        setResultEngine(undefined)
+        setWarnings(restored.warnings || [])
+      })
+
       // Track simulation errors
       track('mortgage_simulation_error', {
         loan_amount: urlParams?.mortgage_amount?.toString() || 'unknown',
@@ -190,6 +214,21 @@ export const DynamicMortgagePage: React.FC = () => {
     },
   })
 
+  // Re-run the latest request, with the current overpayments, once the connection is back
+  const location = useLocation()
+  const retrySimulation = useCallback(() => {
+    if (!lastSimulationRequest) return
+    const request: SimulationRequest = JSON.parse(JSON.stringify(lastSimulationRequest))
+    if (request.simulation) {
+      request.simulation.overpayments = toApiString()
+    }
+    runSimulation(request)
+  }, [lastSimulationRequest, toApiString, runSimulation])
+  const { staleSince, saveResult, restoreResult } = useOfflineResults(
+    `page:${location.pathname}${location.search}`,
+    retrySimulation
+  )
+
   // Auto-run simulation with URL parameters on mount
   useEffect(() => {
     const runInitialSimulation = async () => {
@@ -198,13 +237,19 @@ export const DynamicMortgagePage: React.FC = () => {
           const today = new Date().toISOString().split('T')[0]
           setCurrentStartDate(today)
           
-          const request = transformFormDataToRequest({
-            ...preFilledFormData,
-            start_date: today,
-          })
+          const formData = { ...preFilledFormData, start_date: today }
+          setCurrentFormData(formData)
+          pageOverpaymentStore.getState().setStartDate(today)
+
+          const request = transformFormDataToRequest(formData)
+          const overpaymentString = toApiString()
+          if (overpaymentString && request.simulation) {
+            request.simulation.overpayments = overpaymentString
+          }
+          prevOverpaymentsRef.current = overpaymentString
           
           setLastSimulationRequest(request)
-          simulationMutation.mutate(request)
+          runSimulation(request)
           setHasAutoLoaded(true)
         } catch (error) {
           console.error('Failed to auto-load simulation:', error)
@@ -213,12 +258,32 @@ export const DynamicMortgagePage: React.FC = () => {
     }
 
     runInitialSimulation()
-  }, [hasAutoLoaded, preFilledFormData, simulationMutation])
+  }, [hasAutoLoaded, preFilledFormData, runSimulation, toApiString, pageOverpaymentStore])
+
+  // Re-run when chart overpayments or rules change
+  useEffect(() => {
+    if (!hasAutoLoaded || !lastSimulationRequest) return
+    const overpaymentString = toApiString()
+    if (overpaymentString === prevOverpaymentsRef.current) return
+    prevOverpaymentsRef.current = overpaymentString
+
+    const request: SimulationRequest = JSON.parse(JSON.stringify(lastSimulationRequest))
+    if (request.simulation) {
+      request.simulation.overpayments = overpaymentString
+    }
+    runSimulation(request)
+  }, [chartOverpayments, overpaymentRules, hasAutoLoaded, lastSimulationRequest, toApiString, runSimulation])
 
   const handleFormSubmit = (formData: MortgageFormData) => {
+    setCurrentFormData(formData)
     setCurrentStartDate(formData.start_date)
     setCurrentAssetValue(formData.asset_value)
+    pageOverpaymentStore.getState().setStartDate(formData.start_date)
     const request = transformFormDataToRequest(formData)
+    const overpaymentString = toApiString()
+    if (overpaymentString && request.simulation) {
+      request.simulation.overpayments = overpaymentString
+    }
     setLastSimulationRequest(request)
     
     // Track manual form submission
@@ -235,54 +300,68 @@ export const DynamicMortgagePage: React.FC = () => {
       is_manual_submission: true,
     })
     
-    simulationMutation.mutate(request)
+    runSimulation(request)
   }
 
-  const handleExportCsv = async () => {
-    if (!simulationResults || !lastSimulationRequest) return
-    
-    try {
-      // Track CSV export attempt
-      track('csv_export_started', {
-        loan_amount: urlParams?.mortgage_amount?.toString() || 'unknown',
-        term_years: urlParams?.term_years?.toString() || 'unknown',
-        interest_rate: urlParams?.fixed_rate?.toString() || 'unknown',
-      })
-      
-      const csvBlob = await MortgageApiService.exportCsv(lastSimulationRequest)
-      
-      const url = window.URL.createObjectURL(csvBlob)
-      const link = document.createElement('a')
-      link.href = url
-      link.download = `mortgage-simulation-${new Date().toISOString().split('T')[0]}.csv`
-      document.body.appendChild(link)
-      link.click()
-      document.body.removeChild(link)
-      window.URL.revokeObjectURL(url)
-      
-      // Track successful CSV export
-      track('csv_export_completed', {
-        loan_amount: urlParams?.mortgage_amount?.toString() || 'unknown',
-        term_years: urlParams?.term_years?.toString() || 'unknown',
-        interest_rate: urlParams?.fixed_rate?.toString() || 'unknown',
-        file_size: csvBlob.size.toString(),
-      })
-    } catch (error) {
-      console.error('Failed to export CSV:', error)
-      
-      // Track CSV export error
-      track('csv_export_error', {
-        loan_amount: urlParams?.mortgage_amount?.toString() || 'unknown',
-        term_years: urlParams?.term_years?.toString() || 'unknown',
-        interest_rate: urlParams?.fixed_rate?.toString() || 'unknown',
-        error_message: getErrorMessage(error),
-      })
-    }
+  // Rendered charts, captured into the PDF report
+  const chartsRef = useRef<HTMLDivElement>(null)
+
+  // Exports are built from the results on screen and the inputs behind them
+  const exportSource = useMemo<ExportSource | null>(
+    () =>
+      simulationResults && currentFormData
+        ? {
+            results: simulationResults,
+            formData: currentFormData,
+            chartOverpayments,
+            overpaymentRules,
+            overpayments: toApiString(),
+          }
+        : null,
+    [simulationResults, currentFormData, chartOverpayments, overpaymentRules, toApiString]
+  )
+
+  const handleExport = (format: ExportFormat, size: number) => {
+    track('results_exported', {
+      loan_amount: urlParams?.mortgage_amount?.toString() || 'unknown',
+      term_years: urlParams?.term_years?.toString() || 'unknown',
+      interest_rate: urlParams?.fixed_rate?.toString() || 'unknown',
+      format,
+      file_size: size.toString(),
+    })
+  }
+
+  const handleExportError = (format: ExportFormat, error: unknown) => {
+    track('results_export_error', {
+      loan_amount: urlParams?.mortgage_amount?.toString() || 'unknown',
+      term_years: urlParams?.term_years?.toString() || 'unknown',
+      interest_rate: urlParams?.fixed_rate?.toString() || 'unknown',
+      format,
+      error_message: getErrorMessage(error),
+    })
+  }
+
+  const handleReportDownload = (size: number) => {
+    track('report_downloaded', {
+      loan_amount: urlParams?.mortgage_amount?.toString() || 'unknown',
+      term_years: urlParams?.term_years?.toString() || 'unknown',
+      interest_rate: urlParams?.fixed_rate?.toString() || 'unknown',
+      file_size: size.toString(),
+    })
+  }
+
+  const handleReportError = (error: unknown) => {
+    track('report_error', {
+      loan_amount: urlParams?.mortgage_amount?.toString() || 'unknown',
+      term_years: urlParams?.term_years?.toString() || 'unknown',
+      interest_rate: urlParams?.fixed_rate?.toString() || 'unknown',
+      error_message: getErrorMessage(error),
+    })
   }
 
   const handleShareLink = async () => {
     try {
-      const shareableLink = generateShareableLink(preFilledFormData)
+      const shareableLink = generateShareableLink(preFilledFormData, { chartOverpayments, overpaymentRules })
       const success = await copyToClipboard(shareableLink)
       
       if (success) {
@@ -308,187 +387,244 @@ export const DynamicMortgagePage: React.FC = () => {
     }
   }
 
+  // Make this scenario the visitor's own. Edits on this page stay here until then, since the
+  // form is not persisted and the overpayments live in a page-local store.
+  const navigate = useNavigate()
+  const handleOpenInSimulator = () => {
+    if (!currentFormData) return
+    const applyOverpayments = () => {
+      const { loadSchedule, replaceRules } = useOverpaymentStore.getState()
+      loadSchedule(chartOverpayments)
+      replaceRules(overpaymentRules)
+    }
+    // Stored overpayments load asynchronously; apply these once they have, or they'd be overwritten
+    if (useOverpaymentStore.persist.hasHydrated()) {
+      applyOverpayments()
+    } else {
+      const unsubscribe = useOverpaymentStore.persist.onFinishHydration(() => {
+        unsubscribe()
+        applyOverpayments()
+      })
+    }
+    saveFormData(currentFormData)
+
+    track('shared_scenario_opened', {
+      loan_amount: urlParams?.mortgage_amount?.toString() || 'unknown',
+      term_years: urlParams?.term_years?.toString() || 'unknown',
+      interest_rate: urlParams?.fixed_rate?.toString() || 'unknown',
+      overpayments_count: chartOverpayments.length + overpaymentRules.length,
+    })
+    navigate('/')
+  }
+
   const handleCloseSnackbar = () => {
     setShareSnackbar(prev => ({ ...prev, open: false }))
   }
 
   return (
-    <Box sx={{ minHeight: '100vh', backgroundColor: 'background.default' }}>
-      {/* Minimal Header */}
-      <Box
-        sx={{
-          borderBottom: '1px solid',
-          borderColor: 'divider',
-          py: 1,
-          px: { xs: 2, sm: 3, md: 4 },
-        }}
-      >
-        <Typography variant="subtitle1" fontWeight={500} color="text.secondary">
-          {seoData.title}
-        </Typography>
-      </Box>
+    <OverpaymentStoreContext.Provider value={pageOverpaymentStore}>
+      <Box sx={{ minHeight: '100vh', backgroundColor: 'background.default' }}>
+        {/* Minimal Header */}
+        <Box
+          sx={{
+            borderBottom: '1px solid',
+            borderColor: 'divider',
+            py: 1,
+            px: { xs: 2, sm: 3, md: 4 },
+          }}
+        >
+          <Typography variant="subtitle1" fontWeight={500} color="text.secondary">
+            {seoData.title}
+          </Typography>
+        </Box>
 
-      <Container maxWidth="xl" sx={{ py: 4 }}>
-        {/* Error Display */}
-        {simulationMutation.isError && (
-          <Alert 
-            severity="error" 
-            icon={<Error />}
-            sx={{ mb: 3 }}
-            elevation={1}
+        <Container maxWidth="xl" sx={{ py: 4 }}>
+          {/* Error Display */}
+          {simulationError && staleSince !== null && (
+            <Alert severity="warning" icon={<CloudOff />} sx={{ mb: 3 }} elevation={1}>
+              <Typography variant="subtitle2" fontWeight="medium" gutterBottom>
+                You're offline
+              </Typography>
+              <Typography variant="body2">
+                Showing the last results for this page. They'll update when the connection returns.
+              </Typography>
+            </Alert>
+          )}
+          {simulationError && staleSince === null && (
+            <Alert 
+              severity="error" 
+              icon={<Error />}
+              sx={{ mb: 3 }}
+              elevation={1}
+            >
+              <Typography variant="subtitle2" fontWeight="medium" gutterBottom>
+                Simulation Error
+              </Typography>
+              <Typography variant="body2">
+                {getErrorMessage(simulationError)}
+              </Typography>
+            </Alert>
+          )}
+
+          <Box 
+            sx={{ 
+              display: 'flex', 
+              flexDirection: { xs: 'column', lg: 'row' }, 
+              gap: 4 
+            }}
           >
-            <Typography variant="subtitle2" fontWeight="medium" gutterBottom>
-              Simulation Error
-            </Typography>
-            <Typography variant="body2">
-              {getErrorMessage(simulationMutation.error)}
-            </Typography>
-          </Alert>
-        )}
+            {/* Form Section */}
+            <Box sx={{ flex: { xs: '1', lg: '0 0 420px' } }}>
+              <MortgageForm
+                onSubmit={handleFormSubmit}
+                initialValues={hasUrlParams ? preFilledFormData : undefined}
+              />
+            </Box>
 
-        <Box 
-          sx={{ 
-            display: 'flex', 
-            flexDirection: { xs: 'column', lg: 'row' }, 
-            gap: 4 
-          }}
-        >
-          {/* Form Section */}
-          <Box sx={{ flex: { xs: '1', lg: '0 0 420px' } }}>
-            <MortgageForm
-              onSubmit={handleFormSubmit}
-              initialValues={hasUrlParams ? preFilledFormData : undefined}
-            />
-          </Box>
+            {/* Results Section */}
+            <Box sx={{ flex: 1 }}>
+              {isSimulating && (
+                <Card elevation={3}>
+                  <CardContent>
+                    <Box
+                      sx={{
+                        display: 'flex',
+                        flexDirection: 'column',
+                        alignItems: 'center',
+                        justifyContent: 'center',
+                        minHeight: 400,
+                        textAlign: 'center',
+                        py: 8,
+                      }}
+                    >
+                      <CircularProgress size={60} sx={{ mb: 3 }} />
+                      <Typography variant="h5" gutterBottom>
+                        Running simulation...
+                      </Typography>
+                      <Typography variant="body1" color="text.secondary">
+                        Calculating your personalized mortgage scenario.
+                      </Typography>
+                    </Box>
+                  </CardContent>
+                </Card>
+              )}
 
-          {/* Results Section */}
-          <Box sx={{ flex: 1 }}>
-            {simulationMutation.isPending && (
-              <Card elevation={3}>
-                <CardContent>
-                  <Box
-                    sx={{
-                      display: 'flex',
-                      flexDirection: 'column',
-                      alignItems: 'center',
-                      justifyContent: 'center',
-                      minHeight: 400,
-                      textAlign: 'center',
-                      py: 8,
-                    }}
-                  >
-                    <CircularProgress size={60} sx={{ mb: 3 }} />
-                    <Typography variant="h5" gutterBottom>
-                      Running simulation...
-                    </Typography>
-                    <Typography variant="body1" color="text.secondary">
-                      Calculating your personalized mortgage scenario.
-                    </Typography>
+              {simulationResults && !isSimulating && (
+                <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+                  {/* Export and Share Buttons */}
+                  <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 2 }}>
+                    <Button onClick={handleOpenInSimulator} startIcon={<Launch />} variant="outlined" size="small">
+                      Open in Simulator
+                    </Button>
+                    <Button
+                      onClick={handleShareLink}
+                      startIcon={<Share />}
+                      variant="outlined"
+                      size="small"
+                      sx={{ 
+                        borderColor: 'primary.main',
+                        color: 'primary.main',
+                        '&:hover': {
+                          backgroundColor: 'primary.50',
+                          borderColor: 'primary.dark',
+                        }
+                      }}
+                    >
+                      Share Link
+                    </Button>
+                    <DownloadReportButton
+                      source={exportSource}
+                      chartsRef={chartsRef}
+                      onDownload={handleReportDownload}
+                      onError={handleReportError}
+                    />
+                    <ExportMenu source={exportSource} onExport={handleExport} onExportError={handleExportError} />
                   </Box>
-                </CardContent>
-              </Card>
-            )}
-
-            {simulationResults && !simulationMutation.isPending && (
-              <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
-                {/* Export and Share Buttons */}
-                <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 2 }}>
-                  <Button
-                    onClick={handleShareLink}
-                    startIcon={<Share />}
-                    variant="outlined"
-                    size="small"
-                    sx={{ 
-                      borderColor: 'primary.main',
-                      color: 'primary.main',
-                      '&:hover': {
-                        backgroundColor: 'primary.50',
-                        borderColor: 'primary.dark',
-                      }
-                    }}
-                  >
-                    Share Link
-                  </Button>
-                  <Button
-                    onClick={handleExportCsv}
-                    startIcon={<FileDownload />}
-                    variant="outlined"
-                    size="small"
-                    sx={{ 
-                      borderColor: 'primary.main',
-                      color: 'primary.main',
-                      '&:hover': {
-                        backgroundColor: 'primary.50',
-                        borderColor: 'primary.dark',
-                      }
-                    }}
-                  >
-                    Export CSV
-                  </Button>
-                </Box>
-                
-                {/* Charts */}
-                <MortgageCharts
-                  chartData={simulationResults.chart_data}
-                  summaryStats={simulationResults.summary_statistics}
-                  startDate={currentStartDate}
-                  assetValue={currentAssetValue}
-                  notes={warnings.length > 0 ? warnings : undefined}
-                  isLoading={false}
-                />
-              </Box>
-            )}
-
-            {!simulationResults && !simulationMutation.isPending && (
-              <Card elevation={3}>
-                <CardContent>
-                  <Box
-                    sx={{
-                      display: 'flex',
-                      flexDirection: 'column',
-                      alignItems: 'center',
-                      justifyContent: 'center',
-                      minHeight: 400,
-                      textAlign: 'center',
-                      py: 8,
-                    }}
-                  >
-                    <TrendingUp sx={{ fontSize: '4rem', mb: 2, color: 'primary.main' }} />
-                    <Typography variant="h4" gutterBottom fontWeight={600}>
-                      Loading your mortgage simulation...
-                    </Typography>
-                    <Typography variant="body1" color="text.secondary" sx={{ mb: 4, maxWidth: 500 }}>
-                      {urlParams ? 
-                        'We\'re calculating the results for your specific mortgage scenario.' :
-                        'We\'re loading a sample simulation to show you how the tool works.'
-                      }
-                    </Typography>
+                  
+                  {/* Charts */}
+                  <Box ref={chartsRef}>
+                    <MortgageCharts
+                      chartData={simulationResults.chart_data}
+                      summaryStats={simulationResults.summary_statistics}
+                      startDate={currentStartDate}
+                      assetValue={currentAssetValue}
+                      notes={warnings.length > 0 ? warnings : undefined}
+                      isLoading={false}
+                      staleSince={staleSince}
+                      engine={resultEngine}
+                    />
                   </Box>
-                </CardContent>
-              </Card>
-            )}
+                </Box>
+              )}
+
+              {!simulationResults && !isSimulating && (
+                <Card elevation={3}>
+                  <CardContent>
+                    <Box
+                      sx={{
+                        display: 'flex',
+                        flexDirection: 'column',
+                        alignItems: 'center',
+                        justifyContent: 'center',
+                        minHeight: 400,
+                        textAlign: 'center',
+                        py: 8,
+                      }}
+                    >
+                      {simulationError && isNetworkError(simulationError) ? (
+                        <>
+                          <CloudOff sx={{ fontSize: '4rem', mb: 2, color: 'text.secondary' }} />
+                          <Typography variant="h4" gutterBottom fontWeight={600}>
+                            Waiting for a connection
+                          </Typography>
+                          <Typography variant="body1" color="text.secondary" sx={{ mb: 4, maxWidth: 500 }}>
+                            The simulation service can't be reached. Your results will appear as soon as
+                            you're back online.
+                          </Typography>
+                        </>
+                      ) : (
+                        <>
+                          <TrendingUp sx={{ fontSize: '4rem', mb: 2, color: 'primary.main' }} />
+                          <Typography variant="h4" gutterBottom fontWeight={600}>
+                            Loading your mortgage simulation...
+                          </Typography>
+                          <Typography variant="body1" color="text.secondary" sx={{ mb: 4, maxWidth: 500 }}>
+                            {urlParams ? 
+                              'We\'re calculating the results for your specific mortgage scenario.' :
+                              'We\'re loading a sample simulation to show you how the tool works.'
+                            }
+                          </Typography>
+                        </>
+                      )}
+                    </Box>
+                  </CardContent>
+                </Card>
+              )}
+            </Box>
           </Box>
-        </Box>
-      </Container>
-
-      <Footer />
-
-      {/* Share Feedback Snackbar */}
-      <Snackbar
-        open={shareSnackbar.open}
-        autoHideDuration={4000}
-        onClose={handleCloseSnackbar}
-        anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
-      >
-        <Alert 
-          onClose={handleCloseSnackbar} 
-          severity={shareSnackbar.severity}
-          variant="filled"
-          sx={{ width: '100%' }}
+        </Container>
+
+        <Footer />
+
+        <SyncConflictNotice />
+
+        {/* Share Feedback Snackbar */}
+        <Snackbar
+          open={shareSnackbar.open}
+          autoHideDuration={4000}
+          onClose={handleCloseSnackbar}
+          anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
         >
-          {shareSnackbar.message}
-        </Alert>
-      </Snackbar>
-    </Box>
+          <Alert 
+            onClose={handleCloseSnackbar} 
+            severity={shareSnackbar.severity}
+            variant="filled"
+            sx={{ width: '100%' }}
+          >
+            {shareSnackbar.message}
+          </Alert>
+        </Snackbar>
+      </Box>
+    </OverpaymentStoreContext.Provider>
   )
 } 
\ No newline at end of file
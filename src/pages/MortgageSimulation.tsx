@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react'
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react'
 import { track } from '@vercel/analytics'
 import {
   Box,
@@ -9,34 +9,49 @@ import {
   CircularProgress,
   Card,
   CardContent,
+  IconButton,
+  Tooltip,
 } from '@mui/material'
 import {
   Error,
-  FileDownload,
   TrendingUp,
+  AutoFixHigh,
+  GpsFixed,
+  Undo,
+  Redo,
+  CloudOff,
 } from '@mui/icons-material'
 import { MortgageForm } from '../components/MortgageForm'
 import { MortgageCharts } from '../components/MortgageCharts'
+import { ScenarioLibrary } from '../components/ScenarioLibrary'
+import { OverpaymentOptimizerDialog } from '../components/OverpaymentOptimizerDialog'
+import { GoalSeekDialog } from '../components/GoalSeekDialog'
+import { ExportMenu } from '../components/ExportMenu'
+import { DownloadReportButton } from '../components/DownloadReportButton'
+import { FormRecoveryDialog } from '../components/FormRecoveryDialog'
+import { SyncConflictNotice } from '../components/SyncConflictNotice'
+import { ScenarioImportDialog } from '../components/ScenarioImportDialog'
 import { Footer } from '../components/Footer'
-import { MortgageApiService, transformFormDataToRequest } from '../services/mortgageApi'
+import { transformFormDataToRequest } from '../services/mortgageApi'
+import { getSimulationEngine, isNetworkError } from '../services/simulationTransport'
+import type { SimulationEngine } from '../services/simulationTransport'
 import { useDebouncedSimulation } from '../hooks/useDebouncedSimulation'
-import { useOverpaymentStore } from '../store/overpaymentStore'
+import { useScenarioComparison } from '../hooks/useScenarioComparison'
+import { useMonteCarlo } from '../hooks/useMonteCarlo'
+import { useEditHistory } from '../hooks/useEditHistory'
+import { useOfflineResults } from '../hooks/useOfflineResults'
+import { useOverpaymentStore, overpaymentsToApiString } from '../store/overpaymentStore'
+import { useScenarioStore } from '../store/scenarioStore'
+import type { Scenario } from '../store/scenarioStore'
 import { defaultFormValues } from '../utils/validation'
 import type { MortgageFormData } from '../utils/validation'
+import { loadFormData, saveFormData, getFormRecovery, dismissFormRecovery } from '../utils/formStorage'
+import type { FormRecovery } from '../utils/formStorage'
+import { onSyncMessage } from '../utils/tabSync'
+import type { ExportFormat, ExportSource, ImportedResults } from '../utils/exportResults'
+import type { ScenarioFileContents } from '../utils/scenarioFile'
 import type { SimulationResponse, SimulationRequest } from '../types/mortgage'
 
-const STORAGE_KEY = 'mortgasim-form-values'
-
-// Load saved form values from localStorage
-const loadSavedFormValues = (): MortgageFormData | null => {
-  try {
-    const saved = localStorage.getItem(STORAGE_KEY)
-    return saved ? JSON.parse(saved) : null
-  } catch {
-    return null
-  }
-}
-
 // Utility function to safely extract error messages
 const getErrorMessage = (error: unknown): string => {
   if (error && typeof error === 'object' && 'message' in error) {
@@ -50,11 +65,22 @@ const getErrorMessage = (error: unknown): string => {
 
 export const MortgageSimulation: React.FC = () => {
   const [simulationResults, setSimulationResults] = useState<SimulationResponse | null>(null)
+  const [resultEngine, setResultEngine] = useState<SimulationEngine | undefined>(undefined)
   const [warnings, setWarnings] = useState<string[]>([])
   const [currentStartDate, setCurrentStartDate] = useState<string>('')
   const [currentBirthYear, setCurrentBirthYear] = useState<number | undefined>(undefined)
   const [currentAssetValue, setCurrentAssetValue] = useState<number>(360000)
   const [lastSimulationRequest, setLastSimulationRequest] = useState<SimulationRequest | null>(null)
+  // Saved values, migrated and validated; anything that had to be reset is offered for recovery
+  const [initialFormData] = useState<MortgageFormData>(() => loadFormData() || defaultFormValues)
+  const [formRecovery, setFormRecovery] = useState<FormRecovery | null>(getFormRecovery)
+  const [currentFormData, setCurrentFormData] = useState<MortgageFormData>(initialFormData)
+  const [optimizerOpen, setOptimizerOpen] = useState(false)
+  const [goalSeekOpen, setGoalSeekOpen] = useState(false)
+  // Values pushed into the form when a saved scenario is loaded
+  const [loadedFormValues, setLoadedFormValues] = useState<MortgageFormData | undefined>(undefined)
+  // Scenario file awaiting review in the import dialog
+  const [scenarioImportFile, setScenarioImportFile] = useState<File | null>(null)
 
   // Ref to track if we've done initial load
   const initialLoadRef = useRef(false)
@@ -62,7 +88,25 @@ export const MortgageSimulation: React.FC = () => {
   const prevOverpaymentsRef = useRef<string | null>(null)
 
   // Overpayment store
-  const { chartOverpayments, toApiString } = useOverpaymentStore()
+  const {
+    chartOverpayments,
+    overpaymentRules,
+    toApiString,
+    replaceAll: replaceOverpayments,
+    replaceRules,
+    loadSchedule,
+  } = useOverpaymentStore()
+
+  // Scenario library and comparison
+  const { scenarios, activeScenarioId, compareIds, setActiveScenario, createScenario } = useScenarioStore()
+  const comparedScenarios = useMemo(
+    () =>
+      compareIds
+        .map((id) => scenarios.find((scenario) => scenario.id === id))
+        .filter((scenario): scenario is Scenario => scenario !== undefined),
+    [compareIds, scenarios]
+  )
+  const { series: comparisonSeries } = useScenarioComparison(comparedScenarios)
 
   // Debounced simulation for real-time overpayment updates
   const {
@@ -73,13 +117,16 @@ export const MortgageSimulation: React.FC = () => {
     error: simulationError,
   } = useDebouncedSimulation({
     debounceMs: 500,
-    onSuccess: (data) => {
+    onSuccess: (data, request) => {
       setSimulationResults(data)
+      setResultEngine(getSimulationEngine(request))
       setWarnings(data.warnings || [])
+      saveResult(data)
 
       // Track successful simulation
       track('mortgage_simulation_completed', {
         page_type: 'home',
+        engine: getSimulationEngine(request),
         has_warnings: (data.warnings || []).length > 0,
         warnings_count: (data.warnings || []).length,
         from_chart_overpayment: chartOverpayments.length > 0,
@@ -88,6 +135,14 @@ export const MortgageSimulation: React.FC = () => {
     onError: (error) => {
       console.error('Simulation failed:', error)
 
+      // Offline: fall back to the last results for this scenario until the connection returns
+      void restoreResult(error).then((restored) => {
+        if (!restored) return
+        setSimulationResults(restored)
+        setResultEngine(undefined)
+        setWarnings(restored.warnings || [])
+      })
+
       // Track simulation errors
       track('mortgage_simulation_error', {
         page_type: 'home',
@@ -96,6 +151,17 @@ export const MortgageSimulation: React.FC = () => {
     },
   })
 
+  // Re-run the latest request, with the current overpayments, once the connection is back
+  const retrySimulation = useCallback(() => {
+    if (!lastSimulationRequest) return
+    const request: SimulationRequest = JSON.parse(JSON.stringify(lastSimulationRequest))
+    if (request.simulation) {
+      request.simulation.overpayments = toApiString() || null
+    }
+    immediateSimulate(request)
+  }, [lastSimulationRequest, toApiString, immediateSimulate])
+  const { staleSince, saveResult, restoreResult } = useOfflineResults(activeScenarioId ?? 'current', retrySimulation)
+
   // Track home page visits
   useEffect(() => {
     track('home_page_visit', {
@@ -109,14 +175,10 @@ export const MortgageSimulation: React.FC = () => {
     if (!initialLoadRef.current) {
       initialLoadRef.current = true
 
-      // Load from localStorage or use defaults
-      const savedValues = loadSavedFormValues()
-      const formValues = savedValues || defaultFormValues
-
-      setCurrentStartDate(formValues.start_date)
-      setCurrentBirthYear(formValues.birth_year)
-      setCurrentAssetValue(formValues.asset_value)
-      const request = transformFormDataToRequest(formValues)
+      setCurrentStartDate(initialFormData.start_date)
+      setCurrentBirthYear(initialFormData.birth_year)
+      setCurrentAssetValue(initialFormData.asset_value)
+      const request = transformFormDataToRequest(initialFormData)
 
       // Include any persisted overpayments from the store
       const overpaymentString = toApiString()
@@ -128,7 +190,7 @@ export const MortgageSimulation: React.FC = () => {
       setLastSimulationRequest(request)
       immediateSimulate(request)
     }
-  }, [immediateSimulate, toApiString])
+  }, [initialFormData, immediateSimulate, toApiString])
 
   // Real-time recalculation when overpayments change
   useEffect(() => {
@@ -152,10 +214,11 @@ export const MortgageSimulation: React.FC = () => {
 
     console.log('Recalculating with overpayments:', overpaymentString)
     debouncedMutate(request)
-  }, [chartOverpayments, simulationResults, lastSimulationRequest, toApiString, debouncedMutate])
+  }, [chartOverpayments, overpaymentRules, simulationResults, lastSimulationRequest, toApiString, debouncedMutate])
 
   const handleFormSubmit = useCallback(
     (formData: MortgageFormData) => {
+      setCurrentFormData(formData)
       setCurrentStartDate(formData.start_date)
       setCurrentBirthYear(formData.birth_year)
       setCurrentAssetValue(formData.asset_value)
@@ -183,43 +246,183 @@ export const MortgageSimulation: React.FC = () => {
     [immediateSimulate, toApiString]
   )
 
-  const handleExportCsv = async () => {
-    if (!simulationResults || !lastSimulationRequest) return
+  // Push new values into the form, persist them and re-run the simulation
+  const applyFormValues = useCallback(
+    (formData: MortgageFormData) => {
+      saveFormData(formData)
+      setLoadedFormValues(formData)
+      handleFormSubmit(formData)
+    },
+    [handleFormSubmit]
+  )
 
-    try {
-      // Track CSV export attempt
-      track('csv_export_started', {
-        page_type: 'home',
-      })
+  // Follow form edits made in other tabs; they already saved the values, so don't announce them back
+  useEffect(
+    () =>
+      onSyncMessage((message) => {
+        if (message.type !== 'form') return
+        saveFormData(message.data, { broadcast: false })
+        setLoadedFormValues(message.data)
+        handleFormSubmit(message.data)
+      }),
+    [handleFormSubmit]
+  )
+
+  // Close the recovery prompt, keeping the restored values or starting again from the defaults
+  const handleRecoveryKeep = useCallback(() => {
+    dismissFormRecovery()
+    setFormRecovery(null)
+  }, [])
 
-      const csvBlob = await MortgageApiService.exportCsv(lastSimulationRequest)
+  const handleRecoveryReset = useCallback(() => {
+    applyFormValues(defaultFormValues)
+    handleRecoveryKeep()
+  }, [applyFormValues, handleRecoveryKeep])
 
-      // Create download link
-      const url = window.URL.createObjectURL(csvBlob)
-      const link = document.createElement('a')
-      link.href = url
-      link.download = `mortgage-simulation-${new Date().toISOString().split('T')[0]}.csv`
-      document.body.appendChild(link)
-      link.click()
-      document.body.removeChild(link)
-      window.URL.revokeObjectURL(url)
+  // Undo/redo across form, chart overpayment and rule edits
+  const { undo, redo, canUndo, canRedo } = useEditHistory(currentFormData, applyFormValues)
 
-      // Track successful CSV export
-      track('csv_export_completed', {
+  // Load a saved scenario into the form and the chart overpayments
+  const handleLoadScenario = useCallback(
+    (scenario: Scenario) => {
+      setActiveScenario(scenario.id)
+      replaceOverpayments(scenario.chartOverpayments)
+      replaceRules(scenario.overpaymentRules ?? [])
+      applyFormValues(scenario.formData)
+
+      track('scenario_loaded', {
         page_type: 'home',
-        file_size: csvBlob.size.toString(),
+        scenarios_count: scenarios.length,
       })
-    } catch (error) {
-      console.error('Failed to export CSV:', error)
+    },
+    [setActiveScenario, replaceOverpayments, replaceRules, applyFormValues, scenarios.length]
+  )
 
-      // Track CSV export error
-      track('csv_export_error', {
+  // The current scenario as it would be written to a file, for comparing against an import
+  const currentScenarioFile = useMemo<ScenarioFileContents>(() => {
+    const activeScenario = scenarios.find((scenario) => scenario.id === activeScenarioId)
+    return {
+      name: activeScenario?.name ?? 'Current scenario',
+      notes: activeScenario?.notes ?? '',
+      formData: currentFormData,
+      chartOverpayments,
+      overpaymentRules,
+    }
+  }, [scenarios, activeScenarioId, currentFormData, chartOverpayments, overpaymentRules])
+
+  // Load an accepted scenario file and keep it in the library
+  const handleScenarioImport = useCallback(
+    (imported: ScenarioFileContents) => {
+      setScenarioImportFile(null)
+      loadSchedule(imported.chartOverpayments)
+      replaceRules(imported.overpaymentRules)
+      createScenario(
+        imported.name,
+        imported.formData,
+        useOverpaymentStore.getState().chartOverpayments,
+        imported.overpaymentRules,
+        imported.notes
+      )
+      applyFormValues(imported.formData)
+
+      track('scenario_imported', {
         page_type: 'home',
-        error_message: getErrorMessage(error),
+        overpayments_count: imported.chartOverpayments.length,
+        rules_count: imported.overpaymentRules.length,
       })
+    },
+    [loadSchedule, replaceRules, createScenario, applyFormValues]
+  )
+
+  const handleScenarioImportError = useCallback((error: unknown) => {
+    track('scenario_import_error', {
+      page_type: 'home',
+      error_message: getErrorMessage(error),
+    })
+  }, [])
+
+  // Stress test the request as currently charted, including chart overpayments
+  const stressTestRequest = useMemo(() => {
+    if (!lastSimulationRequest) return null
+    const overpaymentString = overpaymentsToApiString(chartOverpayments, overpaymentRules, currentStartDate || null)
+    if (!overpaymentString || !lastSimulationRequest.simulation) return lastSimulationRequest
+    return {
+      ...lastSimulationRequest,
+      simulation: { ...lastSimulationRequest.simulation, overpayments: overpaymentString },
     }
+  }, [lastSimulationRequest, chartOverpayments, overpaymentRules, currentStartDate])
+
+  // Rendered charts, captured into the PDF report
+  const chartsRef = useRef<HTMLDivElement>(null)
+
+  // Exports are built from the results on screen and the inputs behind them
+  const exportSource = useMemo<ExportSource | null>(
+    () =>
+      simulationResults
+        ? {
+            results: simulationResults,
+            formData: currentFormData,
+            chartOverpayments,
+            overpaymentRules,
+            overpayments: stressTestRequest?.simulation?.overpayments ?? null,
+          }
+        : null,
+    [simulationResults, currentFormData, chartOverpayments, overpaymentRules, stressTestRequest]
+  )
+
+  const handleExport = (format: ExportFormat, size: number) => {
+    track('results_exported', {
+      page_type: 'home',
+      format,
+      file_size: size.toString(),
+    })
   }
 
+  const handleExportError = (format: ExportFormat, error: unknown) => {
+    track('results_export_error', {
+      page_type: 'home',
+      format,
+      error_message: getErrorMessage(error),
+    })
+  }
+
+  const handleReportDownload = (size: number) => {
+    track('report_downloaded', {
+      page_type: 'home',
+      file_size: size.toString(),
+    })
+  }
+
+  const handleReportError = (error: unknown) => {
+    track('report_error', {
+      page_type: 'home',
+      error_message: getErrorMessage(error),
+    })
+  }
+
+  // Restore a scenario from a JSON export
+  const handleImport = useCallback(
+    (imported: ImportedResults) => {
+      setActiveScenario(null)
+      loadSchedule(imported.chartOverpayments)
+      replaceRules(imported.overpaymentRules)
+      applyFormValues(imported.formData)
+
+      track('results_imported', {
+        page_type: 'home',
+        invalid_fields_count: imported.invalidFields.length,
+      })
+    },
+    [setActiveScenario, loadSchedule, replaceRules, applyFormValues]
+  )
+
+  // Percentile bands for the same request when the stochastic mode is on
+  const monteCarlo = useMonteCarlo(
+    stressTestRequest,
+    { rateVolatility: currentFormData.rate_volatility ?? 0 },
+    currentFormData.monte_carlo_enabled ?? false
+  )
+
   // Show recalculating indicator when debouncing or simulating from chart interaction
   const isRecalculating = isDebouncing || (isSimulating && chartOverpayments.length > 0)
 
@@ -241,7 +444,17 @@ export const MortgageSimulation: React.FC = () => {
 
       <Container maxWidth={false} sx={{ py: 4, px: { xs: 2, sm: 3, md: 4 } }}>
         {/* Error Display */}
-        {simulationError && (
+        {simulationError && staleSince !== null && (
+          <Alert severity="warning" icon={<CloudOff />} sx={{ mb: 3 }} elevation={1}>
+            <Typography variant="subtitle2" fontWeight="medium" gutterBottom>
+              You're offline
+            </Typography>
+            <Typography variant="body2">
+              Showing the last results for this scenario. They'll update when the connection returns.
+            </Typography>
+          </Alert>
+        )}
+        {simulationError && staleSince === null && (
           <Alert severity="error" icon={<Error />} sx={{ mb: 3 }} elevation={1}>
             <Typography variant="subtitle2" fontWeight="medium" gutterBottom>
               Simulation Error
@@ -259,7 +472,22 @@ export const MortgageSimulation: React.FC = () => {
         >
           {/* Form Section - Full Width on Top */}
           <Box sx={{ width: '100%' }}>
-            <MortgageForm onSubmit={handleFormSubmit} />
+            <MortgageForm
+              onSubmit={handleFormSubmit}
+              initialValues={loadedFormValues}
+              stressTestRequest={stressTestRequest}
+              onFileDrop={setScenarioImportFile}
+              persist
+            />
+          </Box>
+
+          {/* Scenario Library */}
+          <Box sx={{ width: '100%' }}>
+            <ScenarioLibrary
+              currentFormData={currentFormData}
+              onLoad={handleLoadScenario}
+              onImportFile={setScenarioImportFile}
+            />
           </Box>
 
           {/* Results Section - Full Width */}
@@ -292,36 +520,83 @@ export const MortgageSimulation: React.FC = () => {
 
             {simulationResults && (
               <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
-                {/* Export Button */}
-                <Box sx={{ display: 'flex', justifyContent: 'flex-end' }}>
+                {/* Planning and Export Buttons */}
+                <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1 }}>
+                  <Tooltip title="Undo (Ctrl+Z)">
+                    <span>
+                      <IconButton onClick={undo} disabled={!canUndo} size="small" aria-label="Undo">
+                        <Undo fontSize="small" />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                  <Tooltip title="Redo (Ctrl+Shift+Z)">
+                    <span>
+                      <IconButton onClick={redo} disabled={!canRedo} size="small" aria-label="Redo">
+                        <Redo fontSize="small" />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
                   <Button
-                    onClick={handleExportCsv}
-                    startIcon={<FileDownload />}
+                    onClick={() => setGoalSeekOpen(true)}
+                    startIcon={<GpsFixed />}
+                    variant="outlined"
+                    size="small"
+                  >
+                    Goal Seek
+                  </Button>
+                  <Button
+                    onClick={() => setOptimizerOpen(true)}
+                    startIcon={<AutoFixHigh />}
                     variant="outlined"
                     size="small"
-                    sx={{
-                      borderColor: 'primary.main',
-                      color: 'primary.main',
-                      '&:hover': {
-                        backgroundColor: 'primary.50',
-                        borderColor: 'primary.dark',
-                      },
-                    }}
                   >
-                    Export CSV
+                    Overpay or Save?
                   </Button>
+                  <DownloadReportButton
+                    source={exportSource}
+                    chartsRef={chartsRef}
+                    onDownload={handleReportDownload}
+                    onError={handleReportError}
+                  />
+                  <ExportMenu
+                    source={exportSource}
+                    onExport={handleExport}
+                    onExportError={handleExportError}
+                    onImport={handleImport}
+                  />
                 </Box>
 
                 {/* Charts */}
-                <MortgageCharts
-                  chartData={simulationResults.chart_data}
-                  summaryStats={simulationResults.summary_statistics}
-                  startDate={currentStartDate}
-                  birthYear={currentBirthYear}
-                  assetValue={currentAssetValue}
-                  notes={warnings.length > 0 ? warnings : undefined}
-                  isLoading={false}
-                  isRecalculating={isRecalculating}
+                <Box ref={chartsRef}>
+                  <MortgageCharts
+                    chartData={simulationResults.chart_data}
+                    summaryStats={simulationResults.summary_statistics}
+                    startDate={currentStartDate}
+                    birthYear={currentBirthYear}
+                    assetValue={currentAssetValue}
+                    notes={warnings.length > 0 ? warnings : undefined}
+                    isLoading={false}
+                    isRecalculating={isRecalculating}
+                    staleSince={staleSince}
+                    engine={resultEngine}
+                    comparisons={comparedScenarios.length >= 2 ? comparisonSeries : undefined}
+                    monteCarlo={currentFormData.monte_carlo_enabled ? monteCarlo.result : null}
+                    isMonteCarloLoading={monteCarlo.isLoading}
+                    onUndo={undo}
+                  />
+                </Box>
+
+                <OverpaymentOptimizerDialog
+                  open={optimizerOpen}
+                  onClose={() => setOptimizerOpen(false)}
+                  request={lastSimulationRequest}
+                />
+
+                <GoalSeekDialog
+                  open={goalSeekOpen}
+                  onClose={() => setGoalSeekOpen(false)}
+                  formData={currentFormData}
+                  onApply={applyFormValues}
                 />
               </Box>
             )}
@@ -340,18 +615,33 @@ export const MortgageSimulation: React.FC = () => {
                       py: 8,
                     }}
                   >
-                    <TrendingUp sx={{ fontSize: '4rem', mb: 2, color: 'primary.main' }} />
-                    <Typography variant="h4" gutterBottom fontWeight={600}>
-                      Loading simulation...
-                    </Typography>
-                    <Typography
-                      variant="body1"
-                      color="text.secondary"
-                      sx={{ mb: 4, maxWidth: 500 }}
-                    >
-                      Your simulation will appear here. Adjust any parameter above to see results
-                      update in real-time.
-                    </Typography>
+                    {simulationError && isNetworkError(simulationError) ? (
+                      <>
+                        <CloudOff sx={{ fontSize: '4rem', mb: 2, color: 'text.secondary' }} />
+                        <Typography variant="h4" gutterBottom fontWeight={600}>
+                          Waiting for a connection
+                        </Typography>
+                        <Typography variant="body1" color="text.secondary" sx={{ mb: 4, maxWidth: 500 }}>
+                          The simulation service can't be reached and there are no saved results for this
+                          scenario yet. It will run as soon as you're back online.
+                        </Typography>
+                      </>
+                    ) : (
+                      <>
+                        <TrendingUp sx={{ fontSize: '4rem', mb: 2, color: 'primary.main' }} />
+                        <Typography variant="h4" gutterBottom fontWeight={600}>
+                          Loading simulation...
+                        </Typography>
+                        <Typography
+                          variant="body1"
+                          color="text.secondary"
+                          sx={{ mb: 4, maxWidth: 500 }}
+                        >
+                          Your simulation will appear here. Adjust any parameter above to see results
+                          update in real-time.
+                        </Typography>
+                      </>
+                    )}
                   </Box>
                 </CardContent>
               </Card>
@@ -360,6 +650,16 @@ export const MortgageSimulation: React.FC = () => {
         </Box>
       </Container>
 
+      <FormRecoveryDialog recovery={formRecovery} onKeep={handleRecoveryKeep} onReset={handleRecoveryReset} />
+      <SyncConflictNotice />
+      <ScenarioImportDialog
+        file={scenarioImportFile}
+        current={currentScenarioFile}
+        onAccept={handleScenarioImport}
+        onError={handleScenarioImportError}
+        onClose={() => setScenarioImportFile(null)}
+      />
+
       <Footer />
     </Box>
   )
@@ -0,0 +1,24 @@
+import React, { useMemo } from 'react'
+import { Navigate, useLocation, useParams } from 'react-router-dom'
+import { DynamicMortgagePage } from './DynamicMortgagePage'
+import { NotFoundPage } from './NotFoundPage'
+import { generateMortgageSlug, parseMortgageSlug, slugToFormData } from '../utils/mortgageSlug'
+
+// /mortgage/:slug — pre-fills the mortgage page from the slug, redirecting to its canonical spelling
+export const MortgageSlugPage: React.FC = () => {
+  const { slug = '' } = useParams<{ slug: string }>()
+  const location = useLocation()
+  const params = useMemo(() => parseMortgageSlug(slug), [slug])
+  const slugFormData = useMemo(() => (params ? slugToFormData(params) : undefined), [params])
+
+  if (!params) {
+    return <NotFoundPage />
+  }
+
+  const canonicalSlug = generateMortgageSlug(params.loan, params.term, params.rate)
+  if (slug !== canonicalSlug) {
+    return <Navigate to={{ pathname: `/mortgage/${canonicalSlug}`, search: location.search }} replace />
+  }
+
+  return <DynamicMortgagePage slugFormData={slugFormData} />
+}
@@ -0,0 +1,42 @@
+import React, { useEffect } from 'react'
+import { Link as RouterLink } from 'react-router-dom'
+import { Box, Container, Typography, Button } from '@mui/material'
+import { Footer } from '../components/Footer'
+
+export const NotFoundPage: React.FC = () => {
+  useEffect(() => {
+    document.title = 'Page Not Found - MortgaSim'
+  }, [])
+
+  return (
+    <Box sx={{ minHeight: '100vh', backgroundColor: 'background.default' }}>
+      {/* Minimal Header */}
+      <Box
+        sx={{
+          borderBottom: '1px solid',
+          borderColor: 'divider',
+          py: 1,
+          px: { xs: 2, sm: 3, md: 4 },
+        }}
+      >
+        <Typography variant="subtitle1" fontWeight={500} color="text.secondary">
+          Mortgage & Savings Simulator
+        </Typography>
+      </Box>
+
+      <Container maxWidth="sm" sx={{ py: 12, textAlign: 'center' }}>
+        <Typography variant="h3" gutterBottom fontWeight={600}>
+          Page not found
+        </Typography>
+        <Typography variant="body1" color="text.secondary" sx={{ mb: 4 }}>
+          We couldn't find that page. Mortgage pages look like /mortgage/200k-over-25-years-at-4-percent.
+        </Typography>
+        <Button component={RouterLink} to="/" variant="contained">
+          Open the simulator
+        </Button>
+      </Container>
+
+      <Footer />
+    </Box>
+  )
+}
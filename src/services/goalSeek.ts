@@ -0,0 +1,241 @@
+import type { MortgageFormData } from '../utils/validation'
+import { transformFormDataToRequest } from './mortgageApi'
+import { runSimulation } from './simulationEngine'
+
+// Solves for one form value that makes the simulation hit a target, by bisection on the local engine
+
+export type GoalSeekUnknown = 'monthly_overpayment' | 'typical_payment' | 'term_years' | 'savings_contribution'
+
+export type GoalSeekTarget =
+  | { type: 'payoff_date'; month: number } // 1-based month from the start date
+  | { type: 'payoff_age'; age: number } // Requires birth_year
+  | { type: 'net_worth'; amount: number }
+
+export interface GoalSeekOptions {
+  unknown: GoalSeekUnknown
+  target: GoalSeekTarget
+  accountIndex?: number // Account whose contribution is solved for, default the first
+  chartOverpayments?: string | null // Chart overpayments replace form overpayments, as on the page
+}
+
+export interface GoalSeekResult {
+  achievable: boolean
+  value: number | null
+  formData: MortgageFormData | null // The form with the solution applied
+  payoffMonth: number | null
+  finalNetWorth: number | null
+  message: string
+}
+
+export const GOAL_SEEK_UNKNOWN_LABELS: Record<GoalSeekUnknown, string> = {
+  monthly_overpayment: 'Monthly overpayment',
+  typical_payment: 'Monthly payment',
+  term_years: 'Mortgage term',
+  savings_contribution: 'Savings contribution',
+}
+
+const MAX_OVERPAYMENT_MONTHS = 300 // Mirrors the regular overpayment duration limit in the form
+const MAX_TERM_YEARS = 40
+const AMOUNT_PRECISION = 10 // Amounts are solved to the nearest £10, rounded up
+
+interface UnknownSpec {
+  min: (formData: MortgageFormData) => number
+  max: (formData: MortgageFormData) => number
+  precision: number
+  // Amounts are solved for the smallest value that hits the target; the term for the longest
+  leastEffort: 'min' | 'max'
+  format: (value: number) => string
+}
+
+const formatPounds = (value: number): string => `£${Math.round(value).toLocaleString('en-GB')}`
+
+const UNKNOWN_SPECS: Record<GoalSeekUnknown, UnknownSpec> = {
+  monthly_overpayment: {
+    min: () => 0,
+    max: (formData) => formData.mortgage_amount,
+    precision: AMOUNT_PRECISION,
+    leastEffort: 'min',
+    format: (value) => `${formatPounds(value)} a month`,
+  },
+  typical_payment: {
+    min: () => 0,
+    max: (formData) => Math.max(formData.typical_payment * 10, formData.mortgage_amount / 12),
+    precision: AMOUNT_PRECISION,
+    leastEffort: 'min',
+    format: (value) => `${formatPounds(value)} a month`,
+  },
+  term_years: {
+    min: () => 1,
+    max: () => MAX_TERM_YEARS,
+    precision: 1,
+    leastEffort: 'max',
+    format: (value) => `${value} years`,
+  },
+  savings_contribution: {
+    min: () => 0,
+    max: (formData) => Math.max(formData.typical_payment * 10, 20000),
+    precision: AMOUNT_PRECISION,
+    leastEffort: 'min',
+    format: (value) => `${formatPounds(value)} a month`,
+  },
+}
+
+/**
+ * 1-based month the target refers to, or null for net worth targets.
+ * Ages follow the charts: age at the start date is the start year minus the birth year.
+ */
+export const getTargetMonth = (target: GoalSeekTarget, formData: MortgageFormData): number | null => {
+  if (target.type === 'payoff_date') return target.month
+  if (target.type === 'payoff_age') {
+    if (!formData.birth_year) return null
+    const startingAge = new Date(formData.start_date).getFullYear() - formData.birth_year
+    return Math.round((target.age - startingAge) * 12)
+  }
+  return null
+}
+
+// Form data with the unknown set to `value`
+const applyUnknown = (
+  formData: MortgageFormData,
+  options: GoalSeekOptions,
+  value: number
+): MortgageFormData => {
+  switch (options.unknown) {
+    case 'monthly_overpayment': {
+      // Overpay every month up to the payoff target, or for the existing duration otherwise
+      const targetMonth = getTargetMonth(options.target, formData)
+      const months =
+        targetMonth ??
+        (formData.overpayment_type === 'regular' ? formData.regular_overpayment_months : undefined) ??
+        Math.round(formData.term_years * 12)
+      return {
+        ...formData,
+        overpayment_type: 'regular',
+        regular_overpayment_amount: value,
+        regular_overpayment_months: Math.min(MAX_OVERPAYMENT_MONTHS, Math.max(1, months)),
+      }
+    }
+    case 'typical_payment':
+      return { ...formData, typical_payment: value }
+    case 'term_years':
+      return { ...formData, term_years: value }
+    case 'savings_contribution': {
+      const accountIndex = options.accountIndex ?? 0
+      return {
+        ...formData,
+        savings_accounts: formData.savings_accounts.map((account, index) =>
+          index === accountIndex ? { ...account, monthly_contribution: value } : account
+        ),
+      }
+    }
+  }
+}
+
+const simulate = (formData: MortgageFormData, options: GoalSeekOptions) => {
+  const request = transformFormDataToRequest(formData)
+  // A solved monthly overpayment lives in the form, so chart overpayments must not replace it
+  if (options.chartOverpayments && options.unknown !== 'monthly_overpayment' && request.simulation) {
+    request.simulation.overpayments = options.chartOverpayments
+  }
+  const { summary_statistics: stats } = runSimulation(request)
+  return { payoffMonth: stats.mortgage_paid_off_month ?? null, finalNetWorth: stats.final_net_worth }
+}
+
+const meetsTarget = (
+  outcome: { payoffMonth: number | null; finalNetWorth: number },
+  target: GoalSeekTarget,
+  targetMonth: number | null
+): boolean => {
+  if (target.type === 'net_worth') return outcome.finalNetWorth >= target.amount
+  return outcome.payoffMonth !== null && targetMonth !== null && outcome.payoffMonth <= targetMonth
+}
+
+/**
+ * Find the least-effort value of the unknown that meets the target: the smallest amount, or the
+ * longest term. Assumes the outcome moves one way as the unknown grows, which holds for each pair
+ * the dialog offers; when neither end of the range meets the target it is reported as unreachable.
+ */
+export const goalSeek = (formData: MortgageFormData, options: GoalSeekOptions): GoalSeekResult => {
+  const { target } = options
+  const spec = UNKNOWN_SPECS[options.unknown]
+  const targetMonth = getTargetMonth(target, formData)
+
+  const fail = (message: string): GoalSeekResult => ({
+    achievable: false,
+    value: null,
+    formData: null,
+    payoffMonth: null,
+    finalNetWorth: null,
+    message,
+  })
+
+  if (target.type === 'payoff_age' && !formData.birth_year) {
+    return fail('Enter a birth year to solve for a payoff age.')
+  }
+  if (targetMonth !== null && targetMonth < 1) {
+    return fail('The target date is before the mortgage starts.')
+  }
+  if (options.unknown === 'typical_payment' && target.type !== 'net_worth') {
+    return fail(
+      'Payments above the required amount go to savings, so they do not change the payoff date. Solve for a monthly overpayment instead.'
+    )
+  }
+  if (options.unknown === 'savings_contribution' && !formData.savings_accounts[options.accountIndex ?? 0]) {
+    return fail('Add a savings account to solve for its contribution.')
+  }
+
+  const evaluate = (value: number) => simulate(applyUnknown(formData, options, value), options)
+  const meets = (value: number) => meetsTarget(evaluate(value), target, targetMonth)
+
+  let low = spec.min(formData)
+  let high = spec.max(formData)
+  const effortEnd = spec.leastEffort === 'min' ? low : high
+  const otherEnd = spec.leastEffort === 'min' ? high : low
+
+  let value: number
+  if (meets(effortEnd)) {
+    value = effortEnd
+  } else if (!meets(otherEnd)) {
+    return fail(
+      `No ${GOAL_SEEK_UNKNOWN_LABELS[options.unknown].toLowerCase()} between ${spec.format(low)} and ${spec.format(high)} reaches this target.`
+    )
+  } else {
+    // Invariant: the effort end misses the target and the other end meets it
+    while (high - low > spec.precision) {
+      const mid = spec.precision === 1 ? Math.floor((low + high) / 2) : (low + high) / 2
+      const midMeets = meets(mid)
+      if (spec.leastEffort === 'min') {
+        if (midMeets) high = mid
+        else low = mid
+      } else if (midMeets) {
+        low = mid
+      } else {
+        high = mid
+      }
+    }
+    value =
+      spec.leastEffort === 'min'
+        ? Math.ceil(high / spec.precision) * spec.precision
+        : low
+  }
+
+  const solved = applyUnknown(formData, options, value)
+  const outcome = simulate(solved, options)
+  const label = GOAL_SEEK_UNKNOWN_LABELS[options.unknown]
+  const reached =
+    target.type === 'net_worth'
+      ? `final net worth of ${formatPounds(outcome.finalNetWorth)}`
+      : `mortgage paid off in month ${outcome.payoffMonth}`
+
+  return {
+    achievable: true,
+    value,
+    formData: solved,
+    payoffMonth: outcome.payoffMonth,
+    finalNetWorth: outcome.finalNetWorth,
+    message:
+      value === effortEnd && spec.leastEffort === 'min' && value === 0
+        ? `The target is already met without any ${label.toLowerCase()} (${reached}).`
+        : `${label} of ${spec.format(value)} gives a ${reached}.`,
+  }
+}
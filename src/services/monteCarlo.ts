@@ -0,0 +1,138 @@
+import type { SimulationRequest } from '../types/mortgage'
+import { runSimulation, alignSeries } from './simulationEngine'
+import type { SimulationPaths } from './simulationEngine'
+
+// Stochastic projections built from many local engine runs with randomised returns and rates
+
+export interface MonteCarloOptions {
+  runs?: number
+  rateVolatility?: number // Annual standard deviation of SVR/base rate moves, percentage points
+  seed?: number
+}
+
+// 10th, 50th and 90th percentile of a series at each month
+export interface PercentileBands {
+  p10: number[]
+  p50: number[]
+  p90: number[]
+}
+
+export interface MonteCarloResult {
+  runs: number
+  years: number[] // Aligned to the deterministic run
+  netWorth: PercentileBands
+  savingsBalance: PercentileBands
+  accounts: Array<{ name: string; balance: PercentileBands }>
+  probabilitySavingsNegative: number // Share of runs where total savings ever fall below zero
+}
+
+// Messages exchanged with the Monte Carlo worker
+export interface MonteCarloWorkerRequest {
+  request: SimulationRequest
+  options: MonteCarloOptions
+}
+
+export type MonteCarloWorkerResponse = { result: MonteCarloResult } | { error: string }
+
+const DEFAULT_RUNS = 200
+
+// Small seedable PRNG (mulberry32) so repeated renders of the same inputs agree
+const createRandom = (seed: number) => {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Standard normal sample via Box-Muller
+const createNormal = (random: () => number) => () => {
+  const u = Math.max(random(), Number.EPSILON)
+  const v = random()
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v)
+}
+
+const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return 0
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))))
+  return sorted[index]
+}
+
+const toBands = (samples: number[][], months: number): PercentileBands => {
+  const bands: PercentileBands = { p10: [], p50: [], p90: [] }
+  for (let m = 0; m < months; m++) {
+    const sorted = samples.map(run => run[m]).sort((a, b) => a - b)
+    bands.p10.push(percentile(sorted, 0.1))
+    bands.p50.push(percentile(sorted, 0.5))
+    bands.p90.push(percentile(sorted, 0.9))
+  }
+  return bands
+}
+
+/**
+ * Run the simulation many times with lognormal monthly savings returns (per account expected
+ * return and volatility) and a random walk applied to floating mortgage rates.
+ */
+export const runMonteCarlo = (request: SimulationRequest, options: MonteCarloOptions = {}): MonteCarloResult => {
+  const runs = options.runs ?? DEFAULT_RUNS
+  const rateVolatility = options.rateVolatility ?? 0
+  const normal = createNormal(createRandom(options.seed ?? 1))
+
+  const base = runSimulation(request)
+  const months = base.chart_data.years.length
+  // Runs can pay off earlier or later than the base run, so generate paths past its horizon
+  const pathMonths = months + Math.round(request.mortgage.term_years * 12)
+  const accounts = request.savings.accounts ?? []
+
+  const netWorthRuns: number[][] = []
+  const savingsRuns: number[][] = []
+  const accountRuns: number[][][] = accounts.map(() => [])
+  let negativeRuns = 0
+
+  for (let run = 0; run < runs; run++) {
+    const savingsRates = accounts.map(account => {
+      const volatility = (account.volatility ?? 0) / 100
+      if (volatility <= 0) return undefined
+
+      const expected = (account.expected_return ?? account.rate) / 100
+      const drift = (Math.log(1 + expected) - (volatility * volatility) / 2) / 12
+      const sigma = volatility / Math.sqrt(12)
+      // Monthly log return expressed as the annual rate the engine applies for one month
+      return Array.from({ length: pathMonths }, () => (Math.exp(drift + sigma * normal()) - 1) * 12 * 100)
+    })
+
+    const rateShifts: number[] = []
+    let shift = 0
+    const monthlySigma = rateVolatility / Math.sqrt(12)
+    for (let m = 0; m < pathMonths; m++) {
+      shift += monthlySigma * normal()
+      rateShifts.push(shift)
+    }
+
+    const paths: SimulationPaths = { savingsRates, rateShifts }
+    const result = runSimulation(request, paths)
+    const savings = result.chart_data.savings_balance
+
+    if (savings.some(balance => balance < 0)) negativeRuns++
+    netWorthRuns.push(alignSeries(result.chart_data.net_worth, months))
+    savingsRuns.push(alignSeries(savings, months))
+    result.chart_data.accounts.forEach((account, index) => {
+      accountRuns[index]?.push(alignSeries(account.balance, months))
+    })
+  }
+
+  return {
+    runs,
+    years: base.chart_data.years,
+    netWorth: toBands(netWorthRuns, months),
+    savingsBalance: toBands(savingsRuns, months),
+    accounts: accounts.map((account, index) => ({
+      name: account.name,
+      balance: toBands(accountRuns[index], months),
+    })),
+    probabilitySavingsNegative: runs > 0 ? negativeRuns / runs : 0,
+  }
+}
@@ -53,8 +53,13 @@ export class MortgageApiService {
   /**
    * Run a mortgage simulation
    */
-  static async simulate(request: SimulationRequest): Promise<SimulationResponse> {
-    const response = await api.post<SimulationResponse>('/simulate', request)
+  static async simulate(
+    request: SimulationRequest,
+    options: { signal?: AbortSignal } = {}
+  ): Promise<SimulationResponse> {
+    const response = await api.post<SimulationResponse>('/simulate', request, {
+      signal: options.signal,
+    })
     return response.data
   }
 
@@ -118,6 +123,17 @@ export const transformFormDataToRequest = (formData: MortgageFormData): Simulati
         start_month: d.start_month,
         end_month: d.end_month,
         rate: d.rate,
+        type: d.type,
+        margin: d.margin,
+        discount: d.discount,
+        collar: d.collar,
+        overpayment_allowance_percent: d.overpayment_allowance_percent,
+        erc_percent: d.erc_percent,
+        erc_percent_by_year: d.erc_percent_by_year,
+        arrangement_fee: d.arrangement_fee,
+        valuation_fee: d.valuation_fee,
+        cashback: d.cashback,
+        fees_added_to_loan: d.fees_added_to_loan,
       }))
     : undefined
 
@@ -132,6 +148,10 @@ export const transformFormDataToRequest = (formData: MortgageFormData): Simulati
       fixed_term_months: firstDeal ? firstDeal.end_month : formData.fixed_term_months,
       variable_rate: formData.variable_rate,
       deals,
+      offset_enabled: formData.offset_enabled,
+      repayment_type: formData.repayment_type,
+      base_rate_path: formData.base_rate_path,
+      interest_only_amount: formData.repayment_type === 'part_and_part' ? formData.interest_only_amount : undefined,
     },
     savings: {
       accounts: formData.savings_accounts.map(acc => ({
@@ -140,6 +160,9 @@ export const transformFormDataToRequest = (formData: MortgageFormData): Simulati
         monthly_contribution: acc.monthly_contribution,
         initial_balance: acc.initial_balance,
         draw_for_repayment: acc.draw_for_repayment,
+        offset: acc.offset,
+        expected_return: acc.expected_return,
+        volatility: acc.volatility,
       })),
     },
     simulation: {
@@ -0,0 +1,336 @@
+import type { SimulationRequest, SimulationResponse } from '../types/mortgage'
+import {
+  runSimulation,
+  getDealForMonth,
+  dealHasEarlyRepaymentCharges,
+  getOverpaymentAllowancePercent,
+} from './simulationEngine'
+
+// Searches overpayment schedules on the local engine and ranks them against not overpaying
+
+export type OptimizerObjective = 'net_worth' | 'interest'
+
+export interface OptimizerOptions {
+  objective: OptimizerObjective
+  minSavingsBuffer: number // Total savings must never fall below this
+}
+
+export interface OptimizerStrategy {
+  id: string
+  name: string
+  description: string
+  overpayments: Array<{ month: number; amount: number }> // 1-based months, as in the API string
+  totalOverpaid: number
+  finalNetWorth: number // At the not-overpaying horizon, so every strategy is compared at the same date
+  totalInterest: number // Mortgage interest plus any ERCs up to that horizon
+  earlyRepaymentCharges: number
+  minSavings: number
+  payoffMonth: number | null
+  feasible: boolean // Savings stay at or above the buffer
+}
+
+export interface OptimizerResult {
+  objective: OptimizerObjective
+  minSavingsBuffer: number
+  horizonMonths: number
+  baseline: OptimizerStrategy
+  best: OptimizerStrategy
+  strategies: OptimizerStrategy[] // Ranked, best first; infeasible strategies last
+  explanation: string[]
+}
+
+// Messages exchanged with the optimizer worker
+export interface OptimizerWorkerRequest {
+  request: SimulationRequest
+  options: OptimizerOptions
+}
+
+export type OptimizerWorkerResponse = { result: OptimizerResult } | { error: string }
+
+const AMOUNT_STEP = 100 // Overpayments are rounded down to whole £100s
+const ALLOWANCE_FRACTIONS = [0.25, 0.5, 1]
+
+const formatPounds = (value: number): string =>
+  `£${Math.round(value).toLocaleString('en-GB')}`
+
+const toOverpaymentString = (overpayments: Array<{ month: number; amount: number }>): string | null =>
+  overpayments.length > 0 ? overpayments.map((op) => `${op.month}:${op.amount}`).join(',') : null
+
+const average = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0
+
+/**
+ * Months where a deal year opens (its allowance resets), plus yearly anniversaries outside any deal.
+ */
+const getCandidateMonths = (request: SimulationRequest, lastMonth: number): number[] => {
+  const months = new Set<number>()
+  for (const deal of request.mortgage.deals ?? []) {
+    for (let m = deal.start_month; m < deal.end_month; m += 12) months.add(m + 1)
+  }
+  for (let m = 0; m < lastMonth; m += 12) {
+    if (!getDealForMonth(request.mortgage, m)) months.add(m + 1)
+  }
+  return [...months].filter((m) => m <= lastMonth).sort((a, b) => a - b)
+}
+
+// First month after each deal that charges ERCs, when a larger lump sum becomes penalty-free.
+// Skipped when the next deal charges ERCs from its first month.
+const getDealEndMonths = (request: SimulationRequest, lastMonth: number): number[] =>
+  (request.mortgage.deals ?? [])
+    .filter(dealHasEarlyRepaymentCharges)
+    .map((deal) => deal.end_month + 1)
+    .filter((m) => {
+      const next = getDealForMonth(request.mortgage, m - 1)
+      return m <= lastMonth && (!next || !dealHasEarlyRepaymentCharges(next))
+    })
+
+// Run with the schedule in place of any form overpayments, extending past payoff so horizons match
+const evaluateRun = (
+  request: SimulationRequest,
+  overpayments: Array<{ month: number; amount: number }>
+): SimulationResponse =>
+  runSimulation({
+    ...request,
+    simulation: {
+      ...request.simulation,
+      overpayments: toOverpaymentString(overpayments),
+      show_years_after_payoff:
+        (request.simulation?.show_years_after_payoff ?? 0) + Math.ceil(request.mortgage.term_years),
+    },
+  })
+
+/**
+ * Build a schedule one payment at a time. Each payment is sized from a run that already includes
+ * the earlier ones, so it sees the true balance and savings at that point.
+ */
+const buildSchedule = (
+  request: SimulationRequest,
+  months: number[],
+  horizon: number,
+  buffer: number,
+  sizeFor: (month: number, principal: number, surplus: number) => number
+): Array<{ month: number; amount: number }> => {
+  const schedule: Array<{ month: number; amount: number }> = []
+  let current = evaluateRun(request, schedule)
+
+  for (const month of months) {
+    const data = current.monthly_data[month - 1]
+    if (!data || data.principal_start <= 1) break
+
+    // Savings left over the buffer from this month to the horizon, and what can be drawn now
+    const future = current.monthly_data.slice(month - 1, horizon).map((d) => d.savings_balance_end)
+    const surplus = Math.min(...future) - buffer
+    const drawable = current.chart_data.accounts.reduce(
+      (sum, account, index) =>
+        request.savings.accounts?.[index]?.draw_for_repayment ?? true ? sum + (account.balance[month - 1] ?? 0) : sum,
+      0
+    )
+
+    const requested = sizeFor(month, data.principal_start, surplus)
+    const amount =
+      Math.floor(Math.min(requested, surplus, drawable, data.principal_start) / AMOUNT_STEP) * AMOUNT_STEP
+    if (amount <= 0) continue
+
+    schedule.push({ month, amount })
+    current = evaluateRun(request, schedule)
+  }
+
+  return schedule
+}
+
+const summarizeStrategy = (
+  request: SimulationRequest,
+  id: string,
+  name: string,
+  description: string,
+  overpayments: Array<{ month: number; amount: number }>,
+  horizon: number,
+  buffer: number
+): OptimizerStrategy => {
+  const response = evaluateRun(request, overpayments)
+  const window = response.monthly_data.slice(0, horizon)
+  const earlyRepaymentCharges = window.reduce((sum, d) => sum + (d.early_repayment_charge ?? 0), 0)
+  const minSavings = Math.min(...window.map((d) => d.savings_balance_end))
+
+  return {
+    id,
+    name,
+    description,
+    overpayments,
+    totalOverpaid: overpayments.reduce((sum, op) => sum + op.amount, 0),
+    finalNetWorth: window[window.length - 1]?.net_worth ?? 0,
+    totalInterest: window.reduce((sum, d) => sum + d.interest_paid, 0) + earlyRepaymentCharges,
+    earlyRepaymentCharges,
+    minSavings,
+    payoffMonth: response.summary_statistics.mortgage_paid_off_month ?? null,
+    feasible: minSavings >= buffer - 0.01,
+  }
+}
+
+const compareStrategies = (objective: OptimizerObjective) => (a: OptimizerStrategy, b: OptimizerStrategy) => {
+  if (a.feasible !== b.feasible) return a.feasible ? -1 : 1
+  return objective === 'net_worth' ? b.finalNetWorth - a.finalNetWorth : a.totalInterest - b.totalInterest
+}
+
+const explain = (
+  result: Omit<OptimizerResult, 'explanation'>,
+  baselineResponse: SimulationResponse
+): string[] => {
+  const { best, baseline, strategies, objective, minSavingsBuffer } = result
+  const live = baselineResponse.monthly_data.filter((d) => d.principal_start > 0)
+  const mortgageRate = average(live.map((d) => d.annual_mortgage_rate))
+  const savingsRate = average(live.map((d) => d.annual_savings_rate))
+  const runnerUp = strategies.find((s) => s.id !== best.id && s.feasible)
+  const lines: string[] = []
+
+  if (!best.feasible) {
+    lines.push(
+      `No schedule keeps savings above ${formatPounds(minSavingsBuffer)}; even without overpaying they fall to ${formatPounds(baseline.minSavings)}. Lower the buffer or the monthly payment.`
+    )
+    return lines
+  }
+
+  if (best.id === baseline.id) {
+    if (objective === 'net_worth') {
+      lines.push(
+        `Keep saving: your savings earn about ${savingsRate.toFixed(2)}% against a mortgage rate of about ${mortgageRate.toFixed(2)}%, so money left in savings grows faster than overpaying saves in interest.`
+      )
+    } else {
+      lines.push(`There is no spare savings above the ${formatPounds(minSavingsBuffer)} buffer to overpay with.`)
+    }
+    if (runnerUp) {
+      lines.push(
+        objective === 'net_worth'
+          ? `The best overpaying option, "${runnerUp.name}", would leave you ${formatPounds(baseline.finalNetWorth - runnerUp.finalNetWorth)} worse off.`
+          : `The best overpaying option, "${runnerUp.name}", would not reduce interest.`
+      )
+    }
+    return lines
+  }
+
+  lines.push(`"${best.name}" wins: ${best.description}.`)
+  lines.push(
+    `It overpays ${formatPounds(best.totalOverpaid)} in ${best.overpayments.length} payment${best.overpayments.length === 1 ? '' : 's'}, saving ${formatPounds(baseline.totalInterest - best.totalInterest)} in interest` +
+      (best.payoffMonth && baseline.payoffMonth && best.payoffMonth < baseline.payoffMonth
+        ? ` and clearing the mortgage ${baseline.payoffMonth - best.payoffMonth} months sooner (month ${best.payoffMonth}).`
+        : '.')
+  )
+  lines.push(
+    `Net worth at month ${result.horizonMonths} is ${formatPounds(best.finalNetWorth)}, ${best.finalNetWorth >= baseline.finalNetWorth ? 'up' : 'down'} ${formatPounds(Math.abs(best.finalNetWorth - baseline.finalNetWorth))} on not overpaying. ` +
+      (mortgageRate > savingsRate
+        ? `The mortgage costs about ${mortgageRate.toFixed(2)}% while savings earn about ${savingsRate.toFixed(2)}%, so each pound overpaid earns more by cutting debt.`
+        : `Savings earn about ${savingsRate.toFixed(2)}% against a mortgage rate of about ${mortgageRate.toFixed(2)}%, so this only pays off by cutting interest.`)
+  )
+  lines.push(
+    best.earlyRepaymentCharges > 0
+      ? `It pays ${formatPounds(best.earlyRepaymentCharges)} in early repayment charges, which are already counted above.`
+      : `It stays within every deal's overpayment allowance, so no early repayment charges apply.`
+  )
+  lines.push(
+    `Savings never drop below ${formatPounds(best.minSavings)} (buffer ${formatPounds(minSavingsBuffer)}).`
+  )
+  if (runnerUp) {
+    lines.push(
+      objective === 'net_worth'
+        ? `It beats the next best, "${runnerUp.name}", by ${formatPounds(best.finalNetWorth - runnerUp.finalNetWorth)} of net worth.`
+        : `It beats the next best, "${runnerUp.name}", by ${formatPounds(runnerUp.totalInterest - best.totalInterest)} of interest.`
+    )
+  }
+  return lines
+}
+
+/**
+ * Compare not overpaying with annual overpayments at several fractions of each deal's allowance,
+ * a single lump sum up front, and lump sums once ERCs lapse, keeping total savings above the buffer.
+ * Any form overpayments are replaced, as chart overpayments replace them when loaded.
+ */
+export const optimizeOverpayments = (request: SimulationRequest, options: OptimizerOptions): OptimizerResult => {
+  const { objective, minSavingsBuffer: buffer } = options
+
+  // Compare every strategy at the end of the not-overpaying run, the longest of them
+  const baselineResponse = runSimulation({
+    ...request,
+    simulation: { ...request.simulation, overpayments: null },
+  })
+  const horizon = baselineResponse.monthly_data.length
+  const lastMonth = baselineResponse.summary_statistics.mortgage_paid_off_month ?? horizon
+
+  const candidateMonths = getCandidateMonths(request, lastMonth)
+  const dealEndMonths = getDealEndMonths(request, lastMonth)
+
+  // Allowance still to use for the deal year opening at `month`; unlimited without ERCs
+  const allowanceFor = (month: number, principal: number): number => {
+    const deal = getDealForMonth(request.mortgage, month - 1)
+    if (!deal || !dealHasEarlyRepaymentCharges(deal)) return Infinity
+    return (principal * getOverpaymentAllowancePercent(deal)) / 100
+  }
+
+  const schedules: Array<{
+    id: string
+    name: string
+    description: string
+    overpayments: Array<{ month: number; amount: number }>
+  }> = [
+    {
+      id: 'none',
+      name: 'Keep saving',
+      description: 'no overpayments; spare money stays in savings',
+      overpayments: [],
+    },
+    ...ALLOWANCE_FRACTIONS.map((fraction) => ({
+      id: `allowance-${fraction * 100}`,
+      name: fraction === 1 ? 'Full allowance each year' : `${fraction * 100}% of allowance each year`,
+      description:
+        fraction === 1
+          ? 'overpay the full penalty-free allowance as each deal year opens, or spare savings where there is no ERC'
+          : `overpay ${fraction * 100}% of the penalty-free allowance as each deal year opens`,
+      overpayments: buildSchedule(request, candidateMonths, horizon, buffer, (month, principal, surplus) =>
+        Math.min(fraction * allowanceFor(month, principal), fraction * surplus)
+      ),
+    })),
+    {
+      id: 'lump-sum-now',
+      name: 'Lump sum now',
+      description: 'overpay as much as possible in the first month, within the allowance',
+      overpayments: buildSchedule(request, [1], horizon, buffer, (month, principal, surplus) =>
+        Math.min(allowanceFor(month, principal), surplus)
+      ),
+    },
+    {
+      id: 'deal-end',
+      name: 'Lump sums when ERCs end',
+      description: 'save during each deal and clear spare savings into the mortgage once its ERCs lapse',
+      overpayments: buildSchedule(request, dealEndMonths, horizon, buffer, (_month, _principal, surplus) => surplus),
+    },
+    {
+      id: 'allowance-and-deal-end',
+      name: 'Allowance plus deal-end lump sums',
+      description: 'overpay the full allowance each deal year and clear spare savings once each deal ends',
+      overpayments: buildSchedule(
+        request,
+        [...new Set([...candidateMonths, ...dealEndMonths])].sort((a, b) => a - b),
+        horizon,
+        buffer,
+        (month, principal, surplus) => Math.min(allowanceFor(month, principal), surplus)
+      ),
+    },
+  ]
+
+  // Schedules that came out identical (e.g. no spare savings) are only evaluated once
+  const seen = new Set<string>()
+  const strategies = schedules
+    .filter((schedule) => {
+      const key = toOverpaymentString(schedule.overpayments) ?? ''
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+    .map((schedule) =>
+      summarizeStrategy(request, schedule.id, schedule.name, schedule.description, schedule.overpayments, horizon, buffer)
+    )
+    .sort(compareStrategies(objective))
+
+  const baseline = strategies.find((s) => s.id === 'none') as OptimizerStrategy
+  const partial = { objective, minSavingsBuffer: buffer, horizonMonths: horizon, baseline, best: strategies[0], strategies }
+  return { ...partial, explanation: explain(partial, baselineResponse) }
+}
@@ -0,0 +1,119 @@
+import type { SimulationRequest, SimulationResponse } from '../types/mortgage'
+import { SIMULATION_STORE, LAST_RESULT_STORE, openDatabase, idbGet, idbSet } from '../utils/idbStorage'
+
+// Older results beyond this are dropped, oldest first
+const MAX_CACHED_SIMULATIONS = 50
+
+interface CachedSimulation {
+  key: string // Hash of `request`
+  request: string // Serialised request, compared on read to rule out hash collisions
+  result: SimulationResponse
+  savedAt: number
+}
+
+// 53-bit string hash (cyrb53); collisions are caught by comparing the stored request
+const hashString = (value: string): string => {
+  let h1 = 0xdeadbeef
+  let h2 = 0x41c6ce57
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i)
+    h1 = Math.imul(h1 ^ ch, 2654435761)
+    h2 = Math.imul(h2 ^ ch, 1597334677)
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36)
+}
+
+// Sort object keys and drop null or missing fields, which the engine and API treat alike
+const canonicalise = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(canonicalise)
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>
+    return Object.fromEntries(
+      Object.keys(record)
+        .sort()
+        .filter((key) => record[key] !== null && record[key] !== undefined)
+        .map((key) => [key, canonicalise(record[key])])
+    )
+  }
+  return value
+}
+
+/**
+ * Canonical JSON for a request: requests that would simulate the same way serialise the same,
+ * whatever order their fields were set in.
+ */
+export const serialiseRequest = (request: SimulationRequest): string => JSON.stringify(canonicalise(request))
+
+export const hashRequest = (request: SimulationRequest): string => hashString(serialiseRequest(request))
+
+// react-query key for a simulation, shared by every hook so identical requests run once
+export const simulationQueryKey = (request: SimulationRequest) => ['simulation', hashRequest(request)] as const
+
+/**
+ * Result previously stored for an identical request, or undefined. Cache failures are
+ * treated as misses so a simulation is never blocked by storage.
+ */
+export const getCachedSimulation = async (request: SimulationRequest): Promise<SimulationResponse | undefined> => {
+  try {
+    const serialised = serialiseRequest(request)
+    const entry = await idbGet<CachedSimulation>(SIMULATION_STORE, hashString(serialised))
+    return entry && entry.request === serialised ? entry.result : undefined
+  } catch {
+    return undefined
+  }
+}
+
+// Drop the oldest entries beyond MAX_CACHED_SIMULATIONS
+const pruneSimulations = async () => {
+  const db = await openDatabase()
+  const store = db.transaction(SIMULATION_STORE, 'readwrite').objectStore(SIMULATION_STORE)
+  const countRequest = store.count()
+  countRequest.onsuccess = () => {
+    let excess = countRequest.result - MAX_CACHED_SIMULATIONS
+    if (excess <= 0) return
+    const cursorRequest = store.index('savedAt').openCursor()
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result
+      if (!cursor || excess <= 0) return
+      cursor.delete()
+      excess--
+      cursor.continue()
+    }
+  }
+}
+
+export const cacheSimulation = async (request: SimulationRequest, result: SimulationResponse): Promise<void> => {
+  try {
+    const serialised = serialiseRequest(request)
+    const entry: CachedSimulation = { key: hashString(serialised), request: serialised, result, savedAt: Date.now() }
+    await idbSet(SIMULATION_STORE, entry)
+    await pruneSimulations()
+  } catch (error) {
+    console.warn('Failed to cache simulation result:', error)
+  }
+}
+
+// The most recent result for a scenario, shown while a newer one cannot be fetched
+export interface LastResult {
+  result: SimulationResponse
+  savedAt: number
+}
+
+export const saveLastResult = async (scenarioKey: string, result: SimulationResponse): Promise<void> => {
+  try {
+    const entry: LastResult = { result, savedAt: Date.now() }
+    await idbSet(LAST_RESULT_STORE, entry, scenarioKey)
+  } catch (error) {
+    console.warn('Failed to save last simulation result:', error)
+  }
+}
+
+export const getLastResult = async (scenarioKey: string): Promise<LastResult | undefined> => {
+  try {
+    return await idbGet<LastResult>(LAST_RESULT_STORE, scenarioKey)
+  } catch {
+    return undefined
+  }
+}
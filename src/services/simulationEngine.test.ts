@@ -0,0 +1,222 @@
+import { describe, expect, it } from 'vitest'
+import { calculateMonthlyPayment, runSimulation } from './simulationEngine'
+import type { Deal, MortgageParameters, SavingsAccount, SimulationRequest } from '../types/mortgage'
+
+// Expected figures are worked out by hand from the scenario, not recorded from the engine
+
+const savingsAccount = (overrides: Partial<SavingsAccount> = {}): SavingsAccount => ({
+  name: 'Savings',
+  rate: 0,
+  monthly_contribution: 0,
+  initial_balance: 100000,
+  draw_for_repayment: true,
+  ...overrides,
+})
+
+// £100k over 20 years at 4%, with £100k of drawable savings earning nothing
+const mortgageRequest = (
+  mortgage: Partial<MortgageParameters> = {},
+  { overpayments = '', accounts = [savingsAccount()] }: { overpayments?: string; accounts?: SavingsAccount[] } = {}
+): SimulationRequest => ({
+  mortgage: {
+    amount: 100000,
+    term_years: 20,
+    fixed_rate: 4,
+    fixed_term_months: 24,
+    variable_rate: 6,
+    ...mortgage,
+  },
+  savings: { accounts },
+  simulation: { typical_payment: 700, show_years_after_payoff: 0, overpayments, start_date: '2025-01-01' },
+})
+
+// The same on a two-year deal
+const dealRequest = (deal: Partial<Deal>, overpayments: string): SimulationRequest =>
+  mortgageRequest({ deals: [{ start_month: 0, end_month: 24, rate: 4, ...deal }] }, { overpayments })
+
+describe('calculateMonthlyPayment', () => {
+  it('amortises the balance over the term', () => {
+    expect(calculateMonthlyPayment(100000, 4, 240)).toBeCloseTo(605.98, 2)
+    expect(calculateMonthlyPayment(100000, 0, 240)).toBeCloseTo(416.67, 2)
+  })
+})
+
+describe('repayment mortgage', () => {
+  it('charges a month of interest on the opening balance and saves the rest of the typical payment', () => {
+    const [first] = runSimulation(mortgageRequest()).monthly_data
+    expect(first.interest_paid).toBeCloseTo(333.33, 2)
+    expect(first.monthly_payment).toBeCloseTo(605.98, 2)
+    expect(first.principal_end).toBeCloseTo(100000 - 272.65, 2)
+    expect(first.savings_balance_end).toBeCloseTo(100000 + 700 - 605.98, 2)
+  })
+
+  it('moves to the SVR when the deal ends', () => {
+    const { monthly_data } = runSimulation(mortgageRequest({ deals: [{ start_month: 0, end_month: 24, rate: 4 }] }))
+    expect(monthly_data[23].annual_mortgage_rate).toBe(4)
+    expect(monthly_data[24].annual_mortgage_rate).toBe(6)
+    expect(monthly_data[24].interest_paid).toBeCloseTo((monthly_data[24].principal_start * 0.06) / 12, 2)
+  })
+})
+
+describe('deal fees and cashback', () => {
+  const fees = { arrangement_fee: 999, valuation_fee: 250, cashback: 500 }
+
+  it('pays fees from savings and cashback into them when the deal starts', () => {
+    const result = runSimulation(dealRequest(fees, ''))
+    const [first, second] = result.monthly_data
+    expect(first.deal_fees).toBe(1249)
+    expect(first.cashback).toBe(500)
+    expect(first.principal_start).toBe(100000)
+    expect(first.savings_balance_end).toBeCloseTo(100000 - 1249 + 500 + 700 - 605.98, 2)
+    expect(second.deal_fees ?? 0).toBe(0)
+
+    const [cost] = result.summary_statistics.deal_costs ?? []
+    expect(cost.fees).toBe(1249)
+    expect(cost.cashback).toBe(500)
+    expect(cost.total_cost).toBeCloseTo(cost.interest_paid + 1249 - 500, 2)
+  })
+
+  it('adds fees to the loan when asked, where they accrue interest', () => {
+    const [first] = runSimulation(dealRequest({ ...fees, fees_added_to_loan: true }, '')).monthly_data
+    expect(first.principal_start).toBe(101249)
+    expect(first.interest_paid).toBeCloseTo(337.5, 2)
+    expect(first.monthly_payment).toBeCloseTo(calculateMonthlyPayment(101249, 4, 240), 2)
+    expect(first.savings_balance_end).toBeCloseTo(100000 + 500 + 700 - first.monthly_payment, 2)
+  })
+})
+
+describe('offset mortgage', () => {
+  const accounts = [savingsAccount({ name: 'Offset', initial_balance: 40000, offset: true }), savingsAccount({ initial_balance: 10000, rate: 5 })]
+
+  it('charges interest only on the balance not covered by offset savings', () => {
+    const result = runSimulation(mortgageRequest({ offset_enabled: true }, { accounts }))
+    const [first] = result.monthly_data
+    expect(first.offset_balance).toBe(40000)
+    expect(first.interest_paid).toBeCloseTo(200, 2)
+    expect(first.offset_interest_saved).toBeCloseTo(133.33, 2)
+    // The payment is still set by the whole balance, so the saving goes to capital
+    expect(first.monthly_payment).toBeCloseTo(605.98, 2)
+    expect(first.principal_repaid).toBeCloseTo(405.98, 2)
+  })
+
+  it('ignores offset accounts unless the mortgage is an offset one', () => {
+    const [first] = runSimulation(mortgageRequest({}, { accounts })).monthly_data
+    expect(first.offset_balance ?? 0).toBe(0)
+    expect(first.interest_paid).toBeCloseTo(333.33, 2)
+  })
+})
+
+describe('interest-only and part-and-part', () => {
+  it('pays only interest and repays the capital from savings at term end', () => {
+    const result = runSimulation(mortgageRequest({ term_years: 2, repayment_type: 'interest_only' }))
+    const { monthly_data, summary_statistics } = result
+    expect(monthly_data[0].monthly_payment).toBeCloseTo(333.33, 2)
+    expect(monthly_data[22].principal_end).toBeCloseTo(100000, 2)
+    expect(summary_statistics.term_end_shortfall).toBe(100000)
+    expect(summary_statistics.term_end_shortfall_covered).toBe(true)
+    expect(summary_statistics.final_mortgage_balance).toBe(0)
+  })
+
+  it('leaves the capital owed when savings cannot cover it', () => {
+    const result = runSimulation(
+      mortgageRequest(
+        { term_years: 2, repayment_type: 'interest_only' },
+        { accounts: [savingsAccount({ initial_balance: 20000 })] }
+      )
+    )
+    expect(result.summary_statistics.term_end_shortfall_covered).toBe(false)
+    expect(result.summary_statistics.final_mortgage_balance).toBeGreaterThan(50000)
+  })
+
+  it('amortises only the repayment part of a part-and-part mortgage', () => {
+    const result = runSimulation(mortgageRequest({ repayment_type: 'part_and_part', interest_only_amount: 40000 }))
+    const [first] = result.monthly_data
+    // Interest on £40k plus the repayment on £60k
+    expect(first.monthly_payment).toBeCloseTo(496.92, 2)
+    expect(first.principal_repaid).toBeCloseTo(163.59, 2)
+    expect(result.summary_statistics.term_end_shortfall).toBeCloseTo(40000, 2)
+  })
+})
+
+describe('tracker and discount deals', () => {
+  it('tracks the base rate path plus the margin, down to the collar', () => {
+    const { monthly_data } = runSimulation(
+      mortgageRequest({
+        base_rate_path: [
+          { month: 0, rate: 4 },
+          { month: 12, rate: 5 },
+          { month: 24, rate: 0.5 },
+        ],
+        deals: [{ start_month: 0, end_month: 36, rate: 5, type: 'tracker', margin: 1, collar: 3 }],
+      })
+    )
+    expect(monthly_data[0].annual_mortgage_rate).toBe(5)
+    expect(monthly_data[6].annual_mortgage_rate).toBeCloseTo(5.5, 2)
+    expect(monthly_data[12].annual_mortgage_rate).toBe(6)
+    expect(monthly_data[30].annual_mortgage_rate).toBe(3)
+    expect(monthly_data[0].interest_paid).toBeCloseTo(416.67, 2)
+  })
+
+  it('discounts the SVR, which moves with the base rate, down to the collar', () => {
+    const flat = runSimulation(
+      mortgageRequest({ deals: [{ start_month: 0, end_month: 24, rate: 4.5, type: 'discount', discount: 1.5 }] })
+    )
+    expect(flat.monthly_data[0].annual_mortgage_rate).toBe(4.5)
+    expect(flat.monthly_data[0].monthly_payment).toBeCloseTo(632.65, 2)
+
+    const { monthly_data } = runSimulation(
+      mortgageRequest({
+        base_rate_path: [
+          { month: 0, rate: 4 },
+          { month: 12, rate: 2 },
+        ],
+        deals: [{ start_month: 0, end_month: 24, rate: 4.5, type: 'discount', discount: 1.5, collar: 3.5 }],
+      })
+    )
+    expect(monthly_data[0].annual_mortgage_rate).toBe(4.5)
+    expect(monthly_data[6].annual_mortgage_rate).toBeCloseTo(3.5, 2)
+    expect(monthly_data[12].annual_mortgage_rate).toBe(3.5)
+    // The SVR after the deal follows the base rate too
+    expect(monthly_data[24].annual_mortgage_rate).toBe(4)
+  })
+})
+
+describe('overpayment allowance', () => {
+  it('allows 10% of the balance each deal year by default', () => {
+    const result = runSimulation(dealRequest({ erc_percent: 3 }, '1:10000'))
+    expect(result.summary_statistics.total_early_repayment_charges).toBe(0)
+    expect(result.warnings).toEqual([])
+  })
+
+  it('charges the ERC on the excess only, across the deal year', () => {
+    const result = runSimulation(dealRequest({ erc_percent: 3 }, '1:6000,2:6000'))
+    // £2,000 over the £10,000 allowance at 3%
+    expect(result.monthly_data[1].early_repayment_charge).toBe(60)
+    expect(result.summary_statistics.total_early_repayment_charges).toBe(60)
+    expect(result.summary_statistics.deal_costs?.[0].early_repayment_charges).toBe(60)
+    expect(result.warnings).toEqual([
+      "Overpayment in month 2 exceeds the deal's 10% allowance by £2,000",
+      'Early repayment charge of £60 in month 2 (3% of the excess)',
+    ])
+  })
+
+  it('resets the allowance and steps the ERC each deal year', () => {
+    const result = runSimulation(dealRequest({ erc_percent_by_year: [5, 4] }, '1:10000,13:20000'))
+    const balance = result.monthly_data[12].principal_start
+    const charge = Math.round((20000 - balance * 0.1) * 4) / 100
+    expect(result.monthly_data[0].early_repayment_charge ?? 0).toBe(0)
+    expect(result.monthly_data[12].early_repayment_charge).toBeCloseTo(charge, 2)
+  })
+
+  it('uses the deal allowance when set', () => {
+    const result = runSimulation(dealRequest({ erc_percent: 3, overpayment_allowance_percent: 20 }, '1:15000'))
+    expect(result.summary_statistics.total_early_repayment_charges).toBe(0)
+    expect(result.warnings).toEqual([])
+  })
+
+  it('warns about overpaying beyond the allowance even without an ERC', () => {
+    const result = runSimulation(dealRequest({}, '1:15000'))
+    expect(result.summary_statistics.total_early_repayment_charges).toBe(0)
+    expect(result.warnings).toEqual(["Overpayment in month 1 exceeds the deal's 10% allowance by £5,000"])
+  })
+})
@@ -0,0 +1,650 @@
+import type {
+  BaseRatePoint,
+  Deal,
+  DealCost,
+  SimulationRequest,
+  SimulationResponse,
+  MortgageParameters,
+  SavingsParameters,
+  SavingsAccount,
+  MonthlyData,
+  ChartData,
+  AccountChartData,
+  SummaryStatistics,
+} from '../types/mortgage'
+
+// Client-side implementation of the /simulate endpoint.
+// Mirrors the API contract so it can be swapped in wherever MortgageApiService.simulate is used.
+
+// Defaults applied by the API when optional fields are omitted
+export const DEFAULT_VARIABLE_RATE = 6.0
+const DEFAULT_BASE_RATE = 4.0
+const DEFAULT_TYPICAL_PAYMENT = 878.0
+const DEFAULT_ASSET_VALUE = 360000.0
+const DEFAULT_YEARS_AFTER_PAYOFF = 5
+const DEFAULT_SAVINGS_ACCOUNT: SavingsAccount = {
+  name: 'Savings',
+  rate: 4.3,
+  monthly_contribution: 2500.0,
+  initial_balance: 170000.0,
+  draw_for_repayment: true,
+}
+
+// Balances below half a penny are treated as fully repaid
+const PAID_OFF_EPSILON = 0.005
+
+// Typical UK lender allowance: 10% of the balance per deal year can be overpaid without charge
+const DEFAULT_OVERPAYMENT_ALLOWANCE_PERCENT = 10
+
+/**
+ * Optional month-by-month overrides used by stochastic (Monte Carlo) runs.
+ * Arrays are indexed by 0-based month; missing entries fall back to the request.
+ */
+export interface SimulationPaths {
+  savingsRates?: (number[] | undefined)[] // Per account: annual return % earned each month
+  rateShifts?: number[] // Percentage points added to the SVR and base rate each month
+}
+
+// Penalty-free overpayment allowance for one deal year
+interface AllowanceState {
+  limit: number
+  used: number
+}
+
+interface AccountState {
+  account: SavingsAccount
+  offset: boolean // Reduces the interest-bearing mortgage balance instead of earning interest
+  offsetApplied: number // Part of the balance offsetting the mortgage this month; earns no interest
+  balance: number
+  chart: AccountChartData
+  totalContributions: number
+  totalInterest: number
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100
+
+const formatPounds = (value: number): string =>
+  `£${value.toLocaleString('en-GB', { minimumFractionDigits: 0, maximumFractionDigits: 2 })}`
+
+/**
+ * Parse an overpayment string in 'month:amount,month:amount' format.
+ * Amounts for repeated months are summed; malformed entries are reported as warnings.
+ */
+export const parseOverpaymentString = (
+  overpayments: string | null | undefined,
+  warnings: string[] = []
+): Map<number, number> => {
+  const schedule = new Map<number, number>()
+  if (!overpayments) return schedule
+
+  for (const entry of overpayments.split(',')) {
+    const trimmed = entry.trim()
+    if (!trimmed) continue
+
+    const [monthPart, amountPart] = trimmed.split(':')
+    const month = Number(monthPart)
+    const amount = Number(amountPart)
+
+    if (!Number.isInteger(month) || month < 1 || !Number.isFinite(amount) || amount < 0) {
+      warnings.push(`Ignored invalid overpayment entry '${trimmed}'`)
+      continue
+    }
+
+    schedule.set(month, (schedule.get(month) ?? 0) + amount)
+  }
+
+  return schedule
+}
+
+/**
+ * Deal covering a 0-based month index, if any.
+ */
+export const getDealForMonth = (mortgage: MortgageParameters, monthIndex: number): Deal | undefined =>
+  mortgage.deals?.find(d => monthIndex >= d.start_month && monthIndex < d.end_month)
+
+/**
+ * Whether a deal restricts overpayments, i.e. charges an ERC in any year.
+ */
+export const dealHasEarlyRepaymentCharges = (deal: Deal): boolean =>
+  (deal.erc_percent ?? 0) > 0 || (deal.erc_percent_by_year ?? []).some(p => p > 0)
+
+/**
+ * Penalty-free overpayment allowance for a deal, as a percentage of the balance at each deal year start.
+ */
+export const getOverpaymentAllowancePercent = (deal: Deal): number =>
+  deal.overpayment_allowance_percent ?? DEFAULT_OVERPAYMENT_ALLOWANCE_PERCENT
+
+/**
+ * ERC percentage for a 0-based year within a deal.
+ * Stepped schedules hold their last step for any years beyond the listed ones.
+ */
+export const getErcPercentForDealYear = (deal: Deal, dealYear: number): number => {
+  const steps = deal.erc_percent_by_year
+  if (steps && steps.length > 0) {
+    return steps[Math.min(dealYear, steps.length - 1)]
+  }
+  return deal.erc_percent ?? 0
+}
+
+/**
+ * Whether a deal carries fees or cashback.
+ */
+export const dealHasFees = (deal: Deal): boolean =>
+  (deal.arrangement_fee ?? 0) > 0 || (deal.valuation_fee ?? 0) > 0 || (deal.cashback ?? 0) > 0
+
+/**
+ * Projected base rate for a 0-based month index.
+ * Linear between points; the first and last points are held before and after the path.
+ */
+export const getBaseRateForMonth = (path: BaseRatePoint[] | undefined, monthIndex: number): number => {
+  if (!path || path.length === 0) return DEFAULT_BASE_RATE
+
+  const sorted = [...path].sort((a, b) => a.month - b.month)
+  if (monthIndex <= sorted[0].month) return sorted[0].rate
+
+  for (let i = 1; i < sorted.length; i++) {
+    const prev = sorted[i - 1]
+    const next = sorted[i]
+    if (monthIndex <= next.month) {
+      const span = next.month - prev.month
+      return span > 0 ? prev.rate + ((next.rate - prev.rate) * (monthIndex - prev.month)) / span : next.rate
+    }
+  }
+  return sorted[sorted.length - 1].rate
+}
+
+/**
+ * SVR for a 0-based month index. The SVR moves point-for-point with the base rate
+ * relative to its value at the start of the simulation.
+ */
+export const getVariableRateForMonth = (mortgage: MortgageParameters, monthIndex: number): number => {
+  const variableRate = mortgage.variable_rate ?? DEFAULT_VARIABLE_RATE
+  const path = mortgage.base_rate_path
+  if (!path || path.length === 0) return variableRate
+
+  return Math.max(0, variableRate + getBaseRateForMonth(path, monthIndex) - getBaseRateForMonth(path, 0))
+}
+
+/**
+ * Rate charged under a deal in a given month: fixed deals use their rate, trackers follow
+ * the base rate plus margin, discounts follow the SVR minus discount; the collar is a floor.
+ */
+export const getDealRateForMonth = (
+  mortgage: MortgageParameters,
+  deal: Deal,
+  monthIndex: number
+): number => {
+  switch (deal.type) {
+    case 'tracker':
+      return Math.max(deal.collar ?? 0, getBaseRateForMonth(mortgage.base_rate_path, monthIndex) + (deal.margin ?? 0))
+    case 'discount':
+      return Math.max(deal.collar ?? 0, getVariableRateForMonth(mortgage, monthIndex) - (deal.discount ?? 0))
+    default:
+      return deal.rate
+  }
+}
+
+/**
+ * Annual mortgage rate for a 0-based month index.
+ * Deals take precedence; gaps between deals (and everything after them) fall back to the SVR.
+ * Without deals, the legacy fixed_rate/fixed_term_months pair is used.
+ */
+export const getAnnualRateForMonth = (mortgage: MortgageParameters, monthIndex: number): number => {
+  const variableRate = getVariableRateForMonth(mortgage, monthIndex)
+
+  if (mortgage.deals && mortgage.deals.length > 0) {
+    const deal = getDealForMonth(mortgage, monthIndex)
+    return deal ? getDealRateForMonth(mortgage, deal, monthIndex) : variableRate
+  }
+
+  return monthIndex < mortgage.fixed_term_months ? mortgage.fixed_rate : variableRate
+}
+
+/**
+ * Whether the rate for a 0-based month floats with the base rate/SVR rather than being fixed.
+ */
+export const isVariableRateMonth = (mortgage: MortgageParameters, monthIndex: number): boolean => {
+  if (mortgage.deals && mortgage.deals.length > 0) {
+    const deal = getDealForMonth(mortgage, monthIndex)
+    return !deal || (deal.type ?? 'fixed') !== 'fixed'
+  }
+  return monthIndex >= mortgage.fixed_term_months
+}
+
+/**
+ * Portion of the loan on interest-only terms, from the repayment type.
+ */
+export const getInterestOnlyAmount = (mortgage: MortgageParameters): number => {
+  switch (mortgage.repayment_type) {
+    case 'interest_only':
+      return mortgage.amount
+    case 'part_and_part':
+      return Math.min(Math.max(0, mortgage.interest_only_amount ?? 0), mortgage.amount)
+    default:
+      return 0
+  }
+}
+
+/**
+ * Month (1-based) at which the initial fixed period ends, used for fixed_term_end_balance.
+ */
+const getFixedTermEndMonth = (mortgage: MortgageParameters): number => {
+  if (mortgage.deals && mortgage.deals.length > 0) {
+    const first = [...mortgage.deals].sort((a, b) => a.start_month - b.start_month)[0]
+    return first.end_month
+  }
+  return mortgage.fixed_term_months
+}
+
+/**
+ * Standard annuity payment for the remaining balance over the remaining months.
+ */
+export const calculateMonthlyPayment = (
+  principal: number,
+  annualRate: number,
+  remainingMonths: number
+): number => {
+  if (principal <= 0) return 0
+  if (remainingMonths <= 0) return principal
+
+  const monthlyRate = annualRate / 100 / 12
+  if (monthlyRate === 0) return principal / remainingMonths
+
+  return (principal * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -remainingMonths))
+}
+
+// Resolve accounts, falling back to the legacy single-account fields
+const resolveAccounts = (savings: SavingsParameters): SavingsAccount[] => {
+  if (savings.accounts) return savings.accounts
+
+  return [
+    {
+      ...DEFAULT_SAVINGS_ACCOUNT,
+      rate: savings.rate ?? DEFAULT_SAVINGS_ACCOUNT.rate,
+      monthly_contribution: savings.monthly_contribution ?? DEFAULT_SAVINGS_ACCOUNT.monthly_contribution,
+      initial_balance: savings.initial_balance ?? DEFAULT_SAVINGS_ACCOUNT.initial_balance,
+    },
+  ]
+}
+
+// Payment differences are settled against the first drawable account, or the first account
+const getSettlementAccount = (accounts: AccountState[]): AccountState | undefined =>
+  accounts.find(a => a.account.draw_for_repayment) ?? accounts[0]
+
+// Balance-weighted average savings rate across accounts in credit; offsetting balances earn nothing
+const getBlendedSavingsRate = (accounts: AccountState[]): number => {
+  const positive = accounts.filter(a => a.balance > 0)
+  const total = positive.reduce((sum, a) => sum + a.balance, 0)
+  if (total <= 0) return accounts[0]?.account.rate ?? 0
+  return positive.reduce((sum, a) => sum + Math.max(0, a.balance - a.offsetApplied) * a.account.rate, 0) / total
+}
+
+// Apply offset accounts in order against the outstanding balance, returning the total offset
+const applyOffset = (accounts: AccountState[], principal: number): number => {
+  let remaining = Math.max(0, principal)
+  for (const state of accounts) {
+    state.offsetApplied = state.offset ? Math.min(Math.max(0, state.balance), remaining) : 0
+    remaining -= state.offsetApplied
+  }
+  return Math.max(0, principal) - remaining
+}
+
+// Pad or truncate a series to `length`, holding its last value
+export const alignSeries = (series: number[], length: number): number[] =>
+  Array.from({ length }, (_, i) => series[Math.min(i, series.length - 1)] ?? 0)
+
+// Withdraw up to `amount` from drawable accounts in order, returning what was withdrawn
+const withdrawForOverpayment = (accounts: AccountState[], amount: number): number => {
+  let remaining = amount
+  for (const state of accounts) {
+    if (remaining <= 0) break
+    if (!state.account.draw_for_repayment || state.balance <= 0) continue
+
+    const taken = Math.min(state.balance, remaining)
+    state.balance -= taken
+    remaining -= taken
+  }
+  return amount - remaining
+}
+
+/**
+ * Run a complete mortgage and savings simulation locally.
+ * `paths` replaces the flat savings returns and rates with per-month values.
+ */
+export const runSimulation = (request: SimulationRequest, paths?: SimulationPaths): SimulationResponse => {
+  const { mortgage, savings } = request
+  const simulation = request.simulation ?? {}
+
+  const warnings: string[] = []
+  const typicalPayment = simulation.typical_payment ?? DEFAULT_TYPICAL_PAYMENT
+  const assetValue = simulation.asset_value ?? DEFAULT_ASSET_VALUE
+  const yearsAfterPayoff = simulation.show_years_after_payoff ?? DEFAULT_YEARS_AFTER_PAYOFF
+  const overpaymentSchedule = parseOverpaymentString(simulation.overpayments, warnings)
+
+  const termMonths = Math.round(mortgage.term_years * 12)
+  const fixedTermEndMonth = getFixedTermEndMonth(mortgage)
+
+  const offsetEnabled = mortgage.offset_enabled ?? false
+  const accounts: AccountState[] = resolveAccounts(savings).map(account => ({
+    account,
+    offset: offsetEnabled && (account.offset ?? false),
+    offsetApplied: 0,
+    balance: account.initial_balance,
+    chart: { name: account.name, balance: [], interest_received: [], contributions: [] },
+    totalContributions: 0,
+    totalInterest: 0,
+  }))
+
+  const monthlyData: MonthlyData[] = []
+  let principal = mortgage.amount
+  // Interest-only capital is never amortised; it falls due in full when the term ends
+  let interestOnlyBalance = getInterestOnlyAmount(mortgage)
+  let termEndShortfall: number | null = null
+  let termEndShortfallCovered: boolean | undefined
+  let paidOffMonth: number | null = principal <= PAID_OFF_EPSILON ? 0 : null
+  let fixedTermEndBalance: number | null = null
+  let warnedNegativeSavings = false
+  let totalEarlyRepaymentCharges = 0
+  let totalOffsetInterestSaved = 0
+  const settlement = getSettlementAccount(accounts)
+  const dealCosts: DealCost[] = (mortgage.deals ?? []).map((d, index) => ({
+    deal_index: index,
+    start_month: d.start_month,
+    end_month: d.end_month,
+    rate: round2(getDealRateForMonth(mortgage, d, d.start_month)),
+    type: d.type ?? 'fixed',
+    interest_paid: 0,
+    fees: 0,
+    cashback: 0,
+    early_repayment_charges: 0,
+    total_cost: 0,
+  }))
+  // Keyed by `${dealIndex}:${dealYear}`; each limit is fixed from the balance when the deal year opens
+  const allowances = new Map<string, AllowanceState>()
+
+  for (let month = 1; ; month++) {
+    const horizon = (paidOffMonth ?? termMonths) + yearsAfterPayoff * 12
+    if (month > horizon) break
+
+    const deal = getDealForMonth(mortgage, month - 1)
+    const dealCost = deal && mortgage.deals ? dealCosts[mortgage.deals.indexOf(deal)] : undefined
+
+    // Fees and cashback apply when a deal starts on a live mortgage; capitalised fees accrue interest
+    let dealFees = 0
+    let cashback = 0
+    if (deal && dealCost && month - 1 === deal.start_month && principal > PAID_OFF_EPSILON) {
+      dealFees = (deal.arrangement_fee ?? 0) + (deal.valuation_fee ?? 0)
+      cashback = deal.cashback ?? 0
+      if (deal.fees_added_to_loan) {
+        principal += dealFees
+      } else if (settlement) {
+        settlement.balance -= dealFees
+      }
+      if (settlement) {
+        settlement.balance += cashback
+      }
+      dealCost.fees += dealFees
+      dealCost.cashback += cashback
+    }
+
+    const principalStart = principal
+    const rateShift = isVariableRateMonth(mortgage, month - 1) ? paths?.rateShifts?.[month - 1] ?? 0 : 0
+    const annualRate = Math.max(0, getAnnualRateForMonth(mortgage, month - 1) + rateShift)
+    const monthlyRate = annualRate / 100 / 12
+
+    const dealYear = deal ? Math.floor((month - 1 - deal.start_month) / 12) : 0
+    let allowance: AllowanceState | undefined
+    if (deal && dealCost) {
+      const key = `${dealCost.deal_index}:${dealYear}`
+      allowance = allowances.get(key)
+      if (!allowance) {
+        allowance = { limit: (principalStart * getOverpaymentAllowancePercent(deal)) / 100, used: 0 }
+        allowances.set(key, allowance)
+      }
+    }
+
+    // Mortgage: interest accrues on the opening balance less any offset savings, while the payment
+    // re-amortises the repayment part over the remaining term plus interest on the interest-only part
+    const offsetBalance = applyOffset(accounts, principal > PAID_OFF_EPSILON ? principal : 0)
+    let interest = 0
+    let offsetInterestSaved = 0
+    let payment = 0
+    let principalRepaid = 0
+    if (principal > PAID_OFF_EPSILON) {
+      interest = (principal - offsetBalance) * monthlyRate
+      offsetInterestSaved = principal * monthlyRate - interest
+      totalOffsetInterestSaved += offsetInterestSaved
+      const repaymentBalance = principal - interestOnlyBalance
+      payment = Math.min(
+        calculateMonthlyPayment(repaymentBalance, annualRate, Math.max(1, termMonths - month + 1)) +
+          interestOnlyBalance * monthlyRate,
+        principal + interest
+      )
+      principalRepaid = payment - interest
+      principal -= principalRepaid
+      interestOnlyBalance = Math.min(interestOnlyBalance, principal)
+    }
+    if (dealCost) {
+      dealCost.interest_paid += interest
+    }
+
+    // Savings: interest on the opening balance, then contributions
+    let savingsInterest = 0
+    accounts.forEach((state, accountIndex) => {
+      const rate = paths?.savingsRates?.[accountIndex]?.[month - 1] ?? state.account.rate
+      const earningBalance = state.balance - state.offsetApplied
+      const interestEarned = earningBalance > 0 ? (earningBalance * rate) / 100 / 12 : 0
+      state.balance += interestEarned + state.account.monthly_contribution
+      state.totalInterest += interestEarned
+      state.totalContributions += state.account.monthly_contribution
+      savingsInterest += interestEarned
+      state.chart.interest_received.push(round2(interestEarned))
+      state.chart.contributions.push(round2(state.account.monthly_contribution))
+    })
+
+    // Difference between the typical and actual payment is saved (or drawn when negative)
+    const paymentDifference = typicalPayment - payment
+    if (settlement) {
+      settlement.balance += paymentDifference
+    }
+
+    // Overpayments are funded from drawable savings and capped at the outstanding balance
+    let overpayment = 0
+    const requestedOverpayment = overpaymentSchedule.get(month) ?? 0
+    if (requestedOverpayment > 0) {
+      if (principal <= PAID_OFF_EPSILON) {
+        warnings.push(`Overpayment of ${formatPounds(requestedOverpayment)} in month ${month} ignored: mortgage already paid off`)
+      } else {
+        const capped = Math.min(requestedOverpayment, principal)
+        overpayment = withdrawForOverpayment(accounts, capped)
+        principal -= overpayment
+        interestOnlyBalance = Math.max(0, interestOnlyBalance - overpayment)
+
+        if (overpayment < requestedOverpayment) {
+          const reason = overpayment < capped ? 'insufficient drawable savings' : 'exceeds remaining balance'
+          warnings.push(
+            `Overpayment in month ${month} reduced from ${formatPounds(requestedOverpayment)} to ${formatPounds(round2(overpayment))} (${reason})`
+          )
+        }
+      }
+    }
+
+    // Overpayments beyond the deal's annual allowance are flagged, and incur an ERC (paid from
+    // savings) on deals that charge one
+    let earlyRepaymentCharge = 0
+    if (overpayment > 0 && deal && allowance) {
+      const excess = Math.max(0, overpayment - Math.max(0, allowance.limit - allowance.used))
+      if (excess > 0) {
+        warnings.push(
+          `Overpayment in month ${month} exceeds the deal's ${getOverpaymentAllowancePercent(deal)}% allowance by ${formatPounds(round2(excess))}`
+        )
+      }
+
+      const ercPercent = dealHasEarlyRepaymentCharges(deal) ? getErcPercentForDealYear(deal, dealYear) : 0
+      earlyRepaymentCharge = (excess * ercPercent) / 100
+      if (earlyRepaymentCharge > 0) {
+        if (settlement) {
+          settlement.balance -= earlyRepaymentCharge
+        }
+        totalEarlyRepaymentCharges += earlyRepaymentCharge
+        if (dealCost) {
+          dealCost.early_repayment_charges += earlyRepaymentCharge
+        }
+        warnings.push(
+          `Early repayment charge of ${formatPounds(round2(earlyRepaymentCharge))} in month ${month} (${ercPercent}% of the excess)`
+        )
+      }
+    }
+    if (allowance) {
+      allowance.used += overpayment
+    }
+
+    // Interest-only capital still owed at term end is repaid from drawable savings where possible
+    if (month === termMonths && interestOnlyBalance > PAID_OFF_EPSILON) {
+      termEndShortfall = round2(principal)
+      const repaid = withdrawForOverpayment(accounts, principal)
+      principal -= repaid
+      interestOnlyBalance = Math.max(0, interestOnlyBalance - repaid)
+      overpayment += repaid
+      termEndShortfallCovered = principal <= PAID_OFF_EPSILON
+
+      if (!termEndShortfallCovered) {
+        warnings.push(
+          `Savings cover only ${formatPounds(round2(repaid))} of the ${formatPounds(termEndShortfall)} interest-only capital due at the end of the term`
+        )
+      }
+    }
+
+    if (principal <= PAID_OFF_EPSILON) {
+      principal = 0
+      if (paidOffMonth === null) paidOffMonth = month
+    }
+
+    if (month === fixedTermEndMonth) {
+      fixedTermEndBalance = round2(principal)
+    }
+
+    const savingsBalance = accounts.reduce((sum, a) => sum + a.balance, 0)
+    if (savingsBalance < 0 && !warnedNegativeSavings) {
+      warnedNegativeSavings = true
+      warnings.push(`Savings balance goes negative in month ${month}`)
+    }
+
+    for (const state of accounts) {
+      state.chart.balance.push(round2(state.balance))
+    }
+
+    const annualSavingsRate = getBlendedSavingsRate(accounts)
+
+    monthlyData.push({
+      month,
+      year: month / 12,
+      principal_start: round2(principalStart),
+      principal_end: round2(principal),
+      monthly_payment: round2(payment),
+      overpayment: round2(overpayment),
+      total_payment: round2(payment + overpayment),
+      interest_paid: round2(interest),
+      principal_repaid: round2(principalRepaid),
+      savings_balance_end: round2(savingsBalance),
+      savings_interest: round2(savingsInterest),
+      net_worth: round2(savingsBalance - principal + assetValue),
+      annual_mortgage_rate: annualRate,
+      monthly_interest_rate: monthlyRate,
+      annual_savings_rate: round2(annualSavingsRate),
+      monthly_savings_rate: annualSavingsRate / 100 / 12,
+      payment_difference: round2(paymentDifference),
+      early_repayment_charge: round2(earlyRepaymentCharge),
+      deal_fees: round2(dealFees),
+      cashback: round2(cashback),
+      offset_balance: round2(offsetBalance),
+      offset_interest_saved: round2(offsetInterestSaved),
+    })
+  }
+
+  if (paidOffMonth === null && principal > PAID_OFF_EPSILON) {
+    warnings.push(`Mortgage not fully repaid by the end of the term: ${formatPounds(round2(principal))} outstanding`)
+  }
+
+  const chartData: ChartData = {
+    years: monthlyData.map(d => d.year),
+    mortgage_balance: monthlyData.map(d => d.principal_end),
+    savings_balance: monthlyData.map(d => d.savings_balance_end),
+    net_worth: monthlyData.map(d => d.net_worth),
+    monthly_payments: monthlyData.map(d => d.monthly_payment),
+    interest_paid: monthlyData.map(d => d.interest_paid),
+    principal_paid: monthlyData.map(d => d.principal_repaid),
+    monthly_savings_data: monthlyData.map((_, i) =>
+      round2(accounts.reduce((sum, a) => sum + a.chart.contributions[i], 0))
+    ),
+    interest_received: monthlyData.map(d => d.savings_interest),
+    accounts: accounts.map(a => a.chart),
+    annual_mortgage_rate: monthlyData.map(d => d.annual_mortgage_rate),
+  }
+
+  if (mortgage.base_rate_path && mortgage.base_rate_path.length > 0) {
+    chartData.base_rate = monthlyData.map(d => round2(getBaseRateForMonth(mortgage.base_rate_path, d.month - 1)))
+  }
+
+  // Offset products are judged against the same scenario without the offset
+  if (accounts.some(a => a.offset)) {
+    const baseline = runSimulation({ ...request, mortgage: { ...mortgage, offset_enabled: false } }, paths)
+    chartData.offset_interest_saved = monthlyData.map(d => d.offset_interest_saved ?? 0)
+    chartData.non_offset_mortgage_balance = alignSeries(baseline.chart_data.mortgage_balance, monthlyData.length)
+    chartData.non_offset_net_worth = alignSeries(baseline.chart_data.net_worth, monthlyData.length)
+  }
+
+  let minSavingsBalance = monthlyData.length > 0 ? monthlyData[0].savings_balance_end : 0
+  let minSavingsMonth = monthlyData.length > 0 ? monthlyData[0].month : 0
+  for (const d of monthlyData) {
+    if (d.savings_balance_end < minSavingsBalance) {
+      minSavingsBalance = d.savings_balance_end
+      minSavingsMonth = d.month
+    }
+  }
+
+  const last = monthlyData[monthlyData.length - 1]
+  const summaryStatistics: SummaryStatistics = {
+    final_mortgage_balance: last ? last.principal_end : round2(principal),
+    final_savings_balance: last ? last.savings_balance_end : 0,
+    final_net_worth: last ? last.net_worth : round2(assetValue - principal),
+    min_savings_balance: minSavingsBalance,
+    min_savings_month: minSavingsMonth,
+    mortgage_paid_off_month: paidOffMonth,
+    fixed_term_end_balance: fixedTermEndBalance,
+    total_early_repayment_charges: round2(totalEarlyRepaymentCharges),
+    total_offset_interest_saved: round2(totalOffsetInterestSaved),
+    term_end_shortfall: termEndShortfall,
+    term_end_shortfall_covered: termEndShortfallCovered,
+    term_end_shortfall_month: termEndShortfall !== null ? termMonths : null,
+    deal_costs: dealCosts.map(cost => ({
+      ...cost,
+      interest_paid: round2(cost.interest_paid),
+      fees: round2(cost.fees),
+      cashback: round2(cost.cashback),
+      early_repayment_charges: round2(cost.early_repayment_charges),
+      total_cost: round2(cost.interest_paid + cost.fees + cost.early_repayment_charges - cost.cashback),
+    })),
+    account_summaries: accounts.map(a => ({
+      name: a.account.name,
+      final_balance: round2(a.balance),
+      total_contributions: round2(a.totalContributions),
+      total_interest_earned: round2(a.totalInterest),
+    })),
+  }
+
+  return {
+    monthly_data: monthlyData,
+    summary_statistics: summaryStatistics,
+    chart_data: chartData,
+    warnings,
+  }
+}
+
+/**
+ * Promise-based wrapper with the same signature as MortgageApiService.simulate,
+ * so the local engine can be used as a drop-in simulation backend.
+ */
+export const simulateLocally = async (request: SimulationRequest): Promise<SimulationResponse> => {
+  return runSimulation(request)
+}
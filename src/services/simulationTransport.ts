@@ -0,0 +1,210 @@
+import axios from 'axios'
+import type { SimulationRequest, SimulationResponse } from '../types/mortgage'
+import { MortgageApiService } from './mortgageApi'
+import { runSimulation, dealHasEarlyRepaymentCharges, dealHasFees } from './simulationEngine'
+import { getCachedSimulation, cacheSimulation } from './simulationCache'
+
+// Transport abstraction for running simulations.
+// Each run receives an AbortSignal; aborted runs must reject with an abort error.
+
+export interface SimulationTransport {
+  run: (request: SimulationRequest, signal: AbortSignal) => Promise<SimulationResponse>
+  dispose?: () => void
+}
+
+// Messages exchanged with the simulation worker
+export interface SimulationWorkerRequest {
+  id: number
+  request: SimulationRequest
+}
+
+export type SimulationWorkerResponse =
+  | { id: number; result: SimulationResponse }
+  | { id: number; error: string }
+
+export const createAbortError = (): Error => {
+  const error = new Error('Simulation aborted')
+  error.name = 'AbortError'
+  return error
+}
+
+// True for errors raised by a superseded (aborted) run
+export const isAbortError = (error: unknown): boolean => {
+  if (axios.isCancel(error)) return true
+  return error instanceof Error && (error.name === 'AbortError' || error.name === 'CanceledError')
+}
+
+// True for requests that got no response at all, e.g. while offline. Engine and validation
+// errors are never network errors, whatever the connection state.
+export const isNetworkError = (error: unknown): boolean =>
+  axios.isAxiosError(error) && !error.response && !axios.isCancel(error)
+
+/**
+ * Remote API transport; aborting cancels the underlying HTTP request.
+ */
+export const apiTransport: SimulationTransport = {
+  run: (request, signal) => MortgageApiService.simulate(request, { signal }),
+}
+
+/**
+ * In-thread local engine transport. The engine is synchronous, so aborting only discards the result.
+ */
+export const localTransport: SimulationTransport = {
+  run: async (request, signal) => {
+    if (signal.aborted) throw createAbortError()
+    const result = runSimulation(request)
+    if (signal.aborted) throw createAbortError()
+    return result
+  },
+}
+
+/**
+ * Local engine running in a Web Worker. The worker runs requests in the order they were posted.
+ * Aborting the run in progress terminates the worker so it cannot delay newer ones, and the
+ * other pending runs are posted again to a fresh worker; only the aborted run is rejected.
+ */
+export const createWorkerTransport = (): SimulationTransport => {
+  let worker: Worker | null = null
+  let nextId = 0
+  // In posting order, so the first entry is the run in progress
+  const pending = new Map<
+    number,
+    {
+      request: SimulationRequest
+      resolve: (result: SimulationResponse) => void
+      reject: (error: Error) => void
+    }
+  >()
+
+  const rejectAll = (error: Error) => {
+    pending.forEach(({ reject }) => reject(error))
+    pending.clear()
+  }
+
+  const terminate = () => {
+    worker?.terminate()
+    worker = null
+  }
+
+  const getWorker = (): Worker => {
+    if (worker) return worker
+
+    worker = new Worker(new URL('../workers/simulation.worker.ts', import.meta.url), {
+      type: 'module',
+    })
+    worker.onmessage = (event: MessageEvent<SimulationWorkerResponse>) => {
+      const message = event.data
+      const entry = pending.get(message.id)
+      if (!entry) return
+
+      pending.delete(message.id)
+      if ('result' in message) {
+        entry.resolve(message.result)
+      } else {
+        entry.reject(new Error(message.error))
+      }
+    }
+    worker.onerror = (event) => {
+      terminate()
+      rejectAll(new Error(event.message || 'Simulation worker failed'))
+    }
+    return worker
+  }
+
+  const post = (id: number, request: SimulationRequest) => {
+    const message: SimulationWorkerRequest = { id, request }
+    getWorker().postMessage(message)
+  }
+
+  const abortRun = (id: number) => {
+    const entry = pending.get(id)
+    if (!entry) return
+
+    const inProgress = pending.keys().next().value === id
+    pending.delete(id)
+    entry.reject(createAbortError())
+
+    // A queued run's result is simply ignored when it arrives
+    if (!inProgress) return
+    terminate()
+    pending.forEach(({ request }, pendingId) => post(pendingId, request))
+  }
+
+  return {
+    run: (request, signal) =>
+      new Promise<SimulationResponse>((resolve, reject) => {
+        if (signal.aborted) {
+          reject(createAbortError())
+          return
+        }
+
+        const id = ++nextId
+        pending.set(id, { request, resolve, reject })
+        signal.addEventListener('abort', () => abortRun(id), { once: true })
+        post(id, request)
+      }),
+    dispose: () => {
+      terminate()
+      rejectAll(createAbortError())
+    },
+  }
+}
+
+/**
+ * True when a request uses features only the local engine models (the API would ignore them).
+ */
+export const requiresLocalEngine = (request: SimulationRequest): boolean =>
+  (request.mortgage.offset_enabled ?? false) ||
+  (request.mortgage.repayment_type ?? 'repayment') !== 'repayment' ||
+  (request.mortgage.base_rate_path ?? []).length > 0 ||
+  (request.mortgage.deals ?? []).some(deal =>
+    (deal.type ?? 'fixed') !== 'fixed' || dealHasEarlyRepaymentCharges(deal) || dealHasFees(deal)
+  )
+
+export type SimulationEngine = 'api' | 'local'
+
+/**
+ * Engine the default transport runs a request on, so pages can say where results came from.
+ * VITE_SIMULATION_BACKEND=local runs everything locally; otherwise only requests the API
+ * cannot model do. Cached results were produced by the same engine.
+ */
+export const getSimulationEngine = (request: SimulationRequest): SimulationEngine =>
+  import.meta.env.VITE_SIMULATION_BACKEND === 'local' || requiresLocalEngine(request) ? 'local' : 'api'
+
+/**
+ * Runs each request on the engine getSimulationEngine picks for it.
+ */
+const createHybridTransport = (local: SimulationTransport): SimulationTransport => ({
+  run: (request, signal) =>
+    getSimulationEngine(request) === 'local' ? local.run(request, signal) : apiTransport.run(request, signal),
+  dispose: local.dispose,
+})
+
+/**
+ * Serves repeated requests from results stored in IndexedDB, including across reloads and tabs.
+ */
+export const createCachedTransport = (inner: SimulationTransport): SimulationTransport => ({
+  run: async (request, signal) => {
+    const cached = await getCachedSimulation(request)
+    if (signal.aborted) throw createAbortError()
+    if (cached) return cached
+    const result = await inner.run(request, signal)
+    void cacheSimulation(request, result)
+    return result
+  },
+  dispose: inner.dispose,
+})
+
+let defaultTransport: SimulationTransport | null = null
+
+/**
+ * Shared transport: each request runs on the engine getSimulationEngine picks, with the local
+ * engine in a worker where available. Results are cached either way.
+ */
+export const getDefaultTransport = (): SimulationTransport => {
+  if (!defaultTransport) {
+    const local = typeof Worker !== 'undefined' ? createWorkerTransport() : localTransport
+    defaultTransport = createCachedTransport(createHybridTransport(local))
+  }
+  return defaultTransport
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest'
+import { applyRateShock, summarizeStressResult } from './stressTest'
+import { DEFAULT_VARIABLE_RATE, getAnnualRateForMonth, runSimulation } from './simulationEngine'
+import type { Deal, SimulationRequest } from '../types/mortgage'
+
+const requestWith = (deals: Deal[], variableRate?: number): SimulationRequest => ({
+  mortgage: {
+    amount: 200000,
+    term_years: 25,
+    fixed_rate: 4,
+    fixed_term_months: 24,
+    variable_rate: variableRate,
+    deals,
+  },
+  savings: { accounts: [] },
+  simulation: { typical_payment: 1200, show_years_after_payoff: 0, start_date: '2025-01-01' },
+})
+
+describe('applyRateShock', () => {
+  it('returns the request untouched without a shock', () => {
+    const request = requestWith([{ start_month: 0, end_month: 24, rate: 4 }], 5)
+    expect(applyRateShock(request, 0)).toBe(request)
+  })
+
+  it('keeps the current fixed deal and shocks later fixed deals and the SVR', () => {
+    const shocked = applyRateShock(
+      requestWith(
+        [
+          { start_month: 0, end_month: 24, rate: 4 },
+          { start_month: 24, end_month: 60, rate: 4.5 },
+        ],
+        5
+      ),
+      2
+    )
+    expect(shocked.mortgage.variable_rate).toBe(7)
+    expect(shocked.mortgage.deals?.map((deal) => deal.rate)).toEqual([4, 6.5])
+  })
+
+  it('shocks the default SVR when none is given', () => {
+    const shocked = applyRateShock(requestWith([]), 1)
+    expect(shocked.mortgage.variable_rate).toBe(DEFAULT_VARIABLE_RATE + 1)
+  })
+
+  it('shocks trackers and discounts whenever they start', () => {
+    const request = requestWith(
+      [
+        { start_month: 0, end_month: 24, rate: 4.75, type: 'tracker', margin: 0.75 },
+        { start_month: 24, end_month: 48, rate: 4, type: 'discount', discount: 1 },
+      ],
+      5
+    )
+    const shocked = applyRateShock(request, 2)
+    expect(shocked.mortgage.deals?.[0].margin).toBe(2.75)
+
+    // Both deals pay two points more from their first month
+    expect(getAnnualRateForMonth(shocked.mortgage, 0) - getAnnualRateForMonth(request.mortgage, 0)).toBeCloseTo(2)
+    expect(getAnnualRateForMonth(shocked.mortgage, 24) - getAnnualRateForMonth(request.mortgage, 24)).toBeCloseTo(2)
+  })
+
+  it('never shocks a rate below zero', () => {
+    const shocked = applyRateShock(
+      requestWith([{ start_month: 0, end_month: 24, rate: 4 }, { start_month: 24, end_month: 60, rate: 0.5 }], 0.5),
+      -1
+    )
+    expect(shocked.mortgage.variable_rate).toBe(0)
+    expect(shocked.mortgage.deals?.[1].rate).toBe(0)
+  })
+})
+
+describe('summarizeStressResult', () => {
+  it('costs more under a rate rise', () => {
+    const request = requestWith([{ start_month: 0, end_month: 24, rate: 4 }], 5)
+    const base = summarizeStressResult(0, runSimulation(request))
+    const shocked = summarizeStressResult(2, runSimulation(applyRateShock(request, 2)))
+
+    expect(shocked.shock).toBe(2)
+    expect(shocked.totalInterest).toBeGreaterThan(base.totalInterest)
+    expect(shocked.peakMonthlyPayment).toBeGreaterThan(base.peakMonthlyPayment)
+  })
+})
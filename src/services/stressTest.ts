@@ -0,0 +1,48 @@
+import { DEFAULT_VARIABLE_RATE } from './simulationEngine'
+import type { SimulationRequest, SimulationResponse } from '../types/mortgage'
+
+// Rate shocks in percentage points, applied to the SVR, variable-rate deals and fixed deals not yet taken
+export const RATE_SHOCKS = [-1, 1, 2, 3]
+
+export interface StressTestSummary {
+  shock: number
+  peakMonthlyPayment: number
+  totalInterest: number
+  payoffMonth: number | null
+}
+
+export const formatShock = (shock: number): string =>
+  shock === 0 ? 'Current rates' : `${shock > 0 ? '+' : '−'}${Math.abs(shock)}%`
+
+/**
+ * Copy of a request with rates shocked by `shock` percentage points.
+ * A fixed deal running at month 0 is locked in and keeps its rate; later fixed deals move by the
+ * shock. Trackers move whenever they start, via their margin, and discount deals follow the
+ * shocked SVR.
+ */
+export const applyRateShock = (request: SimulationRequest, shock: number): SimulationRequest => {
+  if (shock === 0) return request
+
+  const { mortgage } = request
+  const shift = (rate: number) => Math.max(0, rate + shock)
+
+  return {
+    ...request,
+    mortgage: {
+      ...mortgage,
+      variable_rate: shift(mortgage.variable_rate ?? DEFAULT_VARIABLE_RATE),
+      deals: mortgage.deals?.map((deal) => {
+        if (deal.type === 'tracker') return { ...deal, margin: (deal.margin ?? 0) + shock }
+        if (deal.type === 'discount' || deal.start_month === 0) return deal
+        return { ...deal, rate: shift(deal.rate) }
+      }),
+    },
+  }
+}
+
+export const summarizeStressResult = (shock: number, response: SimulationResponse): StressTestSummary => ({
+  shock,
+  peakMonthlyPayment: response.monthly_data.reduce((max, d) => Math.max(max, d.monthly_payment), 0),
+  totalInterest: response.monthly_data.reduce((sum, d) => sum + d.interest_paid, 0),
+  payoffMonth: response.summary_statistics.mortgage_paid_off_month ?? null,
+})
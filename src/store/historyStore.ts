@@ -0,0 +1,65 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import type { MortgageFormData } from '../utils/validation'
+import type { ChartOverpayment, OverpaymentRule } from './overpaymentStore'
+
+// Everything undo/redo restores: the form plus chart overpayments and rules
+export interface HistorySnapshot {
+  formData: MortgageFormData
+  chartOverpayments: ChartOverpayment[]
+  overpaymentRules: OverpaymentRule[]
+}
+
+// Oldest entries are dropped beyond this, which also bounds what is persisted
+export const HISTORY_LIMIT = 50
+
+interface HistoryStore {
+  // State
+  past: HistorySnapshot[] // Oldest first
+  future: HistorySnapshot[] // Next redo last
+
+  // Actions
+  record: (snapshot: HistorySnapshot) => void
+  undo: (current: HistorySnapshot) => HistorySnapshot | null
+  redo: (current: HistorySnapshot) => HistorySnapshot | null
+  clear: () => void
+}
+
+export const useHistoryStore = create<HistoryStore>()(
+  persist(
+    (set, get) => ({
+      // Initial state
+      past: [],
+      future: [],
+
+      // Push the state as it was before an edit; a new edit discards anything undone
+      record: (snapshot: HistorySnapshot) => {
+        set({ past: [...get().past, snapshot].slice(-HISTORY_LIMIT), future: [] })
+      },
+
+      // Step back, returning the state to restore; `current` becomes redoable
+      undo: (current: HistorySnapshot) => {
+        const { past, future } = get()
+        const previous = past[past.length - 1]
+        if (!previous) return null
+        set({ past: past.slice(0, -1), future: [...future, current].slice(-HISTORY_LIMIT) })
+        return previous
+      },
+
+      redo: (current: HistorySnapshot) => {
+        const { past, future } = get()
+        const next = future[future.length - 1]
+        if (!next) return null
+        set({ past: [...past, current].slice(-HISTORY_LIMIT), future: future.slice(0, -1) })
+        return next
+      },
+
+      clear: () => {
+        set({ past: [], future: [] })
+      },
+    }),
+    {
+      name: 'mortgasim-history',
+    }
+  )
+)
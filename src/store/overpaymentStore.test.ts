@@ -0,0 +1,104 @@
+import { describe, expect, it, vi } from 'vitest'
+import {
+  createPageOverpaymentStore,
+  expandOverpaymentRule,
+  overpaymentsToApiString,
+} from './overpaymentStore'
+import type { ChartOverpayment, OverpaymentRule } from './overpaymentStore'
+
+// The saved store would otherwise reach for IndexedDB and other tabs on import
+vi.mock('../utils/idbStorage', () => ({
+  idbStateStorage: { getItem: () => null, setItem: () => {}, removeItem: () => {} },
+}))
+vi.mock('../utils/tabSync', () => ({ syncPersistedStore: () => {} }))
+
+const rule = (overrides: Partial<OverpaymentRule>): OverpaymentRule => ({
+  id: 'rule',
+  type: 'monthly',
+  startPeriod: 1,
+  endPeriod: 12,
+  amount: 100,
+  ...overrides,
+})
+
+const oneOff = (periodIndex: number, amount: number): ChartOverpayment => ({
+  id: `op-${periodIndex}`,
+  periodIndex,
+  amount,
+  dateLabel: '',
+  isDragging: false,
+})
+
+describe('expandOverpaymentRule', () => {
+  it('covers both ends of the range and nothing outside it', () => {
+    const amounts = expandOverpaymentRule(rule({ startPeriod: 4, endPeriod: 6 }), '2025-01-01')
+    expect([...amounts]).toEqual([
+      [4, 100],
+      [5, 100],
+      [6, 100],
+    ])
+    expect(expandOverpaymentRule(rule({ startPeriod: 7, endPeriod: 7 }), null)).toEqual(new Map([[7, 100]]))
+  })
+
+  it('pays yearly bonuses in the calendar month from the start date', () => {
+    const bonus = rule({ type: 'yearly_bonus', endPeriod: 30, amount: 5000, bonusMonth: 12 })
+    // Starting in March, December is the 10th month
+    expect([...expandOverpaymentRule(bonus, '2025-03-01').keys()]).toEqual([10, 22])
+  })
+
+  it('counts months from the first period when there is no start date', () => {
+    const bonus = rule({ type: 'yearly_bonus', endPeriod: 30, amount: 5000, bonusMonth: 12 })
+    expect([...expandOverpaymentRule(bonus, null).keys()]).toEqual([12, 24])
+  })
+
+  it('grows escalating and pay-rise amounts each year of the rule', () => {
+    const escalating = expandOverpaymentRule(
+      rule({ type: 'escalating', startPeriod: 3, endPeriod: 27, escalationPercent: 10 }),
+      null
+    )
+    expect([escalating.get(3), escalating.get(14), escalating.get(15), escalating.get(27)]).toEqual([100, 100, 110, 121])
+
+    const payRise = expandOverpaymentRule(
+      rule({ type: 'salary_increase', endPeriod: 24, salary: 60000, salaryGrowthPercent: 5, percentOfIncrease: 50 }),
+      null
+    )
+    // No rise in the first year, then half of £3,000 a year
+    expect(payRise.has(12)).toBe(false)
+    expect(payRise.get(13)).toBe(125)
+  })
+})
+
+describe('overpaymentsToApiString', () => {
+  it('returns null when nothing is overpaid', () => {
+    expect(overpaymentsToApiString([])).toBeNull()
+    expect(overpaymentsToApiString([oneOff(3, 0)], [rule({ amount: 0 })])).toBeNull()
+  })
+
+  it('adds one-offs and rules falling in the same month into one entry', () => {
+    const result = overpaymentsToApiString(
+      [oneOff(12, 1000), oneOff(2, 50.5)],
+      [rule({ startPeriod: 11, endPeriod: 12, amount: 100 }), rule({ type: 'yearly_bonus', endPeriod: 12, amount: 2000 })],
+      null
+    )
+    expect(result).toBe('2:50.5,11:100,12:3100')
+  })
+})
+
+describe('loadSchedule', () => {
+  it('leaves date labels empty without a start date', () => {
+    const store = createPageOverpaymentStore([
+      { periodIndex: 8, amount: 500 },
+      { periodIndex: 2, amount: 250 },
+    ])
+    const { chartOverpayments, overpaymentRules } = store.getState()
+    expect(chartOverpayments.map(({ periodIndex, amount, dateLabel }) => ({ periodIndex, amount, dateLabel }))).toEqual([
+      { periodIndex: 2, amount: 250, dateLabel: '' },
+      { periodIndex: 8, amount: 500, dateLabel: '' },
+    ])
+    expect(overpaymentRules).toEqual([])
+
+    // Labels are filled in once the start date is known
+    store.getState().setStartDate('2025-01-01')
+    expect(store.getState().chartOverpayments.map((op) => op.dateLabel)).toEqual(['Feb 2025', 'Aug 2025'])
+  })
+})
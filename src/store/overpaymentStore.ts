@@ -1,6 +1,11 @@
-import { create } from 'zustand'
-import { persist } from 'zustand/middleware'
+import { createContext, useContext } from 'react'
+import { create, createStore, useStore } from 'zustand'
+import type { StateCreator, StoreApi } from 'zustand'
+import { persist, createJSONStorage } from 'zustand/middleware'
+import type { PersistStorage } from 'zustand/middleware'
 import { periodIndexToDate } from '../utils/chartSetup'
+import { idbStateStorage } from '../utils/idbStorage'
+import { syncPersistedStore } from '../utils/tabSync'
 
 export interface ChartOverpayment {
   id: string
@@ -10,20 +15,69 @@ export interface ChartOverpayment {
   isDragging: boolean
 }
 
+// Recurring overpayments, expanded into individual months when a request is built
+export type OverpaymentRuleType = 'monthly' | 'yearly_bonus' | 'salary_increase' | 'escalating'
+
+export interface OverpaymentRule {
+  id: string
+  type: OverpaymentRuleType
+  startPeriod: number // 1-based first month of the rule
+  endPeriod: number // 1-based last month, inclusive
+  amount: number // monthly: per month; yearly_bonus: per bonus; escalating: first year's monthly amount
+  bonusMonth?: number // yearly_bonus: calendar month 1-12
+  escalationPercent?: number // escalating: increase per year
+  salary?: number // salary_increase: annual salary when the rule starts
+  salaryGrowthPercent?: number // salary_increase: expected pay rise per year
+  percentOfIncrease?: number // salary_increase: share of the cumulative rise overpaid each month
+}
+
+export const overpaymentRuleLabels: Record<OverpaymentRuleType, string> = {
+  monthly: 'Monthly',
+  yearly_bonus: 'Yearly bonus',
+  salary_increase: 'Share of pay rises',
+  escalating: 'Escalating monthly',
+}
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+// Short description of a rule's amount, e.g. "£200/mo" or "£5,000 each Mar"
+export const formatOverpaymentRule = (rule: OverpaymentRule): string => {
+  const amount = `£${rule.amount.toLocaleString()}`
+  switch (rule.type) {
+    case 'monthly':
+      return `${amount}/mo`
+    case 'yearly_bonus':
+      return `${amount} each ${MONTH_NAMES[(rule.bonusMonth ?? 12) - 1]}`
+    case 'salary_increase':
+      return `${rule.percentOfIncrease ?? 0}% of pay rises`
+    case 'escalating':
+      return `${amount}/mo +${rule.escalationPercent ?? 0}%/yr`
+  }
+}
+
 interface OverpaymentStore {
   // State
   chartOverpayments: ChartOverpayment[]
+  overpaymentRules: OverpaymentRule[]
   editingId: string | null
   startDate: string | null // Used for date calculations
+  isDragging: boolean // A chart overpayment or the end of a rule is being dragged
 
   // Actions
   setStartDate: (date: string) => void
   addOverpayment: (periodIndex: number, amount: number) => void
   updateOverpayment: (id: string, updates: Partial<Omit<ChartOverpayment, 'id'>>) => void
   removeOverpayment: (id: string) => void
+  replaceAll: (overpayments: ChartOverpayment[]) => void
+  loadSchedule: (schedule: Array<{ periodIndex: number; amount: number }>) => void
   setEditingId: (id: string | null) => void
   setDragging: (id: string, isDragging: boolean) => void
+  setRuleDragging: (isDragging: boolean) => void
   clearAll: () => void
+  addRule: (rule: Omit<OverpaymentRule, 'id'>) => void
+  updateRule: (id: string, updates: Partial<Omit<OverpaymentRule, 'id'>>) => void
+  removeRule: (id: string) => void
+  replaceRules: (rules: OverpaymentRule[]) => void
 
   // Computed helpers
   toApiString: () => string | null
@@ -36,141 +90,299 @@ const generateDateLabel = (periodIndex: number, startDate: string): string => {
   return date.toLocaleDateString('en-GB', { month: 'short', year: 'numeric' })
 }
 
+/**
+ * Monthly amounts a rule contributes, keyed by period index. Yearly bonuses fall in the given
+ * calendar month, which needs the start date; years count from the rule's own start.
+ */
+export const expandOverpaymentRule = (rule: OverpaymentRule, startDate: string | null): Map<number, number> => {
+  const amounts = new Map<number, number>()
+  for (let period = rule.startPeriod; period <= rule.endPeriod; period++) {
+    const year = Math.floor((period - rule.startPeriod) / 12)
+    let amount = 0
+    switch (rule.type) {
+      case 'monthly':
+        amount = rule.amount
+        break
+      case 'yearly_bonus': {
+        const calendarMonth = startDate
+          ? periodIndexToDate(period, startDate).getMonth() + 1
+          : ((period - 1) % 12) + 1
+        amount = calendarMonth === (rule.bonusMonth ?? 12) ? rule.amount : 0
+        break
+      }
+      case 'salary_increase': {
+        const growth = (rule.salaryGrowthPercent ?? 0) / 100
+        const rise = (rule.salary ?? 0) * (Math.pow(1 + growth, year) - 1)
+        amount = ((rise / 12) * (rule.percentOfIncrease ?? 0)) / 100
+        break
+      }
+      case 'escalating':
+        amount = rule.amount * Math.pow(1 + (rule.escalationPercent ?? 0) / 100, year)
+        break
+    }
+    if (amount > 0) amounts.set(period, Math.round(amount * 100) / 100)
+  }
+  return amounts
+}
+
+// Convert overpayments and rules to API format: "month:amount,month:amount", one entry per month
+export const overpaymentsToApiString = (
+  overpayments: ChartOverpayment[],
+  rules: OverpaymentRule[] = [],
+  startDate: string | null = null
+): string | null => {
+  const totals = new Map<number, number>()
+  const add = (periodIndex: number, amount: number) =>
+    totals.set(periodIndex, (totals.get(periodIndex) ?? 0) + amount)
+
+  overpayments.filter((op) => op.amount > 0).forEach((op) => add(op.periodIndex, op.amount))
+  rules.forEach((rule) => expandOverpaymentRule(rule, startDate).forEach((amount, period) => add(period, amount)))
+
+  if (totals.size === 0) return null
+
+  return [...totals.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([periodIndex, amount]) => `${periodIndex}:${Math.round(amount * 100) / 100}`)
+    .join(',')
+}
+
 // Helper to generate unique ID
 const generateId = (): string => {
   return `op-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
 }
 
-export const useOverpaymentStore = create<OverpaymentStore>()(
-  persist(
-    (set, get) => ({
-      // Initial state
-      chartOverpayments: [],
-      editingId: null,
-      startDate: null,
-
-      // Actions
-      setStartDate: (date: string) => {
-        set({ startDate: date })
-        // Recalculate all date labels when start date changes
-        const { chartOverpayments } = get()
-        if (chartOverpayments.length > 0) {
-          set({
-            chartOverpayments: chartOverpayments.map((op) => ({
-              ...op,
-              dateLabel: generateDateLabel(op.periodIndex, date),
-            })),
-          })
-        }
-      },
+// State and actions shared by the saved store and page-local stores
+const createOverpaymentState: StateCreator<OverpaymentStore> = (set, get) => ({
+  // Initial state
+  chartOverpayments: [],
+  overpaymentRules: [],
+  editingId: null,
+  startDate: null,
+  isDragging: false,
 
-      addOverpayment: (periodIndex: number, amount: number) => {
-        const { startDate, chartOverpayments } = get()
-        if (!startDate) {
-          console.warn('Cannot add overpayment: startDate not set')
-          return
-        }
+  // Actions
+  setStartDate: (date: string) => {
+    set({ startDate: date })
+    // Recalculate all date labels when start date changes
+    const { chartOverpayments } = get()
+    if (chartOverpayments.length > 0) {
+      set({
+        chartOverpayments: chartOverpayments.map((op) => ({
+          ...op,
+          dateLabel: generateDateLabel(op.periodIndex, date),
+        })),
+      })
+    }
+  },
 
-        // Check if an overpayment already exists at this period
-        const existing = chartOverpayments.find((op) => op.periodIndex === periodIndex)
-        if (existing) {
-          // Update existing instead of adding new
-          set({
-            chartOverpayments: chartOverpayments.map((op) =>
-              op.id === existing.id ? { ...op, amount } : op
-            ),
-            editingId: existing.id,
-          })
-          return
-        }
+  addOverpayment: (periodIndex: number, amount: number) => {
+    const { startDate, chartOverpayments } = get()
+    if (!startDate) {
+      console.warn('Cannot add overpayment: startDate not set')
+      return
+    }
+
+    // Check if an overpayment already exists at this period
+    const existing = chartOverpayments.find((op) => op.periodIndex === periodIndex)
+    if (existing) {
+      // Update existing instead of adding new
+      set({
+        chartOverpayments: chartOverpayments.map((op) =>
+          op.id === existing.id ? { ...op, amount } : op
+        ),
+        editingId: existing.id,
+      })
+      return
+    }
+
+    const newOverpayment: ChartOverpayment = {
+      id: generateId(),
+      periodIndex,
+      amount,
+      dateLabel: generateDateLabel(periodIndex, startDate),
+      isDragging: false,
+    }
+
+    set({
+      chartOverpayments: [...chartOverpayments, newOverpayment].sort(
+        (a, b) => a.periodIndex - b.periodIndex
+      ),
+      editingId: newOverpayment.id,
+    })
+  },
 
-        const newOverpayment: ChartOverpayment = {
+  updateOverpayment: (id: string, updates: Partial<Omit<ChartOverpayment, 'id'>>) => {
+    const { chartOverpayments, startDate } = get()
+
+    set({
+      chartOverpayments: chartOverpayments
+        .map((op) => {
+          if (op.id !== id) return op
+
+          const updated = { ...op, ...updates }
+
+          // Recalculate date label if period changed
+          if (updates.periodIndex !== undefined && startDate) {
+            updated.dateLabel = generateDateLabel(updates.periodIndex, startDate)
+          }
+
+          return updated
+        })
+        .sort((a, b) => a.periodIndex - b.periodIndex),
+    })
+  },
+
+  removeOverpayment: (id: string) => {
+    const { chartOverpayments, editingId } = get()
+    set({
+      chartOverpayments: chartOverpayments.filter((op) => op.id !== id),
+      editingId: editingId === id ? null : editingId,
+    })
+  },
+
+  replaceAll: (overpayments: ChartOverpayment[]) => {
+    const { startDate } = get()
+    set({
+      chartOverpayments: overpayments
+        .map((op) => ({
+          ...op,
+          isDragging: false,
+          dateLabel: startDate ? generateDateLabel(op.periodIndex, startDate) : op.dateLabel,
+        }))
+        .sort((a, b) => a.periodIndex - b.periodIndex),
+      editingId: null,
+    })
+  },
+
+  // Replace all overpayments and rules with a generated schedule (e.g. from the optimizer)
+  loadSchedule: (schedule: Array<{ periodIndex: number; amount: number }>) => {
+    const { startDate } = get()
+    set({
+      overpaymentRules: [],
+      chartOverpayments: schedule
+        .map(({ periodIndex, amount }) => ({
           id: generateId(),
           periodIndex,
           amount,
-          dateLabel: generateDateLabel(periodIndex, startDate),
+          dateLabel: startDate ? generateDateLabel(periodIndex, startDate) : '',
           isDragging: false,
-        }
+        }))
+        .sort((a, b) => a.periodIndex - b.periodIndex),
+      editingId: null,
+    })
+  },
 
-        set({
-          chartOverpayments: [...chartOverpayments, newOverpayment].sort(
-            (a, b) => a.periodIndex - b.periodIndex
-          ),
-          editingId: newOverpayment.id,
-        })
-      },
+  setEditingId: (id: string | null) => {
+    set({ editingId: id })
+  },
 
-      updateOverpayment: (id: string, updates: Partial<Omit<ChartOverpayment, 'id'>>) => {
-        const { chartOverpayments, startDate } = get()
+  setDragging: (id: string, isDragging: boolean) => {
+    const { chartOverpayments } = get()
+    set({
+      chartOverpayments: chartOverpayments.map((op) =>
+        op.id === id ? { ...op, isDragging } : op
+      ),
+      isDragging,
+    })
+  },
 
-        set({
-          chartOverpayments: chartOverpayments
-            .map((op) => {
-              if (op.id !== id) return op
+  setRuleDragging: (isDragging: boolean) => {
+    set({ isDragging })
+  },
 
-              const updated = { ...op, ...updates }
+  clearAll: () => {
+    set({ chartOverpayments: [], overpaymentRules: [], editingId: null })
+  },
 
-              // Recalculate date label if period changed
-              if (updates.periodIndex !== undefined && startDate) {
-                updated.dateLabel = generateDateLabel(updates.periodIndex, startDate)
-              }
+  addRule: (rule: Omit<OverpaymentRule, 'id'>) => {
+    set({ overpaymentRules: [...get().overpaymentRules, { ...rule, id: generateId() }] })
+  },
 
-              return updated
-            })
-            .sort((a, b) => a.periodIndex - b.periodIndex),
-        })
-      },
+  updateRule: (id: string, updates: Partial<Omit<OverpaymentRule, 'id'>>) => {
+    set({
+      overpaymentRules: get().overpaymentRules.map((rule) => {
+        if (rule.id !== id) return rule
+        const updated = { ...rule, ...updates }
+        // Keep at least one month in the range when either end is dragged past the other
+        if (updated.endPeriod < updated.startPeriod) {
+          if (updates.startPeriod !== undefined) updated.startPeriod = updated.endPeriod
+          else updated.endPeriod = updated.startPeriod
+        }
+        return updated
+      }),
+    })
+  },
 
-      removeOverpayment: (id: string) => {
-        const { chartOverpayments, editingId } = get()
-        set({
-          chartOverpayments: chartOverpayments.filter((op) => op.id !== id),
-          editingId: editingId === id ? null : editingId,
-        })
-      },
-
-      setEditingId: (id: string | null) => {
-        set({ editingId: id })
-      },
-
-      setDragging: (id: string, isDragging: boolean) => {
-        const { chartOverpayments } = get()
-        set({
-          chartOverpayments: chartOverpayments.map((op) =>
-            op.id === id ? { ...op, isDragging } : op
-          ),
-        })
-      },
-
-      clearAll: () => {
-        set({ chartOverpayments: [], editingId: null })
-      },
-
-      // Convert to API format: "month:amount,month:amount"
-      toApiString: () => {
-        const { chartOverpayments } = get()
-        if (chartOverpayments.length === 0) return null
-
-        return chartOverpayments
-          .filter((op) => op.amount > 0)
-          .map((op) => `${op.periodIndex}:${op.amount}`)
-          .join(',')
-      },
-
-      getOverpaymentAtPeriod: (periodIndex: number) => {
-        const { chartOverpayments } = get()
-        return chartOverpayments.find((op) => op.periodIndex === periodIndex)
-      },
-    }),
+  removeRule: (id: string) => {
+    set({ overpaymentRules: get().overpaymentRules.filter((rule) => rule.id !== id) })
+  },
+
+  replaceRules: (rules: OverpaymentRule[]) => {
+    set({ overpaymentRules: rules })
+  },
+
+  // Convert to API format: "month:amount,month:amount"
+  toApiString: () => {
+    const { chartOverpayments, overpaymentRules, startDate } = get()
+    return overpaymentsToApiString(chartOverpayments, overpaymentRules, startDate)
+  },
+
+  getOverpaymentAtPeriod: (periodIndex: number) => {
+    const { chartOverpayments } = get()
+    return chartOverpayments.find((op) => op.periodIndex === periodIndex)
+  },
+})
+
+// A drag updates the store on every pointer move; dropping it is an update too, so the
+// result is saved and sent to other tabs once instead
+const skipWritesWhileDragging = <S>(storage: PersistStorage<S> | undefined): PersistStorage<S> | undefined =>
+  storage && {
+    ...storage,
+    setItem: (name, value) => {
+      if (!useOverpaymentStore.getState().isDragging) return storage.setItem(name, value)
+    },
+  }
+
+export const useOverpaymentStore = create<OverpaymentStore>()(
+  persist(
+    createOverpaymentState,
     {
       name: 'mortgasim-overpayments',
+      storage: skipWritesWhileDragging(createJSONStorage(() => idbStateStorage)),
       partialize: (state) => ({
         chartOverpayments: state.chartOverpayments.map((op) => ({
           ...op,
           isDragging: false, // Don't persist dragging state
         })),
+        overpaymentRules: state.overpaymentRules,
         startDate: state.startDate,
       }),
     }
   )
 )
+
+// Keep other open tabs in step with this one
+syncPersistedStore(useOverpaymentStore)
+
+/**
+ * An overpayment store for one page that is never saved or synced, e.g. for a shared link, so
+ * viewing someone else's scenario leaves the visitor's own overpayments untouched.
+ */
+export const createPageOverpaymentStore = (
+  schedule: Array<{ periodIndex: number; amount: number }> = [],
+  rules: OverpaymentRule[] = []
+): StoreApi<OverpaymentStore> => {
+  const store = createStore<OverpaymentStore>()(createOverpaymentState)
+  store.getState().loadSchedule(schedule)
+  store.getState().replaceRules(rules)
+  return store
+}
+
+// Provided by pages with their own overpayments; the saved store is used everywhere else
+export const OverpaymentStoreContext = createContext<StoreApi<OverpaymentStore> | null>(null)
+
+// The overpayment store in scope: the page's own if it provides one, otherwise the saved store
+export const useOverpaymentStoreApi = (): StoreApi<OverpaymentStore> =>
+  useContext(OverpaymentStoreContext) ?? useOverpaymentStore
+
+export const useScopedOverpaymentStore = (): OverpaymentStore => useStore(useOverpaymentStoreApi())
@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { useScenarioStore } from './scenarioStore'
+import { defaultFormValues } from '../utils/validation'
+
+const saved = new Map<string, string>()
+
+// Saved state in memory instead of IndexedDB; other tabs are simulated by writing to it directly
+vi.mock('../utils/idbStorage', () => ({
+  idbStateStorage: {
+    getItem: (name: string) => saved.get(name) ?? null,
+    setItem: (name: string, value: string) => saved.set(name, value),
+    removeItem: (name: string) => saved.delete(name),
+  },
+}))
+vi.mock('../utils/tabSync', () => ({ syncPersistedStore: () => {} }))
+
+const STORAGE_NAME = 'mortgasim-scenarios'
+
+const savedState = () => JSON.parse(saved.get(STORAGE_NAME) ?? '{}').state
+
+beforeEach(() => {
+  saved.clear()
+  useScenarioStore.setState({ scenarios: [], activeScenarioId: null, compareIds: [] })
+})
+
+describe('scenario persistence', () => {
+  it('saves the library but not the open or compared scenarios', () => {
+    const { createScenario, setActiveScenario, toggleCompare } = useScenarioStore.getState()
+    const first = createScenario('First', defaultFormValues, [])
+    const second = createScenario('Second', defaultFormValues, [])
+    setActiveScenario(first.id)
+    toggleCompare(first.id)
+    toggleCompare(second.id)
+
+    expect(Object.keys(savedState())).toEqual(['scenarios'])
+    expect(savedState().scenarios.map((scenario: { name: string }) => scenario.name)).toEqual(['First', 'Second'])
+  })
+
+  it("keeps this tab's selection when another tab changes the library", async () => {
+    const { createScenario, setActiveScenario, toggleCompare } = useScenarioStore.getState()
+    const first = createScenario('First', defaultFormValues, [])
+    const second = createScenario('Second', defaultFormValues, [])
+    const third = createScenario('Third', defaultFormValues, [])
+    setActiveScenario(second.id)
+    toggleCompare(first.id)
+    toggleCompare(second.id)
+    toggleCompare(third.id)
+
+    // Another tab deletes the first scenario; older versions also saved their own selection
+    saved.set(
+      STORAGE_NAME,
+      JSON.stringify({
+        state: { scenarios: [second, third], activeScenarioId: third.id, compareIds: [third.id] },
+        version: 0,
+      })
+    )
+    await useScenarioStore.persist.rehydrate()
+
+    const state = useScenarioStore.getState()
+    expect(state.scenarios.map((scenario) => scenario.id)).toEqual([second.id, third.id])
+    expect(state.activeScenarioId).toBe(second.id)
+    expect(state.compareIds).toEqual([second.id, third.id])
+  })
+
+  it('closes the open scenario when another tab deletes it', async () => {
+    const { createScenario, setActiveScenario } = useScenarioStore.getState()
+    const only = createScenario('Only', defaultFormValues, [])
+    setActiveScenario(only.id)
+
+    saved.set(STORAGE_NAME, JSON.stringify({ state: { scenarios: [] }, version: 0 }))
+    await useScenarioStore.persist.rehydrate()
+
+    expect(useScenarioStore.getState().activeScenarioId).toBeNull()
+  })
+})
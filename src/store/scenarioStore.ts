@@ -0,0 +1,188 @@
+import { create } from 'zustand'
+import { persist, createJSONStorage } from 'zustand/middleware'
+import type { MortgageFormData } from '../utils/validation'
+import type { ChartOverpayment, OverpaymentRule } from './overpaymentStore'
+import { idbStateStorage } from '../utils/idbStorage'
+import { syncPersistedStore } from '../utils/tabSync'
+
+export interface Scenario {
+  id: string
+  name: string
+  formData: MortgageFormData
+  chartOverpayments: ChartOverpayment[]
+  overpaymentRules?: OverpaymentRule[] // Absent on scenarios saved before rules existed
+  notes?: string
+  createdAt: number
+  updatedAt: number
+}
+
+// Between two and four scenarios can be compared at once
+export const MAX_COMPARED_SCENARIOS = 4
+
+interface ScenarioStore {
+  // State
+  scenarios: Scenario[]
+  activeScenarioId: string | null
+  compareIds: string[]
+
+  // Actions
+  createScenario: (
+    name: string,
+    formData: MortgageFormData,
+    chartOverpayments: ChartOverpayment[],
+    overpaymentRules?: OverpaymentRule[],
+    notes?: string
+  ) => Scenario
+  duplicateScenario: (id: string) => Scenario | undefined
+  renameScenario: (id: string, name: string) => void
+  updateScenario: (
+    id: string,
+    updates: Partial<Pick<Scenario, 'formData' | 'chartOverpayments' | 'overpaymentRules' | 'notes'>>
+  ) => void
+  deleteScenario: (id: string) => void
+  setActiveScenario: (id: string | null) => void
+  toggleCompare: (id: string) => void
+  clearCompare: () => void
+
+  // Computed helpers
+  getScenario: (id: string) => Scenario | undefined
+}
+
+// Helper to generate unique ID
+const generateId = (): string => {
+  return `sc-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+}
+
+// Snapshot overpayments without transient UI state
+const snapshotOverpayments = (overpayments: ChartOverpayment[]): ChartOverpayment[] =>
+  overpayments.map((op) => ({ ...op, isDragging: false }))
+
+export const useScenarioStore = create<ScenarioStore>()(
+  persist(
+    (set, get) => ({
+      // Initial state
+      scenarios: [],
+      activeScenarioId: null,
+      compareIds: [],
+
+      // Actions
+      createScenario: (name, formData, chartOverpayments, overpaymentRules = [], notes = '') => {
+        const now = Date.now()
+        const scenario: Scenario = {
+          id: generateId(),
+          name: name.trim() || `Scenario ${get().scenarios.length + 1}`,
+          formData,
+          chartOverpayments: snapshotOverpayments(chartOverpayments),
+          overpaymentRules,
+          notes,
+          createdAt: now,
+          updatedAt: now,
+        }
+
+        set({
+          scenarios: [...get().scenarios, scenario],
+          activeScenarioId: scenario.id,
+        })
+        return scenario
+      },
+
+      duplicateScenario: (id) => {
+        const source = get().getScenario(id)
+        if (!source) return undefined
+
+        const now = Date.now()
+        const copy: Scenario = {
+          ...source,
+          id: generateId(),
+          name: `${source.name} (copy)`,
+          chartOverpayments: snapshotOverpayments(source.chartOverpayments),
+          createdAt: now,
+          updatedAt: now,
+        }
+
+        set({ scenarios: [...get().scenarios, copy] })
+        return copy
+      },
+
+      renameScenario: (id, name) => {
+        const trimmed = name.trim()
+        if (!trimmed) return
+
+        set({
+          scenarios: get().scenarios.map((s) =>
+            s.id === id ? { ...s, name: trimmed, updatedAt: Date.now() } : s
+          ),
+        })
+      },
+
+      updateScenario: (id, updates) => {
+        set({
+          scenarios: get().scenarios.map((s) => {
+            if (s.id !== id) return s
+            return {
+              ...s,
+              ...updates,
+              chartOverpayments: updates.chartOverpayments
+                ? snapshotOverpayments(updates.chartOverpayments)
+                : s.chartOverpayments,
+              updatedAt: Date.now(),
+            }
+          }),
+        })
+      },
+
+      deleteScenario: (id) => {
+        const { scenarios, activeScenarioId, compareIds } = get()
+        set({
+          scenarios: scenarios.filter((s) => s.id !== id),
+          activeScenarioId: activeScenarioId === id ? null : activeScenarioId,
+          compareIds: compareIds.filter((cid) => cid !== id),
+        })
+      },
+
+      setActiveScenario: (id) => {
+        set({ activeScenarioId: id })
+      },
+
+      toggleCompare: (id) => {
+        const { compareIds } = get()
+        if (compareIds.includes(id)) {
+          set({ compareIds: compareIds.filter((cid) => cid !== id) })
+        } else if (compareIds.length < MAX_COMPARED_SCENARIOS) {
+          set({ compareIds: [...compareIds, id] })
+        }
+      },
+
+      clearCompare: () => {
+        set({ compareIds: [] })
+      },
+
+      getScenario: (id) => {
+        return get().scenarios.find((s) => s.id === id)
+      },
+    }),
+    {
+      name: 'mortgasim-scenarios',
+      storage: createJSONStorage(() => idbStateStorage),
+      // Only the library is saved and shared; the open and compared scenarios belong to each tab
+      partialize: (state) => ({
+        scenarios: state.scenarios,
+      }),
+      // Ignore selections saved by earlier versions, and drop any scenario another tab deleted
+      merge: (persisted, current) => {
+        const scenarios = (persisted as Partial<ScenarioStore> | undefined)?.scenarios ?? current.scenarios
+        const ids = new Set(scenarios.map((scenario) => scenario.id))
+        return {
+          ...current,
+          scenarios,
+          activeScenarioId:
+            current.activeScenarioId !== null && ids.has(current.activeScenarioId) ? current.activeScenarioId : null,
+          compareIds: current.compareIds.filter((id) => ids.has(id)),
+        }
+      },
+    }
+  )
+)
+
+// Keep other open tabs in step with this one
+syncPersistedStore(useScenarioStore)
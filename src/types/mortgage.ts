@@ -1,11 +1,32 @@
 // Types based on the OpenAPI specification for Mortgage Simulation API
 
+export type DealType = 'fixed' | 'tracker' | 'discount'
+
 export interface Deal {
   start_month: number // 0-based, inclusive
   end_month: number // 0-based, exclusive
-  rate: number // annual rate %
+  rate: number // annual rate % (fixed deals; initial rate for tracker/discount deals)
+  type?: DealType // Fixed (default), tracker (base rate + margin) or discount (SVR - discount)
+  margin?: number // Tracker only: percentage points above the base rate
+  discount?: number // Discount only: percentage points below the SVR
+  collar?: number // Tracker/discount: minimum rate payable, %
+  overpayment_allowance_percent?: number // Penalty-free overpayments per deal year, % of balance (default 10)
+  erc_percent?: number // Early repayment charge on overpayments above the allowance, %
+  erc_percent_by_year?: number[] // Stepped ERC per deal year (e.g. [5, 4, 3]); overrides erc_percent
+  arrangement_fee?: number // Product/arrangement fee in pounds, charged when the deal starts
+  valuation_fee?: number // Valuation fee in pounds, charged when the deal starts
+  cashback?: number // Cashback in pounds, paid into savings when the deal starts
+  fees_added_to_loan?: boolean // Capitalise fees onto the mortgage instead of paying them upfront from savings
+}
+
+// Point on the projected base rate curve; rates are interpolated linearly between points
+export interface BaseRatePoint {
+  month: number // 0-based month index
+  rate: number // Base rate %
 }
 
+export type RepaymentType = 'repayment' | 'interest_only' | 'part_and_part'
+
 export interface MortgageParameters {
   amount: number // Initial mortgage amount in pounds
   term_years: number // Mortgage term in years (max 40)
@@ -13,6 +34,10 @@ export interface MortgageParameters {
   fixed_term_months: number // Fixed rate term in months (legacy, use deals)
   variable_rate?: number // Variable rate / SVR after fixed term (default 6.0)
   deals?: Deal[] // List of fixed-rate deal periods
+  offset_enabled?: boolean // Offset mortgage: accounts flagged `offset` reduce the interest-bearing balance
+  repayment_type?: RepaymentType // Capital repayment (default), interest-only, or part-and-part
+  interest_only_amount?: number // Part-and-part only: portion of the loan on interest-only terms, in pounds
+  base_rate_path?: BaseRatePoint[] // Projected base rate; trackers follow it and the SVR moves with it
 }
 
 // Individual savings/investment account
@@ -22,6 +47,9 @@ export interface SavingsAccount {
   monthly_contribution: number // Monthly contribution in pounds
   initial_balance: number // Initial balance in pounds
   draw_for_repayment: boolean // Whether balance can be used for mortgage overpayments
+  offset?: boolean // Offsets the mortgage (earns no interest) when mortgage.offset_enabled is set
+  expected_return?: number // Monte Carlo only: mean annual return %, defaults to `rate`
+  volatility?: number // Monte Carlo only: annual standard deviation of returns, %
 }
 
 export interface SavingsParameters {
@@ -64,6 +92,11 @@ export interface MonthlyData {
   annual_savings_rate: number
   monthly_savings_rate: number
   payment_difference: number
+  early_repayment_charge?: number // ERC paid on overpayments above the deal allowance
+  deal_fees?: number // Deal fees charged this month (upfront or added to the loan)
+  cashback?: number // Deal cashback received this month
+  offset_balance?: number // Offset account balance applied against the mortgage this month
+  offset_interest_saved?: number // Mortgage interest avoided this month thanks to the offset
 }
 
 // Per-account chart data
@@ -85,6 +118,12 @@ export interface ChartData {
   monthly_savings_data: number[] // Consolidated monthly contributions
   interest_received: number[] // Consolidated interest received
   accounts: AccountChartData[] // Per-account chart data
+  annual_mortgage_rate?: number[] // Mortgage rate charged each month, %
+  base_rate?: number[] // Projected base rate each month, % (when a base rate path is set)
+  // Offset mortgages only: the same scenario simulated without the offset, aligned to `years`
+  offset_interest_saved?: number[] // Interest avoided per month
+  non_offset_mortgage_balance?: number[]
+  non_offset_net_worth?: number[]
 }
 
 // Per-account summary statistics
@@ -95,6 +134,20 @@ export interface AccountSummary {
   total_interest_earned: number // Total interest earned
 }
 
+// Effective cost of one deal period, for ranking products beyond the headline rate
+export interface DealCost {
+  deal_index: number // Index into mortgage.deals
+  start_month: number
+  end_month: number
+  rate: number // Rate charged when the deal starts; tracker and discount rates move from there
+  type?: DealType
+  interest_paid: number // Mortgage interest paid while the deal was active
+  fees: number // Arrangement and valuation fees
+  cashback: number
+  early_repayment_charges: number
+  total_cost: number // interest_paid + fees + early_repayment_charges - cashback
+}
+
 export interface SummaryStatistics {
   final_mortgage_balance: number
   final_savings_balance: number // Consolidated final savings
@@ -103,6 +156,12 @@ export interface SummaryStatistics {
   min_savings_month: number
   mortgage_paid_off_month?: number | null
   fixed_term_end_balance?: number | null
+  total_early_repayment_charges?: number // Sum of ERCs paid across all deals
+  deal_costs?: DealCost[] // Per-deal effective cost breakdown
+  total_offset_interest_saved?: number // Mortgage interest avoided by the offset over the simulation
+  term_end_shortfall?: number | null // Interest-only capital outstanding when the term ends
+  term_end_shortfall_covered?: boolean // Whether drawable savings cleared the shortfall at term end
+  term_end_shortfall_month?: number | null // Month the interest-only capital fell due
   account_summaries: AccountSummary[] // Per-account summaries
 }
 
@@ -60,6 +60,19 @@ export const getAccountColor = (index: number): string => {
   return accountColors[index % accountColors.length]
 }
 
+// Colors for compared scenarios, distinct from the mortgage/savings series
+export const scenarioColors = [
+  '#1976d2', // blue
+  '#e65100', // dark orange
+  '#2e7d32', // dark green
+  '#6a1b9a', // deep purple
+  '#c62828', // dark red
+]
+
+export const getScenarioColor = (index: number): string => {
+  return scenarioColors[index % scenarioColors.length]
+}
+
 // Common chart options
 export const commonChartOptions = {
   responsive: true,
@@ -210,3 +223,99 @@ export const createOverpaymentAnnotation = (
   },
   id,
 })
+
+// Term-end marker for interest-only capital: green when savings clear it, red otherwise
+export const createShortfallAnnotation = (
+  date: Date,
+  amount: number,
+  covered: boolean
+) => ({
+  type: 'line' as const,
+  scaleID: 'x',
+  value: date.getTime(),
+  borderColor: covered ? chartColors.savingsBalance : chartColors.mortgageBalance,
+  borderWidth: 2,
+  borderDash: [2, 4],
+  label: {
+    display: true,
+    content: `Term end: ${formatCurrencyAbbreviated(amount)} due ${covered ? '· covered by savings' : '· not covered'}`,
+    position: 'end' as const,
+    backgroundColor: covered ? chartColors.savingsBalance : chartColors.mortgageBalance,
+    color: 'white',
+    font: {
+      size: 11,
+      weight: 'bold' as const,
+    },
+    padding: { top: 4, bottom: 4, left: 8, right: 8 },
+    borderRadius: 4,
+  },
+  id: 'term-end-shortfall',
+})
+
+// Shaded range for a recurring overpayment rule; its ends are drag handles
+export const createOverpaymentRuleAnnotation = (
+  startDate: Date,
+  endDate: Date,
+  label: string,
+  id: string,
+  isEditing: boolean = false
+) => ({
+  type: 'box' as const,
+  xScaleID: 'x',
+  xMin: startDate.getTime(),
+  xMax: endDate.getTime(),
+  backgroundColor: isEditing ? 'rgba(230, 81, 0, 0.12)' : `${chartColors.overpaymentLine}14`,
+  borderColor: isEditing ? '#e65100' : chartColors.overpaymentLine,
+  borderWidth: 1,
+  borderDash: [4, 4],
+  label: {
+    display: true,
+    content: label,
+    position: { x: 'center' as const, y: 'start' as const },
+    color: isEditing ? '#e65100' : chartColors.overpaymentLine,
+    font: {
+      size: 11,
+      weight: 'bold' as const,
+    },
+  },
+  id,
+})
+
+// Monte Carlo bands: shaded 10th-90th percentile range with a dashed median line.
+// The 90th percentile fills down to the 10th, so the pair must stay adjacent.
+export const createPercentileBandDatasets = (
+  p10: number[],
+  p50: number[],
+  p90: number[],
+  color: string,
+  label: string
+) => [
+  {
+    label: `${label} (90th pct)`,
+    data: p90,
+    borderColor: 'transparent',
+    backgroundColor: `${color}25`,
+    pointRadius: 0,
+    fill: '+1',
+    tension: 0,
+  },
+  {
+    label: `${label} (10th pct)`,
+    data: p10,
+    borderColor: 'transparent',
+    backgroundColor: `${color}25`,
+    pointRadius: 0,
+    fill: false,
+    tension: 0,
+  },
+  {
+    label: `${label} (median)`,
+    data: p50,
+    borderColor: color,
+    borderDash: [6, 4],
+    borderWidth: 1.5,
+    pointRadius: 0,
+    fill: false,
+    tension: 0,
+  },
+]
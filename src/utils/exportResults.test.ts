@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest'
+import { unzipSync, strFromU8 } from 'fflate'
+import {
+  buildMonthlyRows,
+  buildYearlyRows,
+  createExportBlob,
+  createResultsBundle,
+  parseResultsBundle,
+  toCsv,
+} from './exportResults'
+import type { ExportSource } from './exportResults'
+import { defaultFormValues } from './validation'
+import { runSimulation } from '../services/simulationEngine'
+
+// A two-year mortgage with two savings accounts, cut to its first 18 months
+const results = runSimulation({
+  mortgage: { amount: 20000, term_years: 2, fixed_rate: 5, fixed_term_months: 24, deals: [{ start_month: 0, end_month: 24, rate: 5, arrangement_fee: 999 }] },
+  savings: {
+    accounts: [
+      { name: 'ISA', rate: 4, monthly_contribution: 100, initial_balance: 5000, draw_for_repayment: true },
+      { name: 'Pension', rate: 6, monthly_contribution: 200, initial_balance: 10000, draw_for_repayment: false },
+    ],
+  },
+  simulation: { typical_payment: 900, show_years_after_payoff: 0, overpayments: '14:500', start_date: '2025-11-01' },
+})
+results.monthly_data = results.monthly_data.slice(0, 18)
+
+const source: ExportSource = {
+  results,
+  formData: { ...defaultFormValues, start_date: '2025-11-01' },
+  chartOverpayments: [{ id: 'op-1', periodIndex: 14, amount: 500, dateLabel: 'Dec 2026', isDragging: true }],
+  overpaymentRules: [{ id: 'rule-1', type: 'monthly', startPeriod: 1, endPeriod: 12, amount: 50 }],
+  overpayments: '14:500',
+}
+
+describe('buildMonthlyRows', () => {
+  const [header, ...rows] = buildMonthlyRows(results, '2025-11-01')
+
+  it('has one row per month with dates from the start date', () => {
+    expect(rows).toHaveLength(18)
+    expect(rows[0].slice(0, 3)).toEqual([1, '2025-11', 1])
+    expect(rows[2].slice(0, 3)).toEqual([3, '2026-01', 1])
+    expect(rows[12].slice(0, 3)).toEqual([13, '2026-11', 2])
+  })
+
+  it('adds balance, interest and contribution columns for each account', () => {
+    expect(header.slice(-6)).toEqual([
+      'ISA account balance',
+      'ISA account interest',
+      'ISA account contribution',
+      'Pension account balance',
+      'Pension account interest',
+      'Pension account contribution',
+    ])
+    expect(rows[0].slice(-3)).toEqual([
+      results.chart_data.accounts[1].balance[0],
+      results.chart_data.accounts[1].interest_received[0],
+      200,
+    ])
+  })
+
+  it('fills optional columns with zero', () => {
+    const cashback = header.indexOf('Cashback')
+    const fees = header.indexOf('Deal fees')
+    expect(rows.every((row) => row[cashback] === 0)).toBe(true)
+    expect(rows[0][fees]).toBe(999)
+  })
+})
+
+describe('buildYearlyRows', () => {
+  const [header, ...rows] = buildYearlyRows(results, '2025-11-01')
+  const column = (name: string) => header.indexOf(name)
+
+  it('sums each simulation year and closes on its last month', () => {
+    expect(rows).toHaveLength(2)
+    const [first, second] = rows
+    expect(first.slice(0, 3)).toEqual([1, '2025-11', '2026-10'])
+    // The second year is cut short by the months simulated
+    expect(second.slice(0, 3)).toEqual([2, '2026-11', '2027-04'])
+
+    const months = results.monthly_data.slice(0, 12)
+    const interest = Math.round(months.reduce((total, data) => total + data.interest_paid, 0) * 100) / 100
+    expect(first[column('Interest paid')]).toBe(interest)
+    expect(first[column('Closing mortgage balance')]).toBe(months[11].principal_end)
+    expect(second[column('Overpayments')]).toBe(500)
+  })
+
+  it('nets fees and charges against cashback', () => {
+    expect(rows[0][column('Fees and charges')]).toBe(999)
+    expect(rows[1][column('Fees and charges')]).toBe(0)
+  })
+
+  it('closes each account balance at the end of the year', () => {
+    expect(rows[0][column('ISA account closing balance')]).toBe(results.chart_data.accounts[0].balance[11])
+    expect(rows[1][column('Pension account closing balance')]).toBe(results.chart_data.accounts[1].balance[17])
+  })
+})
+
+describe('toCsv', () => {
+  it('quotes cells with commas, quotes and line breaks', () => {
+    expect(
+      toCsv([
+        ['Name', 'Note', 'Amount'],
+        ['ISA, joint', 'the "good" one', 1200.5],
+        ['Multi\nline', null, undefined],
+      ])
+    ).toBe('Name,Note,Amount\r\n"ISA, joint","the ""good"" one",1200.5\r\n"Multi\nline",,\r\n')
+  })
+})
+
+describe('results bundles', () => {
+  it('round-trips the scenario without transient chart state', () => {
+    const imported = parseResultsBundle(JSON.stringify(createResultsBundle(source)))
+    expect(imported).toEqual({
+      formData: source.formData,
+      chartOverpayments: [{ periodIndex: 14, amount: 500 }],
+      overpaymentRules: source.overpaymentRules,
+      invalidFields: [],
+    })
+  })
+
+  it('lists form fields that fell back to their defaults', () => {
+    const bundle = createResultsBundle(source)
+    const imported = parseResultsBundle(
+      JSON.stringify({ ...bundle, formData: { ...bundle.formData, term_years: -3, mortgage_amount: 'lots' } })
+    )
+    expect(imported.invalidFields).toEqual(['mortgage_amount', 'term_years'])
+    expect(imported.formData.term_years).toBe(defaultFormValues.term_years)
+  })
+
+  it('rejects files that are not a bundle', () => {
+    expect(() => parseResultsBundle('{')).toThrow('The file is not valid JSON')
+    expect(() => parseResultsBundle(JSON.stringify({ format: 'other' }))).toThrow(
+      'The file is not a MortgaSim results export'
+    )
+  })
+})
+
+describe('xlsx export', () => {
+  it('writes the monthly, yearly and input sheets', async () => {
+    const blob = createExportBlob('xlsx', source)
+    expect(blob.type).toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet')
+
+    const files = unzipSync(new Uint8Array(await blob.arrayBuffer()))
+    const workbook = strFromU8(files['xl/workbook.xml'])
+    expect([...workbook.matchAll(/<sheet name="([^"]+)"/g)].map((match) => match[1])).toEqual([
+      'Monthly',
+      'Yearly summary',
+      'Inputs',
+    ])
+
+    const monthly = strFromU8(files['xl/worksheets/sheet1.xml'])
+    // Header, then 18 months
+    expect(monthly.match(/<row /g)).toHaveLength(19)
+    expect(monthly).toContain('<c r="A1" s="1" t="inlineStr"><is><t xml:space="preserve">Month</t></is></c>')
+    expect(monthly).toContain('<c r="B2" t="inlineStr"><is><t xml:space="preserve">2025-11</t></is></c>')
+
+    const inputs = strFromU8(files['xl/worksheets/sheet3.xml'])
+    expect(inputs).toContain('deals[0].rate')
+    expect(inputs).toContain('14:500')
+  })
+})
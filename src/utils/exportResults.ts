@@ -0,0 +1,273 @@
+import { z } from 'zod'
+import { createXlsx } from './xlsx'
+import type { CellValue, Sheet } from './xlsx'
+import { sanitizeFormData, overpaymentRuleSchema } from './validation'
+import type { MortgageFormData } from './validation'
+import type { ChartOverpayment, OverpaymentRule } from '../store/overpaymentStore'
+import type { MonthlyData, SimulationResponse } from '../types/mortgage'
+
+const BUNDLE_FORMAT = 'mortgasim-results'
+const BUNDLE_VERSION = 1
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json'
+
+// Everything an export is built from; the results are the ones already on screen
+export interface ExportSource {
+  results: SimulationResponse
+  formData: MortgageFormData
+  chartOverpayments: ChartOverpayment[]
+  overpaymentRules: OverpaymentRule[]
+  overpayments: string | null // Overpayment string the results were simulated with
+}
+
+// Re-importable snapshot of a simulation: its inputs plus the results they produced
+export interface ResultsBundle {
+  format: typeof BUNDLE_FORMAT
+  version: number
+  exportedAt: string
+  formData: MortgageFormData
+  chartOverpayments: Array<{ periodIndex: number; amount: number }>
+  overpaymentRules: OverpaymentRule[]
+  results: SimulationResponse
+}
+
+// The scenario restored from a bundle
+export interface ImportedResults {
+  formData: MortgageFormData
+  chartOverpayments: Array<{ periodIndex: number; amount: number }>
+  overpaymentRules: OverpaymentRule[]
+  invalidFields: string[] // Form fields that failed validation and fell back to defaults
+}
+
+// Monthly columns, in output order
+const MONTHLY_COLUMNS: Array<[keyof MonthlyData, string]> = [
+  ['principal_start', 'Opening balance'],
+  ['monthly_payment', 'Payment'],
+  ['overpayment', 'Overpayment'],
+  ['total_payment', 'Total payment'],
+  ['interest_paid', 'Interest paid'],
+  ['principal_repaid', 'Principal repaid'],
+  ['principal_end', 'Closing balance'],
+  ['annual_mortgage_rate', 'Mortgage rate %'],
+  ['early_repayment_charge', 'Early repayment charge'],
+  ['deal_fees', 'Deal fees'],
+  ['cashback', 'Cashback'],
+  ['offset_balance', 'Offset balance'],
+  ['offset_interest_saved', 'Offset interest saved'],
+  ['payment_difference', 'Payment difference'],
+  ['savings_interest', 'Savings interest'],
+  ['annual_savings_rate', 'Savings rate %'],
+  ['savings_balance_end', 'Savings balance'],
+  ['net_worth', 'Net worth'],
+]
+
+const round2 = (value: number): number => Math.round(value * 100) / 100
+
+// "2025-01" for the given 1-based month of the simulation
+const monthDate = (month: number, startDate: string): string => {
+  const [year, monthOfYear] = startDate.split('-').map(Number)
+  if (!year || !monthOfYear) return ''
+  const index = year * 12 + (monthOfYear - 1) + (month - 1)
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`
+}
+
+const simulationYear = (month: number): number => Math.floor((month - 1) / 12) + 1
+
+/**
+ * One row per simulated month, with balance, interest and contribution columns per savings
+ * account from `chart_data.accounts`.
+ */
+export const buildMonthlyRows = (results: SimulationResponse, startDate: string): CellValue[][] => {
+  const accounts = results.chart_data.accounts ?? []
+  const header: CellValue[] = [
+    'Month',
+    'Date',
+    'Year',
+    ...MONTHLY_COLUMNS.map(([, label]) => label),
+    ...accounts.flatMap((account) => [
+      `${account.name} account balance`,
+      `${account.name} account interest`,
+      `${account.name} account contribution`,
+    ]),
+  ]
+  const rows = results.monthly_data.map((data, i) => [
+    data.month,
+    monthDate(data.month, startDate),
+    simulationYear(data.month),
+    ...MONTHLY_COLUMNS.map(([key]) => (data[key] as number | undefined) ?? 0),
+    ...accounts.flatMap((account) => [
+      account.balance[i] ?? null,
+      account.interest_received[i] ?? null,
+      account.contributions[i] ?? null,
+    ]),
+  ])
+  return [header, ...rows]
+}
+
+/**
+ * Totals per simulation year (months 1-12 are year 1) and the balances at each year's end.
+ */
+export const buildYearlyRows = (results: SimulationResponse, startDate: string): CellValue[][] => {
+  const accounts = results.chart_data.accounts ?? []
+  const header: CellValue[] = [
+    'Year',
+    'From',
+    'To',
+    'Payments',
+    'Overpayments',
+    'Interest paid',
+    'Principal repaid',
+    'Fees and charges',
+    'Closing mortgage balance',
+    'Savings interest',
+    'Closing savings balance',
+    'Net worth',
+    ...accounts.flatMap((account) => [`${account.name} account interest`, `${account.name} account closing balance`]),
+  ]
+
+  const years = new Map<number, number[]>() // Year -> indices into monthly_data
+  results.monthly_data.forEach((data, i) => {
+    const year = simulationYear(data.month)
+    years.set(year, [...(years.get(year) ?? []), i])
+  })
+
+  const rows = [...years.entries()].map(([year, indices]) => {
+    const months = indices.map((i) => results.monthly_data[i])
+    const sum = (pick: (data: MonthlyData) => number | undefined) =>
+      round2(months.reduce((total, data) => total + (pick(data) ?? 0), 0))
+    const first = months[0]
+    const last = months[months.length - 1]
+    const lastIndex = indices[indices.length - 1]
+    return [
+      year,
+      monthDate(first.month, startDate),
+      monthDate(last.month, startDate),
+      sum((data) => data.monthly_payment),
+      sum((data) => data.overpayment),
+      sum((data) => data.interest_paid),
+      sum((data) => data.principal_repaid),
+      sum((data) => (data.early_repayment_charge ?? 0) + (data.deal_fees ?? 0) - (data.cashback ?? 0)),
+      last.principal_end,
+      sum((data) => data.savings_interest),
+      last.savings_balance_end,
+      last.net_worth,
+      ...accounts.flatMap((account) => [
+        round2(indices.reduce((total, i) => total + (account.interest_received[i] ?? 0), 0)),
+        account.balance[lastIndex] ?? null,
+      ]),
+    ]
+  })
+  return [header, ...rows]
+}
+
+// Flatten nested form values into dotted paths, e.g. `deals[0].rate`
+export const flattenInputs = (value: unknown, path: string, rows: CellValue[][]) => {
+  if (Array.isArray(value)) {
+    if (value.length === 0) rows.push([path, ''])
+    value.forEach((item, i) => flattenInputs(item, `${path}[${i}]`, rows))
+  } else if (value && typeof value === 'object') {
+    Object.entries(value).forEach(([key, item]) => flattenInputs(item, path ? `${path}.${key}` : key, rows))
+  } else if (value !== undefined) {
+    rows.push([path, value as CellValue])
+  }
+}
+
+/**
+ * The form values behind the results, one parameter per row, plus the overpayments simulated.
+ */
+export const buildInputRows = (source: ExportSource): CellValue[][] => {
+  const rows: CellValue[][] = [['Parameter', 'Value']]
+  flattenInputs(source.formData, '', rows)
+  rows.push(['overpayments', source.overpayments ?? ''])
+  return rows
+}
+
+const csvCell = (value: CellValue): string => {
+  if (value === null || value === undefined) return ''
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export const toCsv = (rows: CellValue[][]): string =>
+  rows.map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n'
+
+export const createResultsBundle = (source: ExportSource): ResultsBundle => ({
+  format: BUNDLE_FORMAT,
+  version: BUNDLE_VERSION,
+  exportedAt: new Date().toISOString(),
+  formData: source.formData,
+  chartOverpayments: source.chartOverpayments.map(({ periodIndex, amount }) => ({ periodIndex, amount })),
+  overpaymentRules: source.overpaymentRules,
+  results: source.results,
+})
+
+const bundleSchema = z.object({
+  format: z.literal(BUNDLE_FORMAT),
+  version: z.number().int().min(1).max(BUNDLE_VERSION),
+  formData: z.record(z.string(), z.unknown()),
+  chartOverpayments: z
+    .array(z.object({ periodIndex: z.number().int().min(1), amount: z.number().positive() }))
+    .default([]),
+  overpaymentRules: z.array(overpaymentRuleSchema.extend({ id: z.string() })).default([]),
+})
+
+/**
+ * Read a JSON bundle back into the scenario that produced it. Throws with a readable message
+ * when the file is not a bundle; individual bad form fields fall back to their defaults and
+ * are listed in `invalidFields`.
+ */
+export const parseResultsBundle = (text: string): ImportedResults => {
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch {
+    throw new Error('The file is not valid JSON')
+  }
+  const result = bundleSchema.safeParse(json)
+  if (!result.success) {
+    throw new Error('The file is not a MortgaSim results export')
+  }
+  const { data, invalidFields } = sanitizeFormData(result.data.formData)
+  return {
+    formData: data,
+    chartOverpayments: result.data.chartOverpayments,
+    overpaymentRules: result.data.overpaymentRules,
+    invalidFields,
+  }
+}
+
+export const exportFileName = (format: ExportFormat): string =>
+  `mortgage-simulation-${new Date().toISOString().split('T')[0]}.${format}`
+
+/**
+ * Build the export file for a format from the results in memory.
+ */
+export const createExportBlob = (format: ExportFormat, source: ExportSource): Blob => {
+  const startDate = source.formData.start_date
+  switch (format) {
+    case 'csv':
+      return new Blob([toCsv(buildMonthlyRows(source.results, startDate))], { type: 'text/csv;charset=utf-8' })
+    case 'xlsx': {
+      const sheets: Sheet[] = [
+        { name: 'Monthly', rows: buildMonthlyRows(source.results, startDate) },
+        { name: 'Yearly summary', rows: buildYearlyRows(source.results, startDate) },
+        { name: 'Inputs', rows: buildInputRows(source) },
+      ]
+      return createXlsx(sheets)
+    }
+    case 'json':
+      return new Blob([JSON.stringify(createResultsBundle(source), null, 2)], { type: 'application/json' })
+  }
+}
+
+// Save a blob through a temporary download link
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = window.URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  window.URL.revokeObjectURL(url)
+}
@@ -0,0 +1,66 @@
+import { yearsToDate, formatDateLabel } from './chartSetup'
+import type { ChartData } from '../types/mortgage'
+
+// Balances at one point in the simulation, as shown in the key years table and the report
+export interface FinancialPositionRow {
+  id: number
+  year: number
+  date: string
+  age?: number
+  mortgageBalance: number
+  savingsBalance: number
+  netWorth: number
+  monthlyPayment: number
+}
+
+/**
+ * Position at each of the given years from the start, skipping years with no data point within
+ * six months. Ages are included when a birth year is known.
+ */
+export const getFinancialPositionRows = (
+  chartData: ChartData,
+  startDate: string,
+  targetYears: number[],
+  birthYear?: number
+): FinancialPositionRow[] => {
+  if (!chartData || chartData.years.length === 0) {
+    return []
+  }
+
+  const rows: FinancialPositionRow[] = []
+  targetYears.forEach((targetYear, index) => {
+    // Find the closest data point to the target year
+    let closestIndex = 0
+    let minDiff = Math.abs(chartData.years[0] - targetYear)
+
+    for (let i = 1; i < chartData.years.length; i++) {
+      const diff = Math.abs(chartData.years[i] - targetYear)
+      if (diff < minDiff) {
+        minDiff = diff
+        closestIndex = i
+      }
+    }
+
+    if (minDiff > 0.5) return
+
+    const date = yearsToDate(targetYear, startDate)
+    rows.push({
+      id: index + 1,
+      year: targetYear,
+      date: formatDateLabel(date),
+      age: birthYear ? date.getFullYear() - birthYear : undefined,
+      mortgageBalance: chartData.mortgage_balance[closestIndex],
+      savingsBalance: chartData.savings_balance[closestIndex],
+      netWorth: chartData.net_worth[closestIndex],
+      monthlyPayment: chartData.monthly_payments[closestIndex],
+    })
+  })
+
+  return rows
+}
+
+// Every whole year of the simulation, for the full year-by-year table
+export const getSimulationYears = (chartData: ChartData): number[] => {
+  const lastYear = chartData.years.length > 0 ? Math.ceil(chartData.years[chartData.years.length - 1]) : 0
+  return Array.from({ length: lastYear }, (_, i) => i + 1)
+}
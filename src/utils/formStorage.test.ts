@@ -0,0 +1,181 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  FORM_STORAGE_VERSION,
+  clearFormData,
+  dismissFormRecovery,
+  getFormRecovery,
+  loadFormData,
+  migrateFormData,
+  saveFormData,
+} from './formStorage'
+import { broadcastFormChange } from './tabSync'
+import { defaultFormValues } from './validation'
+import type { MortgageFormData } from './validation'
+
+vi.mock('./tabSync', () => ({
+  FORM_SYNC_KEY: 'form',
+  markLocalEdit: vi.fn(),
+  broadcastFormChange: vi.fn(),
+}))
+
+const STORAGE_KEY = 'mortgasim-form-values'
+const BACKUP_KEY = 'mortgasim-form-values-backup'
+const LEGACY_STORAGE_KEY = 'mortgasim_form_data'
+
+const storage = new Map<string, string>()
+
+const formData: MortgageFormData = {
+  ...defaultFormValues,
+  start_date: '2024-09-01',
+  birth_year: 1990,
+  mortgage_amount: 280000,
+  deals: [{ start_month: 0, end_month: 60, rate: 4.2 }],
+}
+
+// Values as saved before versioning: one fixed deal and top-level savings fields
+const version1Data = {
+  start_date: '2024-09-01',
+  mortgage_amount: 280000,
+  term_years: 25,
+  fixed_rate: 4.2,
+  fixed_term_months: 60,
+  variable_rate: 6.5,
+  savings_rate: 4.5,
+  monthly_contribution: 500,
+  initial_balance: 20000,
+  typical_payment: 1500,
+  asset_value: 400000,
+  show_years_after_payoff: 5,
+}
+
+const store = (key: string, value: unknown) => storage.set(key, JSON.stringify(value))
+
+beforeAll(() => {
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key),
+  })
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+afterAll(() => {
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+beforeEach(() => {
+  clearFormData()
+  storage.clear()
+  vi.mocked(broadcastFormChange).mockClear()
+})
+
+describe('migrateFormData', () => {
+  it('1 -> 2 turns the fixed rate and term into the first deal', () => {
+    const migrated = migrateFormData({ fixed_rate: 3.5, fixed_term_months: 24 }, 1)
+    expect(migrated).toMatchObject({ deals: [{ start_month: 0, end_month: 24, rate: 3.5 }] })
+    expect(migrateFormData({ fixed_rate: 3.5 }, 1)).toMatchObject({ deals: [] })
+  })
+
+  it('2 -> 3 moves the top-level savings fields into a named account', () => {
+    const migrated = migrateFormData({ deals: [], savings_rate: 4, monthly_contribution: 100 }, 2)
+    expect(migrated).toEqual({
+      deals: [],
+      savings_accounts: [
+        { name: 'Savings', rate: 4, monthly_contribution: 100, initial_balance: 0, draw_for_repayment: true },
+      ],
+    })
+    // No savings at all: the old fields are just dropped
+    expect(migrateFormData({ deals: [] }, 2)).toEqual({ deals: [] })
+  })
+
+  it('3 -> 4 draws on accounts saved before drawing was optional', () => {
+    const migrated = migrateFormData(
+      { savings_accounts: [{ name: 'ISA' }, { name: 'Pot', draw_for_repayment: false }] },
+      3
+    )
+    expect(migrated).toEqual({
+      savings_accounts: [
+        { name: 'ISA', draw_for_repayment: true },
+        { name: 'Pot', draw_for_repayment: false },
+      ],
+    })
+  })
+
+  it('leaves current and newer data as it is', () => {
+    expect(migrateFormData(formData, FORM_STORAGE_VERSION)).toEqual(formData)
+    expect(migrateFormData(formData, FORM_STORAGE_VERSION + 1)).toEqual(formData)
+    expect(migrateFormData('not an object', 1)).toBe('not an object')
+  })
+})
+
+describe('loadFormData', () => {
+  it('returns null when nothing is saved', () => {
+    expect(loadFormData()).toBeNull()
+  })
+
+  it('round-trips saved values and announces them unless told not to', () => {
+    saveFormData(formData, { broadcast: false })
+    expect(broadcastFormChange).not.toHaveBeenCalled()
+    expect(JSON.parse(storage.get(STORAGE_KEY) ?? '')).toMatchObject({ version: FORM_STORAGE_VERSION, data: formData })
+    expect(loadFormData()).toEqual(formData)
+
+    saveFormData({ ...formData, term_years: 20 })
+    expect(broadcastFormChange).toHaveBeenCalledTimes(1)
+  })
+
+  it('migrates unversioned values through every step', () => {
+    store(STORAGE_KEY, version1Data)
+    expect(loadFormData()).toEqual({
+      ...version1Data,
+      savings_rate: undefined,
+      monthly_contribution: undefined,
+      initial_balance: undefined,
+      deals: [{ start_month: 0, end_month: 60, rate: 4.2 }],
+      savings_accounts: [
+        { name: 'Savings', rate: 4.5, monthly_contribution: 500, initial_balance: 20000, draw_for_repayment: true },
+      ],
+      overpayment_type: 'none',
+      custom_overpayments: [],
+    })
+    expect(getFormRecovery()).toBeNull()
+  })
+
+  it('moves values from the legacy key to the current one', () => {
+    store(LEGACY_STORAGE_KEY, { version: '4.0.0', timestamp: 1700000000000, data: formData })
+    expect(loadFormData()).toEqual(formData)
+    expect(storage.has(LEGACY_STORAGE_KEY)).toBe(false)
+    expect(JSON.parse(storage.get(STORAGE_KEY) ?? '')).toMatchObject({ version: FORM_STORAGE_VERSION, data: formData })
+  })
+
+  it('backs up unreadable values and starts from the defaults', () => {
+    storage.set(STORAGE_KEY, '{"version":4,"data":{')
+    expect(loadFormData()).toBeNull()
+    expect(getFormRecovery()).toMatchObject({ invalidFields: [], raw: '{"version":4,"data":{' })
+
+    dismissFormRecovery()
+    expect(storage.has(BACKUP_KEY)).toBe(false)
+  })
+
+  it('replaces only the invalid fields with defaults and backs up the original', () => {
+    const saved = { version: FORM_STORAGE_VERSION, savedAt: 1, data: { ...formData, mortgage_amount: -1, term_years: 'x' } }
+    store(STORAGE_KEY, saved)
+
+    expect(loadFormData()).toEqual({
+      ...formData,
+      mortgage_amount: defaultFormValues.mortgage_amount,
+      term_years: defaultFormValues.term_years,
+    })
+    const recovery = getFormRecovery()
+    expect(recovery?.invalidFields).toEqual(['mortgage_amount', 'term_years'])
+    expect(JSON.parse(recovery?.raw ?? '')).toEqual(saved)
+  })
+
+  it('keeps the first backup when a later load fails too', () => {
+    storage.set(STORAGE_KEY, 'first')
+    loadFormData()
+    storage.set(STORAGE_KEY, 'second')
+    loadFormData()
+    expect(getFormRecovery()?.raw).toBe('first')
+  })
+})
@@ -0,0 +1,216 @@
+import { mortgageFormSchema, sanitizeFormData } from './validation'
+import type { MortgageFormData } from './validation'
+import { FORM_SYNC_KEY, broadcastFormChange, markLocalEdit } from './tabSync'
+
+// Form values persisted between visits, wrapped with the schema version they were saved at
+const STORAGE_KEY = 'mortgasim-form-values'
+// Values that failed validation are kept here until the user decides what to do with them
+const BACKUP_KEY = 'mortgasim-form-values-backup'
+// Written by an earlier storage helper as { version: '4.0.0', timestamp, data }
+const LEGACY_STORAGE_KEY = 'mortgasim_form_data'
+
+export const FORM_STORAGE_VERSION = 4
+
+interface StoredFormData {
+  version: number
+  savedAt: number
+  data: MortgageFormData
+}
+
+// Saved values that could not be fully restored
+export interface FormRecovery {
+  savedAt: number
+  invalidFields: string[] // Empty when the stored data could not be read at all
+  raw: string // Stored value as found, for download
+}
+
+type RawFormData = Record<string, unknown>
+
+/**
+ * Upgrades from each version to the next. Values saved before versioning start at 1; each step
+ * only fills in what is missing, so current-shape data passes through unchanged.
+ */
+const migrations: Record<number, (data: RawFormData) => RawFormData> = {
+  // 1 -> 2: a single fixed rate and term become the first deal
+  1: (data) => {
+    if (Array.isArray(data.deals)) return data
+    const rate = typeof data.fixed_rate === 'number' ? data.fixed_rate : undefined
+    const months = typeof data.fixed_term_months === 'number' ? data.fixed_term_months : 0
+    return {
+      ...data,
+      deals: rate !== undefined && months > 0 ? [{ start_month: 0, end_month: months, rate }] : [],
+    }
+  },
+  // 2 -> 3: top-level savings fields become a single named account
+  2: (data) => {
+    const { savings_rate, monthly_contribution, initial_balance, ...rest } = data
+    if (Array.isArray(data.savings_accounts)) return rest
+    if (savings_rate === undefined && monthly_contribution === undefined && initial_balance === undefined) {
+      return rest
+    }
+    return {
+      ...rest,
+      savings_accounts: [
+        {
+          name: 'Savings',
+          rate: savings_rate ?? 0,
+          monthly_contribution: monthly_contribution ?? 0,
+          initial_balance: initial_balance ?? 0,
+          draw_for_repayment: true,
+        },
+      ],
+    }
+  },
+  // 3 -> 4: accounts saved before drawing was optional were always drawn on
+  3: (data) => {
+    if (!Array.isArray(data.savings_accounts)) return data
+    return {
+      ...data,
+      savings_accounts: data.savings_accounts.map((account) =>
+        account && typeof account === 'object' && !('draw_for_repayment' in account)
+          ? { ...account, draw_for_repayment: true }
+          : account
+      ),
+    }
+  },
+}
+
+const isRecord = (value: unknown): value is RawFormData =>
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+
+// Split a stored value into its schema version and form values
+const unwrap = (stored: unknown): { version: number; data: unknown } => {
+  if (isRecord(stored) && 'version' in stored && 'data' in stored) {
+    // The legacy helper used semver strings; its major version lines up with ours
+    const version = typeof stored.version === 'string' ? parseInt(stored.version, 10) : stored.version
+    return { version: typeof version === 'number' && Number.isInteger(version) ? version : 1, data: stored.data }
+  }
+  return { version: 1, data: stored }
+}
+
+/**
+ * Bring form values saved at `version` up to the current shape. Values from a newer release
+ * are returned as they are, to be validated for whatever can be read.
+ */
+export const migrateFormData = (data: unknown, version: number): unknown => {
+  if (!isRecord(data)) return data
+  let migrated = data
+  for (let v = Math.max(version, 1); v < FORM_STORAGE_VERSION; v++) {
+    migrated = migrations[v](migrated)
+  }
+  return migrated
+}
+
+const writeBackup = (recovery: FormRecovery) => {
+  try {
+    // Keep the first failure so a later one doesn't replace the user's original values
+    if (localStorage.getItem(BACKUP_KEY) === null) {
+      localStorage.setItem(BACKUP_KEY, JSON.stringify(recovery))
+    }
+  } catch (error) {
+    console.warn('Failed to back up saved form values:', error)
+  }
+}
+
+/**
+ * Load the saved form values, migrating older versions and validating them against
+ * `mortgageFormSchema`. Fields that fail fall back to their defaults; the original value is
+ * backed up and reported through `getFormRecovery` rather than discarded.
+ */
+export const loadFormData = (): MortgageFormData | null => {
+  let raw: string | null
+  let key = STORAGE_KEY
+  try {
+    raw = localStorage.getItem(STORAGE_KEY)
+    if (raw === null) {
+      raw = localStorage.getItem(LEGACY_STORAGE_KEY)
+      key = LEGACY_STORAGE_KEY
+    }
+  } catch {
+    return null
+  }
+  if (raw === null) return null
+
+  let stored: unknown
+  try {
+    stored = JSON.parse(raw)
+  } catch {
+    console.warn('Saved form values could not be read')
+    writeBackup({ savedAt: Date.now(), invalidFields: [], raw })
+    return null
+  }
+
+  const { version, data: storedData } = unwrap(stored)
+  const data = migrateFormData(storedData, version)
+
+  const result = mortgageFormSchema.safeParse(data)
+  if (result.success) {
+    if (key === LEGACY_STORAGE_KEY) {
+      saveFormData(result.data, { broadcast: false })
+      try {
+        localStorage.removeItem(LEGACY_STORAGE_KEY)
+      } catch {
+        // Left behind; the current key takes precedence from now on
+      }
+    }
+    lastSaved = JSON.stringify(result.data)
+    return result.data
+  }
+
+  const { data: recovered, invalidFields } = sanitizeFormData(data)
+  console.warn('Saved form fields replaced with defaults:', invalidFields)
+  writeBackup({ savedAt: Date.now(), invalidFields, raw })
+  return recovered
+}
+
+// Values as last saved, so unchanged saves aren't written or announced to other tabs again
+let lastSaved: string | null = null
+
+/**
+ * Save the form values and pass them on to other open tabs. Pass `broadcast: false` when
+ * applying values that came from another tab.
+ */
+export const saveFormData = (data: MortgageFormData, { broadcast = true } = {}): void => {
+  const serialised = JSON.stringify(data)
+  if (serialised === lastSaved) return
+  try {
+    const stored: StoredFormData = { version: FORM_STORAGE_VERSION, savedAt: Date.now(), data }
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored))
+    lastSaved = serialised
+  } catch (error) {
+    console.warn('Failed to save form values:', error)
+    return
+  }
+  if (broadcast) {
+    markLocalEdit(FORM_SYNC_KEY)
+    broadcastFormChange(data)
+  }
+}
+
+export const clearFormData = (): void => {
+  try {
+    localStorage.removeItem(STORAGE_KEY)
+    localStorage.removeItem(LEGACY_STORAGE_KEY)
+    lastSaved = null
+  } catch (error) {
+    console.warn('Failed to clear form values:', error)
+  }
+}
+
+// Saved values that were only partly restored, until the user dismisses the prompt
+export const getFormRecovery = (): FormRecovery | null => {
+  try {
+    const backup = localStorage.getItem(BACKUP_KEY)
+    return backup ? (JSON.parse(backup) as FormRecovery) : null
+  } catch {
+    return null
+  }
+}
+
+export const dismissFormRecovery = (): void => {
+  try {
+    localStorage.removeItem(BACKUP_KEY)
+  } catch (error) {
+    console.warn('Failed to clear form backup:', error)
+  }
+}
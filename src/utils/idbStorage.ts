@@ -0,0 +1,142 @@
+import type { StateStorage } from 'zustand/middleware'
+import { broadcastStoreChange, markLocalEdit } from './tabSync'
+
+const DB_NAME = 'mortgasim'
+const DB_VERSION = 2
+
+// Object stores: persisted zustand state by store name, simulation results by request key,
+// and the last result shown for each scenario
+export const STATE_STORE = 'state'
+export const SIMULATION_STORE = 'simulations'
+export const LAST_RESULT_STORE = 'lastResults'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+/**
+ * Open (and on first use create) the app database. Rejects where IndexedDB is unavailable,
+ * e.g. some private browsing modes, so callers can fall back to localStorage.
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'))
+        return
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(STATE_STORE)) {
+          db.createObjectStore(STATE_STORE)
+        }
+        if (!db.objectStoreNames.contains(SIMULATION_STORE)) {
+          db.createObjectStore(SIMULATION_STORE, { keyPath: 'key' }).createIndex('savedAt', 'savedAt')
+        }
+        if (!db.objectStoreNames.contains(LAST_RESULT_STORE)) {
+          db.createObjectStore(LAST_RESULT_STORE)
+        }
+      }
+      request.onsuccess = () => {
+        const db = request.result
+        // Step aside when a newer release in another tab needs to upgrade the database
+        db.onversionchange = () => {
+          db.close()
+          dbPromise = null
+        }
+        resolve(db)
+      }
+      request.onerror = () => reject(request.error)
+      request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another tab'))
+    })
+    // Let a later call retry rather than caching the failure
+    dbPromise.catch(() => {
+      dbPromise = null
+    })
+  }
+  return dbPromise
+}
+
+export const idbGet = async <T>(storeName: string, key: IDBValidKey): Promise<T | undefined> => {
+  const db = await openDatabase()
+  return promisify<T | undefined>(db.transaction(storeName, 'readonly').objectStore(storeName).get(key))
+}
+
+// Omit `key` for stores with a key path
+export const idbSet = async (storeName: string, value: unknown, key?: IDBValidKey): Promise<void> => {
+  const db = await openDatabase()
+  await promisify(db.transaction(storeName, 'readwrite').objectStore(storeName).put(value, key))
+}
+
+export const idbDelete = async (storeName: string, key: IDBValidKey): Promise<void> => {
+  const db = await openDatabase()
+  await promisify(db.transaction(storeName, 'readwrite').objectStore(storeName).delete(key))
+}
+
+// Last value read or written per store, so rehydrating from another tab's write is not echoed back
+const lastValues = new Map<string, string | null>()
+
+const readLocalStorage = (name: string): string | null => {
+  try {
+    return localStorage.getItem(name)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * zustand `persist` storage backed by IndexedDB. State previously kept in localStorage under
+ * the same name is moved across on first read; where IndexedDB is unavailable localStorage
+ * is used as before. Every change is announced to other tabs.
+ */
+export const idbStateStorage: StateStorage = {
+  getItem: async (name) => {
+    let value: string | null
+    try {
+      value = (await idbGet<string>(STATE_STORE, name)) ?? null
+      if (value === null) {
+        value = readLocalStorage(name)
+        if (value !== null) {
+          await idbSet(STATE_STORE, value, name)
+          localStorage.removeItem(name)
+        }
+      }
+    } catch {
+      value = readLocalStorage(name)
+    }
+    lastValues.set(name, value)
+    return value
+  },
+
+  setItem: async (name, value) => {
+    if (lastValues.get(name) === value) return
+    lastValues.set(name, value)
+    try {
+      await idbSet(STATE_STORE, value, name)
+    } catch {
+      try {
+        localStorage.setItem(name, value)
+      } catch (error) {
+        console.warn(`Failed to save ${name}:`, error)
+        return
+      }
+    }
+    markLocalEdit(name)
+    broadcastStoreChange(name)
+  },
+
+  removeItem: async (name) => {
+    lastValues.delete(name)
+    try {
+      await idbDelete(STATE_STORE, name)
+    } catch {
+      localStorage.removeItem(name)
+    }
+    broadcastStoreChange(name)
+  },
+}
@@ -0,0 +1,54 @@
+import { calculateMonthlyPayment } from '../services/simulationEngine'
+import type { MortgageSlugParams } from './mortgageSlug'
+import type { MortgageFormData } from './validation'
+
+// Page metadata for mortgage pages, shared by the client and the build-time prerender
+
+export const SITE_URL = 'https://www.mortgasim.com'
+
+export interface MortgageSeoData {
+  title: string
+  description: string
+  ogTitle: string
+  ogDescription: string
+}
+
+export interface MortgageKeyFigures {
+  monthlyPayment: number
+  totalInterest: number
+  totalRepaid: number
+}
+
+export const DEFAULT_MORTGAGE_SEO: MortgageSeoData = {
+  title: 'Mortgage Calculator - MortgaSim',
+  description: 'Calculate your mortgage payments with our advanced mortgage simulation tool.',
+  ogTitle: 'Mortgage Calculator - MortgaSim',
+  ogDescription: 'Calculate your mortgage payments with our advanced mortgage simulation tool.',
+}
+
+export const getMortgageSeoData = (
+  params: Partial<Pick<MortgageFormData, 'mortgage_amount' | 'term_years' | 'fixed_rate'>>
+): MortgageSeoData => {
+  const { mortgage_amount, term_years, fixed_rate } = params
+  const loanFormatted = mortgage_amount ? `£${(mortgage_amount / 1000).toFixed(0)}k` : ''
+  const termFormatted = term_years ? `${term_years} years` : ''
+  const rateFormatted = fixed_rate ? `${fixed_rate}%` : ''
+
+  const title = `${loanFormatted} Mortgage over ${termFormatted} at ${rateFormatted} - MortgaSim`
+  const description = `Calculate monthly payments for a ${loanFormatted} mortgage over ${termFormatted} at ${rateFormatted} interest rate. See total cost, savings growth, and net worth projections.`
+
+  return {
+    title,
+    description,
+    ogTitle: title,
+    ogDescription: description,
+  }
+}
+
+// Repayment figures for the whole term at one rate, as a slug page starts out
+export const getMortgageKeyFigures = ({ loan, term, rate }: MortgageSlugParams): MortgageKeyFigures => {
+  const months = term * 12
+  const monthlyPayment = calculateMonthlyPayment(loan, rate, months)
+  const totalRepaid = monthlyPayment * months
+  return { monthlyPayment, totalInterest: totalRepaid - loan, totalRepaid }
+}
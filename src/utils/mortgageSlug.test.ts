@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { generateMortgageSlug, parseMortgageSlug, slugToFormData } from './mortgageSlug'
+import { mortgageCombinations } from '../config/mortgageCombinations'
+import { mortgageFormSchema, defaultFormValues } from './validation'
+
+describe('mortgage slugs', () => {
+  it('round-trips every sitemap landing page', () => {
+    mortgageCombinations.forEach(({ loan, term, rate }) => {
+      const slug = generateMortgageSlug(loan, term, rate)
+      expect(parseMortgageSlug(slug), slug).toEqual({ loan, term, rate })
+    })
+  })
+
+  it('writes the canonical form', () => {
+    expect(generateMortgageSlug(200000, 25, 4)).toBe('200k-over-25-years-at-4-percent')
+    expect(generateMortgageSlug(162500, 30, 4.75)).toBe('162.5k-over-30-years-at-4.75-percent')
+    expect(generateMortgageSlug(1500000, 35, 5.1)).toBe('1500k-over-35-years-at-5.1-percent')
+    expect(generateMortgageSlug(200000, 1, 4)).toBe('200k-over-1-year-at-4-percent')
+  })
+
+  it('accepts looser spellings', () => {
+    expect(parseMortgageSlug('1.2m-over-30-years-at-4.50-percent')).toEqual({ loan: 1200000, term: 30, rate: 4.5 })
+    expect(parseMortgageSlug('95000-over-20-years-at-3-percent')).toEqual({ loan: 95000, term: 20, rate: 3 })
+    expect(parseMortgageSlug('200K-Over-1-Year-At-4-Percent')).toEqual({ loan: 200000, term: 1, rate: 4 })
+    expect(parseMortgageSlug('200k-over-1-years-at-4-percent')).toEqual({ loan: 200000, term: 1, rate: 4 })
+  })
+
+  it('rejects malformed slugs and values the form would reject', () => {
+    expect(parseMortgageSlug('')).toBeNull()
+    expect(parseMortgageSlug('200k-over-25-years')).toBeNull()
+    expect(parseMortgageSlug('200k-over-25-years-at-4-percent-extra')).toBeNull()
+    expect(parseMortgageSlug('-200k-over-25-years-at-4-percent')).toBeNull()
+    expect(parseMortgageSlug('999-over-25-years-at-4-percent')).toBeNull()
+    expect(parseMortgageSlug('200k-over-0-years-at-4-percent')).toBeNull()
+    expect(parseMortgageSlug('200k-over-41-years-at-4-percent')).toBeNull()
+    expect(parseMortgageSlug('200k-over-25-years-at-15.5-percent')).toBeNull()
+  })
+
+  it('builds valid form values with one deal over the whole term', () => {
+    const formData = slugToFormData({ loan: 250000, term: 30, rate: 5 })
+    expect(formData).toMatchObject({
+      mortgage_amount: 250000,
+      term_years: 30,
+      deals: [{ start_month: 0, end_month: 360, rate: 5 }],
+      // £1,342.05 a month, rounded up
+      typical_payment: 1343,
+    })
+    expect(mortgageFormSchema.safeParse({ ...defaultFormValues, ...formData }).success).toBe(true)
+  })
+})
@@ -0,0 +1,55 @@
+import { calculateMonthlyPayment } from '../services/simulationEngine';
+import type { MortgageFormData } from './validation';
+
+export interface MortgageSlugParams {
+  loan: number;
+  term: number; // Years
+  rate: number; // Annual %
+}
+
+const MORTGAGE_SLUG_PATTERN = /^(\d+(?:\.\d+)?)(k|m)?-over-(\d+)-years?-at-(\d+(?:\.\d+)?)-percent$/i;
+
+/**
+ * Readable path segment for the sitemap's landing pages, e.g. 200k-over-25-years-at-4-percent.
+ * This is the canonical form; parseMortgageSlug accepts looser spellings of it.
+ */
+export function generateMortgageSlug(loan: number, term: number, rate: number): string {
+  const loanDisplay = loan >= 1000 ? `${loan / 1000}k` : loan.toString();
+  const termDisplay = term === 1 ? '1-year' : `${term}-years`;
+  return `${loanDisplay}-over-${termDisplay}-at-${rate}-percent`;
+}
+
+/**
+ * Parse a slug such as 200k-over-25-years-at-4-percent, also accepting `m` amounts, plain
+ * pounds, "1-year", trailing zeros and any letter case. Returns null for anything else or
+ * for values the form would reject.
+ */
+export function parseMortgageSlug(slug: string): MortgageSlugParams | null {
+  const match = MORTGAGE_SLUG_PATTERN.exec(slug);
+  if (!match) return null;
+
+  const [, amount, unit, termText, rateText] = match;
+  const multiplier = unit?.toLowerCase() === 'm' ? 1000000 : unit ? 1000 : 1;
+  const loan = Math.round(Number(amount) * multiplier);
+  const term = Number(termText);
+  const rate = Number(rateText);
+
+  if (loan < 1000 || term < 1 || term > 40 || rate > 15) return null;
+  return { loan, term, rate };
+}
+
+/**
+ * Form values for a slug: the whole term on one deal at the slug's rate, with the
+ * monthly payment set to what that deal requires.
+ */
+export function slugToFormData({ loan, term, rate }: MortgageSlugParams): Partial<MortgageFormData> {
+  const months = term * 12;
+  return {
+    mortgage_amount: loan,
+    term_years: term,
+    fixed_rate: rate,
+    fixed_term_months: months,
+    deals: [{ start_month: 0, end_month: months, rate }],
+    typical_payment: Math.ceil(calculateMonthlyPayment(loan, rate, months)),
+  };
+}
@@ -1,25 +1,17 @@
+import { calculateMonthlyPayment } from '../services/simulationEngine';
+import { mortgageCombinations } from '../config/mortgageCombinations';
+
 export interface OGImageParams {
   loan: number;
   term: number;
   rate: number;
 }
 
-/**
- * Generate OG image URL for mortgage parameters
- * This would typically point to a backend API that generates images on-the-fly
- */
-export function generateOGImageUrl(params: OGImageParams, baseUrl: string = ''): string {
-  const searchParams = new URLSearchParams({
-    loan: params.loan.toString(),
-    term: params.term.toString(),
-    rate: params.rate.toString(),
-    format: 'png',
-    width: '1200',
-    height: '630',
-  });
+export const OG_IMAGE_WIDTH = 1200;
+export const OG_IMAGE_HEIGHT = 630;
 
-  return `${baseUrl}/api/og-image?${searchParams.toString()}`;
-}
+// Pre-generated images are emitted here in the build output (see plugins/generateOgImages.ts)
+export const OG_IMAGE_DIR = 'og-images';
 
 /**
  * Generate static OG image filename for pre-generated images
@@ -28,68 +20,96 @@ export function generateStaticOGImagePath(params: OGImageParams): string {
   const { loan, term, rate } = params;
   const loanK = loan >= 1000 ? `${(loan / 1000).toFixed(0)}k` : loan.toString();
   const rateStr = rate.toString().replace('.', '_');
-  
-  return `/og-images/mortgage-${loanK}-${term}y-${rateStr}p.png`;
+
+  return `/${OG_IMAGE_DIR}/mortgage-${loanK}-${term}y-${rateStr}p.png`;
 }
 
 /**
- * Create a basic SVG-based OG image as data URL (for development/fallback)
+ * Whether a pre-generated image exists, i.e. the parameters match a sitemap combination
  */
-export function generateBasicOGImageDataUrl(params: OGImageParams): string {
+export function hasStaticOGImage(params: OGImageParams): boolean {
+  return mortgageCombinations.some(
+    (combo) => combo.loan === params.loan && combo.term === params.term && combo.rate === params.rate
+  );
+}
+
+// Common fonts first; the build renders with whatever of these is installed
+const FONT_FAMILY = 'Arial, Helvetica, DejaVu Sans, sans-serif';
+
+// Outstanding balance at the end of each year, starting with the loan itself
+const yearlyBalances = ({ loan, term, rate }: OGImageParams): number[] => {
+  const monthlyRate = rate / 100 / 12;
+  const payment = calculateMonthlyPayment(loan, rate, term * 12);
+  const balances = [loan];
+  let balance = loan;
+  for (let month = 1; month <= term * 12; month++) {
+    balance = Math.max(0, balance * (1 + monthlyRate) - payment);
+    if (month % 12 === 0) balances.push(balance);
+  }
+  return balances;
+};
+
+/**
+ * Render the 1200×630 social preview for a mortgage: loan, term, rate, monthly payment
+ * and a mini balance curve.
+ */
+export function renderOGImageSvg(params: OGImageParams): string {
   const { loan, term, rate } = params;
   const loanFormatted = `£${(loan / 1000).toFixed(0)}k`;
-  const monthlyPayment = calculateEstimatedPayment(loan, term, rate);
-  
-  const svg = `
-    <svg width="1200" height="630" xmlns="http://www.w3.org/2000/svg">
-      <defs>
-        <linearGradient id="bg" x1="0%" y1="0%" x2="100%" y2="100%">
-          <stop offset="0%" style="stop-color:#1976d2;stop-opacity:1" />
-          <stop offset="100%" style="stop-color:#1565c0;stop-opacity:1" />
-        </linearGradient>
-      </defs>
-      
-      <!-- Background -->
-      <rect width="1200" height="630" fill="url(#bg)"/>
-      
-      <!-- Logo/Brand area -->
-      <rect x="50" y="50" width="200" height="60" rx="10" fill="rgba(255,255,255,0.1)"/>
-      <text x="150" y="90" text-anchor="middle" fill="white" font-family="Arial, sans-serif" font-size="24" font-weight="bold">MortgaSim</text>
-      
-      <!-- Main content -->
-      <text x="600" y="200" text-anchor="middle" fill="white" font-family="Arial, sans-serif" font-size="48" font-weight="bold">${loanFormatted} Mortgage</text>
-      <text x="600" y="260" text-anchor="middle" fill="rgba(255,255,255,0.9)" font-family="Arial, sans-serif" font-size="32">${term} years at ${rate}% interest</text>
-      
-      <!-- Estimated payment -->
-      <text x="600" y="340" text-anchor="middle" fill="rgba(255,255,255,0.8)" font-family="Arial, sans-serif" font-size="24">Estimated monthly payment:</text>
-      <text x="600" y="390" text-anchor="middle" fill="white" font-family="Arial, sans-serif" font-size="42" font-weight="bold">£${monthlyPayment.toLocaleString()}</text>
-      
-      <!-- CTA -->
-      <rect x="450" y="460" width="300" height="60" rx="30" fill="rgba(255,255,255,0.9)"/>
-      <text x="600" y="500" text-anchor="middle" fill="#1976d2" font-family="Arial, sans-serif" font-size="24" font-weight="bold">Calculate Full Scenario</text>
-      
-      <!-- Bottom info -->
-      <text x="600" y="580" text-anchor="middle" fill="rgba(255,255,255,0.7)" font-family="Arial, sans-serif" font-size="18">See total cost, savings growth, and net worth projections</text>
-    </svg>
-  `;
-  
-  return `data:image/svg+xml;base64,${btoa(svg)}`;
+  const payment = calculateMonthlyPayment(loan, rate, term * 12);
+  const monthlyPayment = Math.round(payment);
+  const totalInterest = Math.round(payment * term * 12 - loan);
+
+  // Balance curve inside the chart panel
+  const chart = { x: 700, y: 200, width: 420, height: 260 };
+  const balances = yearlyBalances(params);
+  const points = balances.map((balance, year) => {
+    const x = chart.x + (year / term) * chart.width;
+    const y = chart.y + chart.height - (balance / loan) * chart.height;
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+  const baseline = chart.y + chart.height;
+  const area = `M${chart.x},${baseline} L${points.join(' L')} L${chart.x + chart.width},${baseline} Z`;
+
+  return `<svg width="${OG_IMAGE_WIDTH}" height="${OG_IMAGE_HEIGHT}" viewBox="0 0 ${OG_IMAGE_WIDTH} ${OG_IMAGE_HEIGHT}" xmlns="http://www.w3.org/2000/svg">
+  <defs>
+    <linearGradient id="bg" x1="0%" y1="0%" x2="100%" y2="100%">
+      <stop offset="0%" stop-color="#1976d2"/>
+      <stop offset="100%" stop-color="#0d47a1"/>
+    </linearGradient>
+  </defs>
+
+  <!-- Background -->
+  <rect width="${OG_IMAGE_WIDTH}" height="${OG_IMAGE_HEIGHT}" fill="url(#bg)"/>
+
+  <!-- Brand -->
+  <rect x="60" y="50" width="200" height="60" rx="10" fill="#ffffff" fill-opacity="0.12"/>
+  <text x="160" y="90" text-anchor="middle" fill="#ffffff" font-family="${FONT_FAMILY}" font-size="26" font-weight="bold">MortgaSim</text>
+
+  <!-- Headline figures -->
+  <text x="80" y="230" fill="#ffffff" font-family="${FONT_FAMILY}" font-size="56" font-weight="bold">${loanFormatted} Mortgage</text>
+  <text x="80" y="285" fill="#ffffff" fill-opacity="0.9" font-family="${FONT_FAMILY}" font-size="32">${term} years at ${rate}% interest</text>
+  <text x="80" y="370" fill="#ffffff" fill-opacity="0.8" font-family="${FONT_FAMILY}" font-size="26">Monthly payment</text>
+  <text x="80" y="435" fill="#ffffff" font-family="${FONT_FAMILY}" font-size="60" font-weight="bold">£${monthlyPayment.toLocaleString('en-GB')}</text>
+  <text x="80" y="490" fill="#ffffff" fill-opacity="0.8" font-family="${FONT_FAMILY}" font-size="26">Total interest £${totalInterest.toLocaleString('en-GB')}</text>
+
+  <!-- Mini balance curve -->
+  <rect x="${chart.x - 30}" y="${chart.y - 60}" width="${chart.width + 60}" height="${chart.height + 110}" rx="16" fill="#ffffff" fill-opacity="0.1"/>
+  <text x="${chart.x}" y="${chart.y - 22}" fill="#ffffff" fill-opacity="0.85" font-family="${FONT_FAMILY}" font-size="22">Balance over time</text>
+  <path d="${area}" fill="#ffffff" fill-opacity="0.2"/>
+  <polyline points="${points.join(' ')}" fill="none" stroke="#ffffff" stroke-width="4" stroke-linejoin="round"/>
+  <text x="${chart.x}" y="${baseline + 32}" fill="#ffffff" fill-opacity="0.7" font-family="${FONT_FAMILY}" font-size="18">Year 0</text>
+  <text x="${chart.x + chart.width}" y="${baseline + 32}" text-anchor="end" fill="#ffffff" fill-opacity="0.7" font-family="${FONT_FAMILY}" font-size="18">Year ${term}</text>
+
+  <!-- Footer -->
+  <text x="600" y="590" text-anchor="middle" fill="#ffffff" fill-opacity="0.7" font-family="${FONT_FAMILY}" font-size="20">See total cost, savings growth and net worth projections at mortgasim.com</text>
+</svg>`;
 }
 
 /**
- * Simple mortgage payment calculation for display purposes
+ * Create a basic SVG-based OG image as data URL (for development/fallback)
  */
-function calculateEstimatedPayment(principal: number, years: number, annualRate: number): number {
-  const monthlyRate = annualRate / 100 / 12;
-  const numberOfPayments = years * 12;
-  
-  if (monthlyRate === 0) {
-    return principal / numberOfPayments;
-  }
-  
-  const monthlyPayment = principal * 
-    (monthlyRate * Math.pow(1 + monthlyRate, numberOfPayments)) / 
-    (Math.pow(1 + monthlyRate, numberOfPayments) - 1);
-  
-  return Math.round(monthlyPayment);
-} 
\ No newline at end of file
+export function generateBasicOGImageDataUrl(params: OGImageParams): string {
+  const svg = renderOGImageSvg(params);
+  return `data:image/svg+xml;base64,${btoa(unescape(encodeURIComponent(svg)))}`;
+}
@@ -0,0 +1,370 @@
+import { Chart } from 'chart.js'
+import type { RowInput } from 'jspdf-autotable'
+import { formatCurrency } from './formatting'
+import { formatDateLabel, periodIndexToDate } from './chartSetup'
+import { getFinancialPositionRows, getSimulationYears } from './financialPosition'
+import type { ExportSource } from './exportResults'
+import { formatOverpaymentRule, overpaymentRuleLabels } from '../store/overpaymentStore'
+
+// A chart from the page, re-rendered for print
+export interface ReportChartImage {
+  title: string
+  dataUrl: string
+  aspectRatio: number // Height over width
+}
+
+// A4 portrait, in millimetres
+const PAGE_MARGIN = 15
+const CONTENT_WIDTH = 210 - PAGE_MARGIN * 2
+
+// Charts span the content width at this resolution
+const PRINT_DPI = 300
+const PRINT_WIDTH_PX = Math.round((CONTENT_WIDTH / 25.4) * PRINT_DPI)
+
+// MUI primary blue, for headings and table headers
+const BRAND_COLOR: [number, number, number] = [25, 118, 210]
+
+const repaymentTypeLabels = {
+  repayment: 'Capital repayment',
+  interest_only: 'Interest-only',
+  part_and_part: 'Part and part',
+}
+
+const dealTypeLabels = {
+  fixed: 'Fixed',
+  tracker: 'Tracker',
+  discount: 'Discount',
+}
+
+/**
+ * Re-render every chart marked with `data-report-chart` under `root` at print resolution.
+ * Each chart is drawn at a higher pixel ratio, captured, then put back as it was.
+ */
+export const captureReportCharts = (root: HTMLElement | null): ReportChartImage[] => {
+  if (!root) return []
+  const images: ReportChartImage[] = []
+
+  root.querySelectorAll<HTMLElement>('[data-report-chart]').forEach((container) => {
+    const canvas = container.querySelector('canvas')
+    const chart = canvas ? Chart.getChart(canvas) : undefined
+    if (!chart || chart.width === 0 || chart.height === 0) return
+
+    const originalRatio = chart.options.devicePixelRatio
+    chart.options.devicePixelRatio = Math.max(2, PRINT_WIDTH_PX / chart.width)
+    chart.resize()
+    chart.update('none')
+    images.push({
+      title: container.dataset.reportChart ?? '',
+      dataUrl: chart.toBase64Image('image/png', 1),
+      aspectRatio: chart.height / chart.width,
+    })
+    chart.options.devicePixelRatio = originalRatio
+    chart.resize()
+    chart.update('none')
+  })
+
+  return images
+}
+
+/**
+ * Build a multi-page PDF of a scenario: inputs, summary statistics, warnings, the charts
+ * captured from the page and the year-by-year position. jsPDF is loaded on demand.
+ */
+export const createPdfReport = async (source: ExportSource, charts: ReportChartImage[]): Promise<Blob> => {
+  const [{ jsPDF }, { autoTable }] = await Promise.all([import('jspdf'), import('jspdf-autotable')])
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' })
+  const pageHeight = doc.internal.pageSize.getHeight()
+
+  const { formData, results } = source
+  const { summary_statistics: summary, chart_data: chartData, monthly_data: monthlyData } = results
+  const startDate = formData.start_date
+  const birthYear = formData.birth_year
+
+  // "Mar 2031 (age 52)" for a 1-based month of the simulation
+  const monthLabel = (month: number): string => {
+    const date = periodIndexToDate(month, startDate)
+    const label = formatDateLabel(date)
+    return birthYear ? `${label} (age ${date.getFullYear() - birthYear})` : label
+  }
+
+  let y = PAGE_MARGIN
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - PAGE_MARGIN) {
+      doc.addPage()
+      y = PAGE_MARGIN
+    }
+  }
+
+  const heading = (text: string) => {
+    ensureSpace(20)
+    doc.setFont('helvetica', 'bold')
+    doc.setFontSize(13)
+    doc.setTextColor(...BRAND_COLOR)
+    doc.text(text, PAGE_MARGIN, y + 5)
+    doc.setTextColor(0)
+    y += 9
+  }
+
+  const table = (head: string[] | null, body: RowInput[], firstColumnWidth?: number) => {
+    autoTable(doc, {
+      head: head ? [head] : undefined,
+      body,
+      startY: y,
+      margin: { left: PAGE_MARGIN, right: PAGE_MARGIN, top: PAGE_MARGIN, bottom: PAGE_MARGIN },
+      theme: 'striped',
+      styles: { fontSize: 9, cellPadding: 1.5 },
+      headStyles: { fillColor: BRAND_COLOR },
+      columnStyles: firstColumnWidth ? { 0: { fontStyle: 'bold', cellWidth: firstColumnWidth } } : undefined,
+      didDrawPage: (data) => {
+        y = data.cursor?.y ?? y
+      },
+    })
+    y += 8
+  }
+
+  const keyValueTable = (rows: Array<[string, string]>) => table(null, rows, 70)
+
+  // Title
+  doc.setFont('helvetica', 'bold')
+  doc.setFontSize(20)
+  doc.text('Mortgage scenario report', PAGE_MARGIN, y + 7)
+  doc.setFont('helvetica', 'normal')
+  doc.setFontSize(10)
+  doc.setTextColor(100)
+  doc.text(
+    `${formatCurrency(formData.mortgage_amount)} over ${formData.term_years} years from ${formatDateLabel(new Date(startDate))} · generated ${new Date().toLocaleDateString('en-GB')}`,
+    PAGE_MARGIN,
+    y + 14
+  )
+  doc.setTextColor(0)
+  y += 24
+
+  // Inputs
+  heading('Mortgage')
+  const mortgageRows: Array<[string, string]> = [
+    ['Start date', formatDateLabel(new Date(startDate))],
+    ['Loan amount', formatCurrency(formData.mortgage_amount)],
+    ['Term', `${formData.term_years} years`],
+    ['Repayment type', repaymentTypeLabels[formData.repayment_type ?? 'repayment']],
+  ]
+  if (formData.repayment_type === 'part_and_part') {
+    mortgageRows.push(['Interest-only portion', formatCurrency(formData.interest_only_amount ?? 0)])
+  }
+  mortgageRows.push(
+    ['Standard variable rate', `${formData.variable_rate}%`],
+    ['Monthly budget', formatCurrency(formData.typical_payment)],
+    ['Property value', formatCurrency(formData.asset_value)],
+    ['Offset mortgage', formData.offset_enabled ? 'Yes' : 'No']
+  )
+  if (formData.base_rate_path && formData.base_rate_path.length > 0) {
+    mortgageRows.push([
+      'Base rate path',
+      formData.base_rate_path.map((point) => `${point.rate}% from ${monthLabel(point.month + 1)}`).join(', '),
+    ])
+  }
+  if (birthYear) {
+    mortgageRows.push(['Birth year', String(birthYear)])
+  }
+  keyValueTable(mortgageRows)
+
+  if (formData.deals.length > 0) {
+    heading('Deals')
+    table(
+      ['Deal', 'Type', 'From', 'To', 'Rate', 'Fees', 'Cashback', 'ERC'],
+      formData.deals.map((deal, index) => {
+        const rate =
+          deal.type === 'tracker'
+            ? `Base + ${deal.margin ?? 0}%`
+            : deal.type === 'discount'
+              ? `SVR - ${deal.discount ?? 0}%`
+              : `${deal.rate}%`
+        return [
+          `Deal ${index + 1}`,
+          dealTypeLabels[deal.type ?? 'fixed'],
+          monthLabel(deal.start_month + 1),
+          monthLabel(deal.end_month),
+          rate,
+          formatCurrency((deal.arrangement_fee ?? 0) + (deal.valuation_fee ?? 0)),
+          formatCurrency(deal.cashback ?? 0),
+          deal.erc_percent_by_year?.length
+            ? deal.erc_percent_by_year.map((percent) => `${percent}%`).join(' / ')
+            : `${deal.erc_percent ?? 0}%`,
+        ]
+      })
+    )
+  }
+
+  if (formData.savings_accounts.length > 0) {
+    heading('Savings accounts')
+    table(
+      ['Account', 'Rate', 'Monthly contribution', 'Initial balance', 'Draw for repayment', 'Offset'],
+      formData.savings_accounts.map((account) => [
+        account.name,
+        `${account.rate}%`,
+        formatCurrency(account.monthly_contribution),
+        formatCurrency(account.initial_balance),
+        account.draw_for_repayment ? 'Yes' : 'No',
+        account.offset ? 'Yes' : 'No',
+      ])
+    )
+  }
+
+  // Chart overpayments and rules replace the form's overpayment settings when present
+  heading('Overpayments')
+  if (source.overpaymentRules.length > 0 || source.chartOverpayments.length > 0) {
+    table(
+      ['Overpayment', 'Amount', 'From', 'To'],
+      [
+        ...source.overpaymentRules.map((rule) => [
+          overpaymentRuleLabels[rule.type],
+          formatOverpaymentRule(rule),
+          monthLabel(rule.startPeriod),
+          monthLabel(rule.endPeriod),
+        ]),
+        ...source.chartOverpayments.map((op) => [
+          'One-off',
+          formatCurrency(op.amount),
+          monthLabel(op.periodIndex),
+          '',
+        ]),
+      ]
+    )
+  } else if (formData.overpayment_type === 'regular') {
+    keyValueTable([
+      ['Regular overpayment', `${formatCurrency(formData.regular_overpayment_amount ?? 0)} a month`],
+      ['Duration', `${formData.regular_overpayment_months ?? 0} months`],
+    ])
+  } else if (formData.overpayment_type === 'custom' && formData.custom_overpayments.length > 0) {
+    table(
+      ['Date', 'Amount'],
+      formData.custom_overpayments.map((op) => [
+        formatDateLabel(new Date(op.year, op.month - 1, 1)),
+        formatCurrency(op.amount),
+      ])
+    )
+  } else {
+    keyValueTable([['Overpayments', 'None']])
+  }
+
+  // Results
+  heading('Summary statistics')
+  const totalInterest = monthlyData.reduce((sum, data) => sum + data.interest_paid, 0)
+  const totalOverpayments = monthlyData.reduce((sum, data) => sum + data.overpayment, 0)
+  const summaryRows: Array<[string, string]> = [
+    ['Final net worth', formatCurrency(summary.final_net_worth)],
+    ['Final savings balance', formatCurrency(summary.final_savings_balance)],
+    ['Final mortgage balance', formatCurrency(summary.final_mortgage_balance)],
+    ['Minimum savings balance', `${formatCurrency(summary.min_savings_balance)} in ${monthLabel(summary.min_savings_month)}`],
+    [
+      'Mortgage paid off',
+      summary.mortgage_paid_off_month != null ? monthLabel(summary.mortgage_paid_off_month) : 'Not paid off',
+    ],
+    ['Total interest paid', formatCurrency(totalInterest)],
+    ['Total overpayments', formatCurrency(totalOverpayments)],
+  ]
+  if (summary.fixed_term_end_balance != null) {
+    summaryRows.push(['Balance at end of first deal', formatCurrency(summary.fixed_term_end_balance)])
+  }
+  if ((summary.total_early_repayment_charges ?? 0) > 0) {
+    summaryRows.push(['Early repayment charges', formatCurrency(summary.total_early_repayment_charges ?? 0)])
+  }
+  if (formData.offset_enabled && summary.total_offset_interest_saved != null) {
+    summaryRows.push(['Interest saved by offset', formatCurrency(summary.total_offset_interest_saved)])
+  }
+  if (summary.term_end_shortfall != null) {
+    summaryRows.push([
+      'Interest-only capital due at term end',
+      `${formatCurrency(summary.term_end_shortfall)} (${summary.term_end_shortfall_covered ? 'cleared from savings' : 'shortfall'})`,
+    ])
+  }
+  keyValueTable(summaryRows)
+
+  if (summary.account_summaries.length > 0) {
+    table(
+      ['Account', 'Final balance', 'Contributions', 'Interest earned'],
+      summary.account_summaries.map((account) => [
+        account.name,
+        formatCurrency(account.final_balance),
+        formatCurrency(account.total_contributions),
+        formatCurrency(account.total_interest_earned),
+      ])
+    )
+  }
+
+  if (summary.deal_costs && summary.deal_costs.length > 0) {
+    heading('Total cost of each deal')
+    table(
+      ['Deal', 'Initial rate', 'Interest', 'Fees', 'Cashback', 'ERCs', 'Total cost'],
+      summary.deal_costs.map((cost) => [
+        `Deal ${cost.deal_index + 1}`,
+        (cost.type ?? 'fixed') === 'fixed' ? `${cost.rate}%` : `${cost.rate}% (${cost.type})`,
+        formatCurrency(cost.interest_paid),
+        formatCurrency(cost.fees),
+        formatCurrency(cost.cashback),
+        formatCurrency(cost.early_repayment_charges),
+        formatCurrency(cost.total_cost),
+      ])
+    )
+  }
+
+  heading('Warnings')
+  doc.setFont('helvetica', 'normal')
+  doc.setFontSize(10)
+  const warnings = results.warnings.length > 0 ? results.warnings : ['None']
+  warnings.forEach((warning) => {
+    const lines: string[] = doc.splitTextToSize(results.warnings.length > 0 ? `• ${warning}` : warning, CONTENT_WIDTH)
+    ensureSpace(lines.length * 5)
+    doc.text(lines, PAGE_MARGIN, y + 4)
+    y += lines.length * 5
+  })
+  y += 6
+
+  // Charts, starting on a fresh page
+  if (charts.length > 0) {
+    doc.addPage()
+    y = PAGE_MARGIN
+    charts.forEach((chart) => {
+      const height = CONTENT_WIDTH * chart.aspectRatio
+      ensureSpace(height + 12)
+      heading(chart.title)
+      doc.addImage(chart.dataUrl, 'PNG', PAGE_MARGIN, y, CONTENT_WIDTH, height, undefined, 'FAST')
+      y += height + 8
+    })
+  }
+
+  // Year-by-year position
+  const positionRows = getFinancialPositionRows(chartData, startDate, getSimulationYears(chartData), birthYear)
+  if (positionRows.length > 0) {
+    doc.addPage()
+    y = PAGE_MARGIN
+    heading('Year by year')
+    table(
+      ['Year', 'Date', ...(birthYear ? ['Age'] : []), 'Mortgage balance', 'Savings balance', 'Net worth', 'Monthly payment'],
+      positionRows.map((row) => [
+        row.year,
+        row.date,
+        ...(birthYear ? [row.age ?? ''] : []),
+        formatCurrency(row.mortgageBalance),
+        formatCurrency(row.savingsBalance),
+        formatCurrency(row.netWorth),
+        formatCurrency(row.monthlyPayment),
+      ])
+    )
+  }
+
+  // Footer on every page
+  const pageCount = doc.getNumberOfPages()
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page)
+    doc.setFont('helvetica', 'normal')
+    doc.setFontSize(8)
+    doc.setTextColor(120)
+    doc.text('MortgaSim · illustrative projection, not financial advice', PAGE_MARGIN, pageHeight - 8)
+    doc.text(`Page ${page} of ${pageCount}`, 210 - PAGE_MARGIN, pageHeight - 8, { align: 'right' })
+  }
+
+  return doc.output('blob')
+}
+
+export const reportFileName = (): string => `mortgage-report-${new Date().toISOString().split('T')[0]}.pdf`
@@ -0,0 +1,126 @@
+import { z } from 'zod'
+import { mortgageFormSchema, overpaymentRuleSchema } from './validation'
+import type { MortgageFormData } from './validation'
+import { FORM_STORAGE_VERSION, migrateFormData } from './formStorage'
+import { flattenInputs } from './exportResults'
+import type { CellValue } from './xlsx'
+import type { OverpaymentRule } from '../store/overpaymentStore'
+
+const SCENARIO_FILE_FORMAT = 'mortgasim-scenario'
+const SCENARIO_FILE_VERSION = 1
+
+export const SCENARIO_FILE_EXTENSION = '.mortgasim.json'
+
+// A scenario as it travels in a file: everything needed to rebuild it, without ids or UI state
+export interface ScenarioFileContents {
+  name: string
+  notes: string
+  formData: MortgageFormData
+  chartOverpayments: Array<{ periodIndex: number; amount: number }>
+  overpaymentRules: OverpaymentRule[]
+}
+
+interface ScenarioFile extends ScenarioFileContents {
+  format: typeof SCENARIO_FILE_FORMAT
+  version: number
+  formVersion: number // Form storage version of `formData`, so older files can be migrated
+  exportedAt: string
+}
+
+// One value that differs between the current scenario and an imported one
+export interface ScenarioChange {
+  field: string
+  current: string
+  imported: string
+}
+
+export const createScenarioFile = (contents: ScenarioFileContents): Blob => {
+  const file: ScenarioFile = {
+    format: SCENARIO_FILE_FORMAT,
+    version: SCENARIO_FILE_VERSION,
+    formVersion: FORM_STORAGE_VERSION,
+    exportedAt: new Date().toISOString(),
+    name: contents.name,
+    notes: contents.notes,
+    formData: contents.formData,
+    chartOverpayments: contents.chartOverpayments.map(({ periodIndex, amount }) => ({ periodIndex, amount })),
+    overpaymentRules: contents.overpaymentRules,
+  }
+  return new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' })
+}
+
+const scenarioFileSchema = z.object({
+  format: z.literal(SCENARIO_FILE_FORMAT),
+  version: z.number().int().min(1).max(SCENARIO_FILE_VERSION),
+  formVersion: z.number().int().min(1).default(1),
+  name: z.string().default('').transform((name) => name.trim().slice(0, 50)), // Scenario names are capped at 50
+  notes: z.string().default(''),
+  formData: z.record(z.string(), z.unknown()),
+  chartOverpayments: z
+    .array(z.object({ periodIndex: z.number().int().min(1), amount: z.number().positive() }))
+    .default([]),
+  overpaymentRules: z.array(overpaymentRuleSchema.extend({ id: z.string() })).default([]),
+})
+
+/**
+ * Read a scenario file. Throws with a readable message when the file is not a scenario or
+ * its form values fail `mortgageFormSchema`, naming the fields at fault.
+ */
+export const parseScenarioFile = (text: string): ScenarioFileContents => {
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch {
+    throw new Error('The file is not valid JSON')
+  }
+  const file = scenarioFileSchema.safeParse(json)
+  if (!file.success) {
+    throw new Error('The file is not a MortgaSim scenario')
+  }
+
+  const formData = mortgageFormSchema.safeParse(migrateFormData(file.data.formData, file.data.formVersion))
+  if (!formData.success) {
+    const fields = [...new Set(formData.error.issues.map((issue) => issue.path.join('.')))]
+    throw new Error(`The scenario has invalid values for: ${fields.join(', ')}`)
+  }
+
+  return {
+    name: file.data.name || 'Imported scenario',
+    notes: file.data.notes,
+    formData: formData.data,
+    chartOverpayments: file.data.chartOverpayments,
+    overpaymentRules: file.data.overpaymentRules,
+  }
+}
+
+// Scenario values by dotted path; overpayments are keyed by month so an insertion shows as one change
+const flattenScenario = (contents: ScenarioFileContents): Map<string, string> => {
+  const rows: CellValue[][] = []
+  flattenInputs(contents.formData, '', rows)
+  flattenInputs(
+    Object.fromEntries(contents.chartOverpayments.map(({ periodIndex, amount }) => [`month ${periodIndex}`, amount])),
+    'overpayments',
+    rows
+  )
+  // Rule ids differ between browsers, so they are left out (undefined values are skipped)
+  flattenInputs(contents.overpaymentRules.map((rule) => ({ ...rule, id: undefined })), 'overpayment rules', rows)
+  rows.push(['notes', contents.notes])
+  return new Map(rows.map(([path, value]) => [String(path), String(value ?? '')]))
+}
+
+/**
+ * Every value that an import would change, in form order. Missing values show as empty.
+ */
+export const diffScenarios = (current: ScenarioFileContents, imported: ScenarioFileContents): ScenarioChange[] => {
+  const before = flattenScenario(current)
+  const after = flattenScenario(imported)
+  const fields = [...new Set([...before.keys(), ...after.keys()])]
+  return fields
+    .map((field) => ({ field, current: before.get(field) ?? '', imported: after.get(field) ?? '' }))
+    .filter((change) => change.current !== change.imported)
+}
+
+export const scenarioFileName = (name: string): string => {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+  return `${slug || 'scenario'}${SCENARIO_FILE_EXTENSION}`
+}
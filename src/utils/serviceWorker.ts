@@ -0,0 +1,12 @@
+/**
+ * Register the service worker written by plugins/generatePwaAssets.ts. It only exists in
+ * production builds, so the dev server is left alone.
+ */
+export const registerServiceWorker = (): void => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.warn('Service worker registration failed:', error)
+    })
+  })
+}
@@ -0,0 +1,112 @@
+import type { MortgageFormData } from './validation'
+
+const CHANNEL_NAME = 'mortgasim-sync'
+
+// Edits to the same data in two tabs this close together are reported as a conflict
+const CONFLICT_WINDOW_MS = 3000
+
+// Identifies this tab so its own messages can be told apart
+export const TAB_ID = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+  ? crypto.randomUUID()
+  : `${Date.now()}-${Math.random().toString(36).slice(2)}`
+
+// Key used for conflict tracking of the form values
+export const FORM_SYNC_KEY = 'form'
+
+export type SyncMessage =
+  | { type: 'store'; name: string; tabId: string; editedAt: number } // A persisted store was written
+  | { type: 'form'; data: MortgageFormData; tabId: string; editedAt: number } // Form values were saved
+
+export interface SyncConflict {
+  key: string // Store name or FORM_SYNC_KEY
+  localEditedAt: number
+  remoteEditedAt: number
+}
+
+type Listener<T> = (value: T) => void
+
+const messageListeners = new Set<Listener<SyncMessage>>()
+const conflictListeners = new Set<Listener<SyncConflict>>()
+const localEdits = new Map<string, number>()
+
+let channel: BroadcastChannel | null = null
+
+const handleMessage = (event: MessageEvent<SyncMessage>) => {
+  const message = event.data
+  if (!message || message.tabId === TAB_ID) return
+
+  const key = message.type === 'form' ? FORM_SYNC_KEY : message.name
+  const localEditedAt = localEdits.get(key)
+  if (localEditedAt !== undefined && Math.abs(message.editedAt - localEditedAt) < CONFLICT_WINDOW_MS) {
+    // The remote change still wins, as the most recent write to shared storage
+    const conflict: SyncConflict = { key, localEditedAt, remoteEditedAt: message.editedAt }
+    conflictListeners.forEach((listener) => listener(conflict))
+  }
+  messageListeners.forEach((listener) => listener(message))
+}
+
+// Opened lazily; null where BroadcastChannel is unsupported, in which case tabs don't sync
+const getChannel = (): BroadcastChannel | null => {
+  if (!channel && typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME)
+    channel.onmessage = handleMessage
+  }
+  return channel
+}
+
+const post = (message: SyncMessage) => {
+  try {
+    getChannel()?.postMessage(message)
+  } catch (error) {
+    console.warn('Failed to notify other tabs:', error)
+  }
+}
+
+// Record that this tab has just changed `key`, for conflict detection
+export const markLocalEdit = (key: string): void => {
+  localEdits.set(key, Date.now())
+}
+
+export const broadcastStoreChange = (name: string): void => {
+  post({ type: 'store', name, tabId: TAB_ID, editedAt: localEdits.get(name) ?? Date.now() })
+}
+
+export const broadcastFormChange = (data: MortgageFormData): void => {
+  post({ type: 'form', data, tabId: TAB_ID, editedAt: localEdits.get(FORM_SYNC_KEY) ?? Date.now() })
+}
+
+// Subscribe to changes made in other tabs. Returns an unsubscribe function.
+export const onSyncMessage = (listener: Listener<SyncMessage>): (() => void) => {
+  getChannel()
+  messageListeners.add(listener)
+  return () => {
+    messageListeners.delete(listener)
+  }
+}
+
+// Subscribe to edits that collided with another tab's. Returns an unsubscribe function.
+export const onSyncConflict = (listener: Listener<SyncConflict>): (() => void) => {
+  getChannel()
+  conflictListeners.add(listener)
+  return () => {
+    conflictListeners.delete(listener)
+  }
+}
+
+interface RehydratableStore {
+  persist: { getOptions: () => { name?: string }; rehydrate: () => Promise<void> | void }
+}
+
+/**
+ * Reload a zustand `persist` store whenever another tab writes it, so every open tab shows
+ * the same data. Call once at module level after creating the store.
+ */
+export const syncPersistedStore = (store: RehydratableStore): void => {
+  const { name } = store.persist.getOptions()
+  if (!name) return
+  onSyncMessage((message) => {
+    if (message.type === 'store' && message.name === name) {
+      void store.persist.rehydrate()
+    }
+  })
+}
@@ -0,0 +1,114 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import { decodeShareLink, encodeFormDataToUrl, SHARE_PAYLOAD_VERSION } from './urlParser'
+import { defaultFormValues } from './validation'
+import type { MortgageFormData } from './validation'
+import type { OverpaymentRule } from '../store/overpaymentStore'
+
+const formData: MortgageFormData = {
+  ...defaultFormValues,
+  start_date: '2025-03-01',
+  mortgage_amount: 325000,
+  term_years: 30,
+  variable_rate: 7.25,
+  deals: [
+    { start_month: 0, end_month: 24, rate: 4.1, arrangement_fee: 999, erc_percent_by_year: [3, 2] },
+    { start_month: 24, end_month: 60, rate: 0.75, type: 'tracker' },
+  ],
+  overpayment_type: 'custom',
+  custom_overpayments: [{ month: 6, year: 2026, amount: 5000 }],
+}
+
+const rules: OverpaymentRule[] = [
+  { id: 'rule-a', type: 'monthly', startPeriod: 1, endPeriod: 120, amount: 200 },
+  { id: 'rule-b', type: 'yearly_bonus', startPeriod: 12, endPeriod: 240, amount: 3000, bonusMonth: 3 },
+]
+
+const paramsFor = (url: string) => new URL(url).searchParams
+
+// Links from before versioning: base64 of the full-key form JSON
+const legacyLink = (data: unknown) =>
+  new URLSearchParams({ d: btoa(unescape(encodeURIComponent(JSON.stringify(data)))) })
+
+beforeAll(() => {
+  vi.stubGlobal('window', { location: { origin: 'https://mortgasim.test' } })
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+afterAll(() => {
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe('share links', () => {
+  it('round-trips the form, chart overpayments and rules', () => {
+    const url = encodeFormDataToUrl(formData, {
+      chartOverpayments: [{ periodIndex: 18, amount: 10000 }],
+      overpaymentRules: rules,
+    })
+    expect(url).toMatch(new RegExp(`^https://mortgasim\\.test/mortgage\\?d=${SHARE_PAYLOAD_VERSION}\\.[\\w-]+$`))
+
+    const shared = decodeShareLink(paramsFor(url))
+    expect(shared).toEqual({
+      formData,
+      chartOverpayments: [{ periodIndex: 18, amount: 10000 }],
+      // Ids are not shared; the decoder assigns fresh ones
+      overpaymentRules: rules.map((rule, index) => ({ ...rule, id: `shared-rule-${index}` })),
+      version: SHARE_PAYLOAD_VERSION,
+      invalidFields: [],
+    })
+  })
+
+  it('reads unversioned legacy links as version 1', () => {
+    const shared = decodeShareLink(legacyLink(formData))
+    expect(shared).toEqual({
+      formData,
+      chartOverpayments: [],
+      overpaymentRules: [],
+      version: 1,
+      invalidFields: [],
+    })
+  })
+
+  it('replaces invalid fields with defaults and keeps the rest', () => {
+    const shared = decodeShareLink(legacyLink({ ...formData, mortgage_amount: -5, term_years: 'thirty' }))
+    expect(shared?.invalidFields).toEqual(['mortgage_amount', 'term_years'])
+    expect(shared?.formData).toEqual({
+      ...formData,
+      mortgage_amount: defaultFormValues.mortgage_amount,
+      term_years: defaultFormValues.term_years,
+    })
+  })
+
+  it('drops malformed overpayments and rules without losing the form', () => {
+    const url = encodeFormDataToUrl(formData, {
+      chartOverpayments: [{ periodIndex: 0, amount: 100 }],
+      overpaymentRules: [{ ...rules[0], amount: -1 }],
+    })
+    const shared = decodeShareLink(paramsFor(url))
+    expect(shared?.formData).toEqual(formData)
+    expect(shared?.chartOverpayments).toEqual([])
+    expect(shared?.overpaymentRules).toEqual([])
+  })
+
+  it('returns null without a link or for one that cannot be read', () => {
+    const url = encodeFormDataToUrl(formData)
+    const encoded = paramsFor(url).get('d') ?? ''
+    const body = encoded.slice(encoded.indexOf('.') + 1)
+
+    expect(decodeShareLink(new URLSearchParams())).toBeNull()
+    // Truncated deflate stream
+    expect(decodeShareLink(new URLSearchParams({ d: `2.${body.slice(0, body.length / 2)}` }))).toBeNull()
+    // Not base64 at all
+    expect(decodeShareLink(new URLSearchParams({ d: '2.!!!' }))).toBeNull()
+    expect(decodeShareLink(new URLSearchParams({ d: 'not a link' }))).toBeNull()
+    // Versions this build does not know
+    expect(decodeShareLink(new URLSearchParams({ d: `${SHARE_PAYLOAD_VERSION + 1}.${body}` }))).toBeNull()
+    expect(decodeShareLink(new URLSearchParams({ d: `0.${body}` }))).toBeNull()
+  })
+
+  it('falls back to the defaults when the form is not an object', () => {
+    const shared = decodeShareLink(legacyLink([1, 2, 3]))
+    expect(shared?.formData).toEqual(defaultFormValues)
+    expect(shared?.invalidFields).toEqual([])
+  })
+})
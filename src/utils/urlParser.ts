@@ -1,40 +1,232 @@
-import type { MortgageFormData } from './validation'
+import { z } from 'zod';
+import { deflateSync, inflateSync, strToU8, strFromU8 } from 'fflate';
+import { sanitizeFormData, overpaymentRuleSchema } from './validation';
+import type { MortgageFormData } from './validation';
+import type { OverpaymentRule } from '../store/overpaymentStore';
+
+// Slug helpers live in their own module so build-time code can use them without the DOM
+export { generateMortgageSlug, parseMortgageSlug, slugToFormData } from './mortgageSlug';
+export type { MortgageSlugParams } from './mortgageSlug';
 
 /**
- * Encode complete form data as a base64 string in a single URL parameter.
- * Generates URLs like: /mortgage?d=<base64>
+ * Share links carry the form plus chart overpayments in a single `d` parameter:
+ *   /mortgage?d=<version>.<base64url(deflate(json))>
+ * The JSON uses the compact keys below. Links from before versioning hold plain
+ * base64 JSON with no version prefix and are treated as version 1.
  */
-export function encodeFormDataToUrl(data: MortgageFormData): string {
-  const json = JSON.stringify(data);
-  const base64 = btoa(unescape(encodeURIComponent(json)));
-  return `${window.location.origin}/mortgage?d=${encodeURIComponent(base64)}`;
+export const SHARE_PAYLOAD_VERSION = 2;
+
+// Full key -> compact key. Released links depend on these: add new keys, never change existing ones.
+const COMPACT_KEYS: Record<string, string> = {
+  start_date: 'sd',
+  birth_year: 'by',
+  mortgage_amount: 'ma',
+  term_years: 'ty',
+  fixed_rate: 'fr',
+  fixed_term_months: 'fm',
+  variable_rate: 'vr',
+  offset_enabled: 'oe',
+  base_rate_path: 'bp',
+  month: 'm',
+  rate: 'r',
+  repayment_type: 'rt',
+  interest_only_amount: 'io',
+  deals: 'd',
+  start_month: 's',
+  end_month: 'e',
+  type: 't',
+  margin: 'mg',
+  discount: 'dc',
+  collar: 'cl',
+  overpayment_allowance_percent: 'oa',
+  erc_percent: 'ec',
+  erc_percent_by_year: 'ey',
+  arrangement_fee: 'af',
+  valuation_fee: 'vf',
+  cashback: 'cb',
+  fees_added_to_loan: 'fl',
+  savings_accounts: 'a',
+  name: 'n',
+  monthly_contribution: 'mc',
+  initial_balance: 'ib',
+  draw_for_repayment: 'dr',
+  offset: 'o',
+  expected_return: 'er',
+  volatility: 'vo',
+  typical_payment: 'tp',
+  asset_value: 'av',
+  show_years_after_payoff: 'sy',
+  monte_carlo_enabled: 'me',
+  rate_volatility: 'rv',
+  overpayment_type: 'ot',
+  regular_overpayment_amount: 'ra',
+  regular_overpayment_months: 'rm',
+  custom_overpayments: 'co',
+  year: 'y',
+  amount: 'am',
+  // Overpayment rules
+  startPeriod: 'sp',
+  endPeriod: 'ep',
+  bonusMonth: 'bm',
+  escalationPercent: 'xp',
+  salary: 'sa',
+  salaryGrowthPercent: 'sg',
+  percentOfIncrease: 'pi',
+};
+
+const EXPANDED_KEYS: Record<string, string> = Object.fromEntries(
+  Object.entries(COMPACT_KEYS).map(([full, compact]) => [compact, full])
+);
+
+// Rename object keys recursively; keys missing from the map pass through unchanged
+const renameKeys = (value: unknown, keys: Record<string, string>): unknown => {
+  if (Array.isArray(value)) return value.map((item) => renameKeys(item, keys));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [keys[key] ?? key, renameKeys(item, keys)])
+    );
+  }
+  return value;
+};
+
+interface SharePayload {
+  v: number;
+  f: unknown; // Compact form data
+  o?: unknown; // Chart overpayments as [periodIndex, amount] pairs
+  r?: unknown; // Compact overpayment rules, without ids
+}
+
+// Each step upgrades a payload from version n to n + 1
+const migrations: Record<number, (payload: SharePayload) => SharePayload> = {
+  // Version 1 was the raw form JSON with full keys and no overpayments
+  1: (payload) => ({ v: 2, f: renameKeys(payload.f, COMPACT_KEYS) }),
+};
+
+const sharedOverpaymentsSchema = z.array(
+  z.tuple([z.number().int().min(1), z.number().positive()])
+);
+
+const sharedRulesSchema = z.array(overpaymentRuleSchema);
+
+export interface SharedScenario {
+  formData: MortgageFormData;
+  chartOverpayments: Array<{ periodIndex: number; amount: number }>;
+  overpaymentRules: OverpaymentRule[];
+  version: number; // Version the link was created with
+  invalidFields: string[]; // Form fields that failed validation and fell back to defaults
 }
 
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string): Uint8Array => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+// Read the `d` parameter into a payload at its original version
+const parseSharePayload = (encoded: string): SharePayload => {
+  const separator = encoded.indexOf('.');
+  if (separator === -1) {
+    // Unversioned legacy link: base64 of the full-key JSON
+    const json = decodeURIComponent(escape(atob(encoded)));
+    return { v: 1, f: JSON.parse(json) };
+  }
+  const version = Number(encoded.slice(0, separator));
+  const json = strFromU8(inflateSync(fromBase64Url(encoded.slice(separator + 1))));
+  return { ...(JSON.parse(json) as Omit<SharePayload, 'v'>), v: version };
+};
+
 /**
- * Decode form data from a base64-encoded `d` query parameter.
+ * Encode form data and chart overpayments as a compressed, versioned `d` parameter.
+ * Generates URLs like: /mortgage?d=2.<base64url>
  */
-export function decodeFormDataFromUrl(searchParams: URLSearchParams): Partial<MortgageFormData> {
+export function encodeFormDataToUrl(
+  data: MortgageFormData,
+  overpayments: {
+    chartOverpayments?: Array<{ periodIndex: number; amount: number }>;
+    overpaymentRules?: OverpaymentRule[];
+  } = {}
+): string {
+  const payload: SharePayload = { v: SHARE_PAYLOAD_VERSION, f: renameKeys(data, COMPACT_KEYS) };
+  const { chartOverpayments = [], overpaymentRules = [] } = overpayments;
+  if (chartOverpayments.length > 0) {
+    payload.o = chartOverpayments.map((op) => [op.periodIndex, op.amount]);
+  }
+  if (overpaymentRules.length > 0) {
+    // Ids are regenerated on decode; undefined values are dropped by JSON.stringify
+    payload.r = renameKeys(overpaymentRules.map((rule) => ({ ...rule, id: undefined })), COMPACT_KEYS);
+  }
+  const compressed = deflateSync(strToU8(JSON.stringify(payload)), { level: 9 });
+  return `${window.location.origin}/mortgage?d=${SHARE_PAYLOAD_VERSION}.${toBase64Url(compressed)}`;
+}
+
+/**
+ * Decode, migrate and validate a share link. Returns null when there is no `d` parameter
+ * or it cannot be read at all; fields that fail validation fall back to their defaults.
+ */
+export function decodeShareLink(searchParams: URLSearchParams): SharedScenario | null {
   const encoded = searchParams.get('d');
-  if (!encoded) return {};
+  if (!encoded) return null;
 
+  let payload: SharePayload;
   try {
-    const json = decodeURIComponent(escape(atob(encoded)));
-    const parsed = JSON.parse(json);
-    if (parsed && typeof parsed === 'object') {
-      return parsed as Partial<MortgageFormData>;
-    }
+    payload = parseSharePayload(encoded);
   } catch {
-    console.warn('Failed to decode base64 form data from URL');
+    console.warn('Failed to decode share link from URL');
+    return null;
+  }
+
+  const version = payload.v;
+  if (!Number.isInteger(version) || version < 1 || version > SHARE_PAYLOAD_VERSION) {
+    console.warn(`Unsupported share link version: ${version}`);
+    return null;
+  }
+  while (payload.v < SHARE_PAYLOAD_VERSION) {
+    payload = migrations[payload.v](payload);
+  }
+
+  const { data, invalidFields } = sanitizeFormData(renameKeys(payload.f, EXPANDED_KEYS));
+  if (invalidFields.length > 0) {
+    console.warn('Share link fields replaced with defaults:', invalidFields);
   }
 
-  return {};
+  const overpayments = sharedOverpaymentsSchema.safeParse(payload.o ?? []);
+  const rules = sharedRulesSchema.safeParse(renameKeys(payload.r ?? [], EXPANDED_KEYS));
+
+  return {
+    formData: data,
+    chartOverpayments: overpayments.success
+      ? overpayments.data.map(([periodIndex, amount]) => ({ periodIndex, amount }))
+      : [],
+    overpaymentRules: rules.success
+      ? rules.data.map((rule, index) => ({ ...rule, id: `shared-rule-${index}` }))
+      : [],
+    version,
+    invalidFields,
+  };
+}
+
+/**
+ * Decode just the form data from a share link, or an empty object without one.
+ */
+export function decodeFormDataFromUrl(searchParams: URLSearchParams): Partial<MortgageFormData> {
+  return decodeShareLink(searchParams)?.formData ?? {};
 }
 
 /**
- * Generate a shareable link for the current form data.
+ * Generate a shareable link for the current form data and chart overpayments.
  */
-export function generateShareableLink(data: MortgageFormData): string {
-  return encodeFormDataToUrl(data);
+export function generateShareableLink(
+  data: MortgageFormData,
+  overpayments?: Parameters<typeof encodeFormDataToUrl>[1]
+): string {
+  return encodeFormDataToUrl(data, overpayments);
 }
 
 /**
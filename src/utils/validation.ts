@@ -44,12 +44,42 @@ export const mortgageFormSchema = z.object({
     .min(0, 'Variable rate cannot be negative')
     .max(15, 'Variable rate cannot exceed 15%'),
 
+  // Offset mortgage: accounts marked `offset` reduce the interest-bearing balance
+  offset_enabled: z.boolean().optional(),
+
+  // Projected base rate curve followed by tracker deals and the SVR
+  base_rate_path: z
+    .array(z.object({
+      month: z.number().int().min(0, 'Month cannot be negative'),
+      rate: z.number().min(0, 'Base rate cannot be negative').max(15, 'Base rate cannot exceed 15%'),
+    }))
+    .optional(),
+
+  // Repayment type; part-and-part splits off an interest-only amount
+  repayment_type: z.enum(['repayment', 'interest_only', 'part_and_part']).optional(),
+
+  interest_only_amount: z
+    .number()
+    .min(0, 'Interest-only amount cannot be negative')
+    .optional(),
+
   // Deals - array of fixed-rate deal periods
   deals: z
     .array(z.object({
       start_month: z.number().int().min(0, 'Start month cannot be negative'),
       end_month: z.number().int().min(1, 'End month must be at least 1'),
       rate: z.number().min(0, 'Rate cannot be negative').max(15, 'Rate cannot exceed 15%'),
+      type: z.enum(['fixed', 'tracker', 'discount']).optional(),
+      margin: z.number().min(-5, 'Margin cannot be below -5%').max(10, 'Margin cannot exceed 10%').optional(),
+      discount: z.number().min(0, 'Discount cannot be negative').max(10, 'Discount cannot exceed 10%').optional(),
+      collar: z.number().min(0, 'Collar cannot be negative').max(15, 'Collar cannot exceed 15%').optional(),
+      overpayment_allowance_percent: z.number().min(0, 'Allowance cannot be negative').max(100, 'Allowance cannot exceed 100%').optional(),
+      erc_percent: z.number().min(0, 'ERC cannot be negative').max(10, 'ERC cannot exceed 10%').optional(),
+      erc_percent_by_year: z.array(z.number().min(0, 'ERC cannot be negative').max(10, 'ERC cannot exceed 10%')).optional(),
+      arrangement_fee: z.number().min(0, 'Fee cannot be negative').max(50000, 'Fee cannot exceed £50,000').optional(),
+      valuation_fee: z.number().min(0, 'Fee cannot be negative').max(10000, 'Fee cannot exceed £10,000').optional(),
+      cashback: z.number().min(0, 'Cashback cannot be negative').max(50000, 'Cashback cannot exceed £50,000').optional(),
+      fees_added_to_loan: z.boolean().optional(),
     }))
     .optional()
     .default([{ start_month: 0, end_month: 24, rate: 1.65 }]),
@@ -62,6 +92,9 @@ export const mortgageFormSchema = z.object({
       monthly_contribution: z.number().min(0, 'Contribution cannot be negative'),
       initial_balance: z.number().min(0, 'Initial balance cannot be negative'),
       draw_for_repayment: z.boolean().default(true),
+      offset: z.boolean().optional(),
+      expected_return: z.number().min(-20, 'Expected return cannot be below -20%').max(30, 'Expected return cannot exceed 30%').optional(),
+      volatility: z.number().min(0, 'Volatility cannot be negative').max(60, 'Volatility cannot exceed 60%').optional(),
     }))
     .min(0, 'At least one account can be added')
     .max(10, 'Maximum 10 accounts allowed')
@@ -87,6 +120,15 @@ export const mortgageFormSchema = z.object({
     .int('Years after payoff must be a whole number')
     .min(0, 'Years after payoff cannot be negative')
     .max(20, 'Years after payoff cannot exceed 20'),
+
+  // Monte Carlo projection: random savings returns per account and random rate moves
+  monte_carlo_enabled: z.boolean().optional(),
+
+  rate_volatility: z
+    .number()
+    .min(0, 'Rate volatility cannot be negative')
+    .max(5, 'Rate volatility cannot exceed 5%')
+    .optional(),
   
   // Overpayments - new user-friendly structure
   overpayment_type: z
@@ -115,6 +157,19 @@ export const mortgageFormSchema = z.object({
     .default([]),
 })
 
+// Recurring overpayment rule as stored outside the app (share links, files), without its id
+export const overpaymentRuleSchema = z.object({
+  type: z.enum(['monthly', 'yearly_bonus', 'salary_increase', 'escalating']),
+  startPeriod: z.number().int().min(1),
+  endPeriod: z.number().int().min(1),
+  amount: z.number().min(0),
+  bonusMonth: z.number().int().min(1).max(12).optional(),
+  escalationPercent: z.number().optional(),
+  salary: z.number().min(0).optional(),
+  salaryGrowthPercent: z.number().optional(),
+  percentOfIncrease: z.number().min(0).max(100).optional(),
+})
+
 // Helper type for custom overpayments
 export type CustomOverpayment = {
   month: number // Calendar month (1-12)
@@ -129,6 +184,9 @@ export type SavingsAccountFormData = {
   monthly_contribution: number
   initial_balance: number
   draw_for_repayment: boolean
+  offset?: boolean
+  expected_return?: number
+  volatility?: number
 }
 
 export type MortgageFormData = z.infer<typeof mortgageFormSchema>
@@ -163,6 +221,36 @@ export const defaultFormValues: MortgageFormData = {
   custom_overpayments: [],
 }
 
+/**
+ * Validate form data from outside the app, replacing each top-level field that fails with its
+ * default (or dropping it when the default is unset) so one bad value doesn't discard the rest.
+ */
+export const sanitizeFormData = (raw: unknown): { data: MortgageFormData; invalidFields: string[] } => {
+  const candidate: Record<string, unknown> = {
+    ...defaultFormValues,
+    ...(raw && typeof raw === 'object' && !Array.isArray(raw) ? raw : {}),
+  }
+  const invalidFields: string[] = []
+  const defaults = defaultFormValues as Record<string, unknown>
+
+  // Every pass resets at least one more field, so this ends once each field has had its chance
+  for (;;) {
+    const result = mortgageFormSchema.safeParse(candidate)
+    if (result.success) return { data: result.data, invalidFields }
+
+    const failed = [...new Set(result.error.issues.map((issue) => issue.path[0]))].filter(
+      (field): field is string => typeof field === 'string' && !invalidFields.includes(field)
+    )
+    if (failed.length === 0) return { data: defaultFormValues, invalidFields }
+
+    failed.forEach((field) => {
+      invalidFields.push(field)
+      if (defaults[field] === undefined) delete candidate[field]
+      else candidate[field] = defaults[field]
+    })
+  }
+}
+
 // Helper function to convert new overpayment structure to API format
 export const convertOverpaymentsToApiFormat = (data: MortgageFormData): string | undefined => {
   if (data.overpayment_type === 'none') {
@@ -237,82 +325,3 @@ export const getMonthName = (monthNumber: number): string => {
   ]
   return months[monthNumber - 1] || 'Invalid'
 }
-
-// Local storage utilities with validation
-const STORAGE_KEY = 'mortgasim_form_data'
-const STORAGE_VERSION = '4.0.0' // Updated for draw_for_repayment support
-
-interface StoredFormData {
-  version: string
-  timestamp: number
-  data: MortgageFormData
-}
-
-// Validate stored data against current schema
-export const validateStoredData = (stored: any): stored is StoredFormData => {
-  try {
-    // Check if it has the expected structure
-    if (!stored || typeof stored !== 'object') return false
-    if (!stored.version || !stored.timestamp || !stored.data) return false
-    
-    // Check version compatibility
-    if (stored.version !== STORAGE_VERSION) return false
-    
-    // Check if data is not too old (30 days)
-    const thirtyDaysAgo = Date.now() - (30 * 24 * 60 * 60 * 1000)
-    if (stored.timestamp < thirtyDaysAgo) return false
-    
-    // Validate against schema
-    const result = mortgageFormSchema.safeParse(stored.data)
-    return result.success
-  } catch (error) {
-    console.warn('Failed to validate stored data:', error)
-    return false
-  }
-}
-
-// Save form data to localStorage
-export const saveFormDataToStorage = (data: MortgageFormData): void => {
-  try {
-    const storedData: StoredFormData = {
-      version: STORAGE_VERSION,
-      timestamp: Date.now(),
-      data
-    }
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(storedData))
-  } catch (error) {
-    console.warn('Failed to save form data to localStorage:', error)
-  }
-}
-
-// Load form data from localStorage
-export const loadFormDataFromStorage = (): MortgageFormData | null => {
-  try {
-    const stored = localStorage.getItem(STORAGE_KEY)
-    if (!stored) return null
-    
-    const parsedData = JSON.parse(stored)
-    
-    if (validateStoredData(parsedData)) {
-      return parsedData.data
-    } else {
-      // Invalid format - clear the storage
-      console.warn('Stored form data is invalid or outdated, clearing localStorage')
-      clearFormDataFromStorage()
-      return null
-    }
-  } catch (error) {
-    console.warn('Failed to load form data from localStorage:', error)
-    clearFormDataFromStorage()
-    return null
-  }
-}
-
-// Clear form data from localStorage
-export const clearFormDataFromStorage = (): void => {
-  try {
-    localStorage.removeItem(STORAGE_KEY)
-  } catch (error) {
-    console.warn('Failed to clear form data from localStorage:', error)
-  }
-} 
\ No newline at end of file
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import { unzipSync, strFromU8 } from 'fflate'
+import { createXlsx } from './xlsx'
+import type { Sheet } from './xlsx'
+
+const unzip = async (sheets: Sheet[]) => {
+  const files = unzipSync(new Uint8Array(await createXlsx(sheets).arrayBuffer()))
+  return Object.fromEntries(Object.entries(files).map(([name, data]) => [name, strFromU8(data)]))
+}
+
+describe('createXlsx', () => {
+  it('packages every part a spreadsheet app needs', async () => {
+    const files = await unzip([{ name: 'One', rows: [['a']] }, { name: 'Two', rows: [['b']] }])
+    expect(Object.keys(files).sort()).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml',
+      'xl/workbook.xml',
+      'xl/worksheets/sheet1.xml',
+      'xl/worksheets/sheet2.xml',
+    ])
+    expect(files['[Content_Types].xml']).toContain('PartName="/xl/worksheets/sheet2.xml"')
+    expect(files['xl/_rels/workbook.xml.rels']).toContain('Id="rId3"')
+  })
+
+  it('writes typed cells with a bold header and skips empty ones', async () => {
+    const files = await unzip([
+      {
+        name: 'Data',
+        rows: [
+          ['Label', 'Value', 'Flag'],
+          ['Rate', 4.5, true],
+          [null, Number.NaN, ''],
+        ],
+      },
+    ])
+    const sheet = files['xl/worksheets/sheet1.xml']
+    expect(sheet).toContain('<c r="A1" s="1" t="inlineStr"><is><t xml:space="preserve">Label</t></is></c>')
+    expect(sheet).toContain('<c r="B2"><v>4.5</v></c>')
+    expect(sheet).toContain('<c r="C2" t="b"><v>1</v></c>')
+    expect(sheet).toContain('<row r="3"></row>')
+    // More than one row: the header stays frozen
+    expect(sheet).toContain('state="frozen"')
+  })
+
+  it('names columns past Z', async () => {
+    const row = Array.from({ length: 28 }, (_, i) => i)
+    const sheet = (await unzip([{ name: 'Wide', rows: [row] }]))['xl/worksheets/sheet1.xml']
+    expect(sheet).toContain('<c r="Z1" s="1"><v>25</v></c>')
+    expect(sheet).toContain('<c r="AB1" s="1"><v>27</v></c>')
+  })
+
+  it('escapes text and cleans up sheet names', async () => {
+    const files = await unzip([
+      { name: 'Costs & fees: 2025/26 [draft] with a very long name', rows: [['<a & "b">\u0001']] },
+      { name: '???', rows: [] },
+    ])
+    expect(files['xl/workbook.xml']).toContain('<sheet name="Costs &amp; fees  2025 26  draft  w"')
+    expect(files['xl/workbook.xml']).toContain('<sheet name="Sheet2"')
+    expect(files['xl/worksheets/sheet1.xml']).toContain('&lt;a &amp; &quot;b&quot;&gt;</t>')
+  })
+})
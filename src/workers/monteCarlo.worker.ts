@@ -0,0 +1,17 @@
+import { runMonteCarlo } from '../services/monteCarlo'
+import type { MonteCarloWorkerRequest, MonteCarloWorkerResponse } from '../services/monteCarlo'
+
+// Runs Monte Carlo projections off the main thread; each run is a few hundred engine passes
+
+self.onmessage = (event: MessageEvent<MonteCarloWorkerRequest>) => {
+  const { request, options } = event.data
+
+  let response: MonteCarloWorkerResponse
+  try {
+    response = { result: runMonteCarlo(request, options) }
+  } catch (error) {
+    response = { error: error instanceof Error ? error.message : 'Monte Carlo simulation failed' }
+  }
+
+  self.postMessage(response)
+}
@@ -0,0 +1,17 @@
+import { optimizeOverpayments } from '../services/overpaymentOptimizer'
+import type { OptimizerWorkerRequest, OptimizerWorkerResponse } from '../services/overpaymentOptimizer'
+
+// Runs the overpayment search off the main thread; each search is a few hundred engine passes
+
+self.onmessage = (event: MessageEvent<OptimizerWorkerRequest>) => {
+  const { request, options } = event.data
+
+  let response: OptimizerWorkerResponse
+  try {
+    response = { result: optimizeOverpayments(request, options) }
+  } catch (error) {
+    response = { error: error instanceof Error ? error.message : 'Optimisation failed' }
+  }
+
+  self.postMessage(response)
+}
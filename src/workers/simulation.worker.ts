@@ -0,0 +1,17 @@
+import { runSimulation } from '../services/simulationEngine'
+import type { SimulationWorkerRequest, SimulationWorkerResponse } from '../services/simulationTransport'
+
+// Runs the local simulation engine off the main thread
+
+self.onmessage = (event: MessageEvent<SimulationWorkerRequest>) => {
+  const { id, request } = event.data
+
+  let response: SimulationWorkerResponse
+  try {
+    response = { id, result: runSimulation(request) }
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : 'Simulation failed' }
+  }
+
+  self.postMessage(response)
+}
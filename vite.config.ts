@@ -1,9 +1,13 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { prerenderLandingPages } from './plugins/prerenderLandingPages'
+import { generateOgImages } from './plugins/generateOgImages'
+import { generatePwaAssets } from './plugins/generatePwaAssets'
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), generateOgImages(), prerenderLandingPages(), generatePwaAssets()],
   build: {
     rollupOptions: {
       output: {
@@ -53,5 +57,9 @@ export default defineConfig({
     },
     // Optimize chunk size warnings
     chunkSizeWarningLimit: 600, // Slightly higher limit for vendor chunks
-  }
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+  },
 })